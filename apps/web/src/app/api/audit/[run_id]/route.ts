@@ -11,28 +11,28 @@
  *       "status": "complete",
  *       "stages": [
  *         {
- *           "stage": "scrape",
- *           "timestamp": "2025-10-09T...",
- *           "duration_ms": 2500,
- *           "status": "complete"
- *         },
- *         {
  *           "stage": "ideas.generate",
+ *           "timestamp": "2025-10-09T...",
  *           "provider": "noop-llm",
  *           "model": "noop-llm-v1",
+ *           "usage": { "prompt_tokens": 812, "completion_tokens": 32, "total_tokens": 844 },
  *           "cost_usd": 0,
  *           "duration_ms": 123,
- *           "validation_flags": ["length_ok"],
+ *           "cached": false,
+ *           "validation_flags": ["validation_passed"],
  *           "artifacts": 20,
  *           "status": "complete"
  *         }
- *       ]
+ *       ],
+ *       "totals": { "calls": 1, "cost_usd": 0, "duration_ms": 123, "total_tokens": 844 }
  *     }
  *   }
  * }
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { summarizeAuditTrail } from '@brandpack/core/audit';
+import { getAuditStore } from '@/src/lib/audit-store';
 
 export async function GET(
   request: NextRequest,
@@ -48,17 +48,18 @@ export async function GET(
       );
     }
 
-    // TODO: Query Supabase for audit logs
-    // For now, return a mock structure
-    
+    const entries = await getAuditStore().listByRun(run_id);
+
+    if (entries.length === 0) {
+      return NextResponse.json(
+        { error: `No audit trail found for run ${run_id}` },
+        { status: 404 }
+      );
+    }
+
     return NextResponse.json({
       data: {
-        run: {
-          run_id,
-          status: 'not_implemented',
-          message: 'Audit trail storage not yet implemented',
-          stages: [],
-        }
+        run: summarizeAuditTrail(run_id, entries),
       }
     });
 
@@ -72,4 +73,3 @@ export async function GET(
     );
   }
 }
-
@@ -1,12 +1,16 @@
 /**
  * GET /api/config - Load current prompts.json configuration
  * POST /api/config - Save updated prompts.json configuration
+ *
+ * POST validates the whole config first, including every user template
+ * against its declared variables, and returns 400 with the problems
+ * instead of saving a config the tasks can't render.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs, accessSync } from 'node:fs';
 import path from 'node:path';
-import { clearConfigCache } from '@brandpack/core/config';
+import { clearConfigCache, validateConfig } from '@brandpack/core/config';
 
 // Find workspace root
 function findWorkspaceRoot(): string {
@@ -60,6 +64,19 @@ export async function POST(request: NextRequest) {
     // Add updated_at timestamp
     body.updated_at = new Date().toISOString();
 
+    const validation = validateConfig(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          error: `Invalid configuration: ${validation.errors
+            .map((err) => `${err.path}: ${err.message}`)
+            .join('; ')}`,
+          issues: validation.errors,
+        },
+        { status: 400 }
+      );
+    }
+
     // Write to file with pretty formatting
     await fs.writeFile(
       CONFIG_PATH,
@@ -7,7 +7,10 @@
  * {
  *   "kernel": { ... },
  *   "idea": { ... },
- *   "run_id": "optional-run-id"
+ *   "run_id": "optional-run-id",
+ *   "repair": true,  // optional: retry failed validation with the errors as feedback
+ *   "preset": "fast",  // optional: config preset the length limits are read from
+ *   "overrides": { "validation": { "length": { ... } } }  // optional: per-run config overrides
  * }
  * 
  * Response:
@@ -17,6 +20,13 @@
  *   "validation": { ... },
  *   "audit": { ... }
  * }
+ *
+ * Block lengths are checked against validation.length from the effective
+ * config (prompts.json, then the preset, then the overrides). Returns 400
+ * for an unknown preset or overrides that leave the config invalid.
+ *
+ * Returns 402 with code BUDGET_EXCEEDED when the call would exceed the
+ * run, stage or call budget from prompts.json.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -26,13 +36,21 @@ import {
   validateTaskOutput,
   type KernelPayload,
 } from '@brandpack/core';
-import { loadPromptsConfig } from '@brandpack/core/config';
+import {
+  getEffectiveConfig,
+  loadPromptsConfig,
+  validateConfig,
+  type PartialConfig,
+} from '@brandpack/core/config';
 import { routeSpec } from '@brandpack/adapters';
+import { getAuditStore } from '@/src/lib/audit-store';
+import { budgetExceededResponse, getBudgetOptions } from '@/src/lib/budget';
+import { getLLMCache, withLLMCache } from '@/src/lib/llm-cache';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { kernel, idea, run_id } = body;
+    const { kernel, idea, run_id, repair, preset, overrides } = body;
 
     if (!kernel || typeof kernel !== 'object') {
       return NextResponse.json(
@@ -48,6 +66,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (preset !== undefined && typeof preset !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'preset must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (overrides !== undefined && (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides))) {
+      return NextResponse.json(
+        { success: false, error: 'overrides must be an object' },
+        { status: 400 }
+      );
+    }
+
+    // Resolve length limits from the effective config
+    const effective = await getEffectiveConfig('copy.generate', {
+      preset,
+      overrides: overrides as PartialConfig | undefined,
+    });
+    if (preset && !effective.merged.presets[preset]) {
+      return NextResponse.json(
+        { success: false, error: `Unknown preset "${preset}"` },
+        { status: 400 }
+      );
+    }
+    const effectiveCheck = validateConfig(effective.merged);
+    if (!effectiveCheck.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid overrides: ${effectiveCheck.errors
+            .map((err) => `${err.path}: ${err.message}`)
+            .join('; ')}`,
+        },
+        { status: 400 }
+      );
+    }
+    const length = effective.merged.validation.length;
+
     // Load config
     const config = await loadPromptsConfig();
 
@@ -63,10 +120,26 @@ export async function POST(request: NextRequest) {
     const result = await runTask(
       spec,
       config,
-      async (spec, provider) => routeSpec(spec, provider),
-      (taskId, outputs, config) => validateTaskOutput(taskId, outputs, config)
+      withLLMCache(
+        async (spec, provider, fallbacks, signal) => routeSpec(spec, [provider, ...fallbacks], signal),
+        config
+      ),
+      (taskId, outputs, config) =>
+        validateTaskOutput(taskId, outputs, config, { kernel: kernel as KernelPayload, length }),
+      {
+        runId: run_id,
+        auditStore: getAuditStore(),
+        cache: getLLMCache(),
+        budget: getBudgetOptions(),
+        repair: { enabled: repair === true },
+      }
     );
 
+    const budgetResponse = budgetExceededResponse(result);
+    if (budgetResponse) {
+      return budgetResponse;
+    }
+
     if (!result.success) {
       return NextResponse.json(
         {
@@ -6,7 +6,8 @@
  * Request body:
  * {
  *   "kernel": { ... },
- *   "run_id": "optional-run-id"
+ *   "run_id": "optional-run-id",
+ *   "repair": true  // optional: retry failed validation with the errors as feedback
  * }
  * 
  * Response:
@@ -16,6 +17,9 @@
  *   "validation": { ... },
  *   "audit": { ... }
  * }
+ *
+ * Returns 402 with code BUDGET_EXCEEDED when the call would exceed the
+ * run, stage or call budget from prompts.json.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -27,11 +31,14 @@ import {
 } from '@brandpack/core';
 import { loadPromptsConfig } from '@brandpack/core/config';
 import { routeSpec } from '@brandpack/adapters';
+import { getAuditStore } from '@/src/lib/audit-store';
+import { budgetExceededResponse, getBudgetOptions } from '@/src/lib/budget';
+import { getLLMCache, withLLMCache } from '@/src/lib/llm-cache';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { kernel, run_id } = body;
+    const { kernel, run_id, repair } = body;
 
     if (!kernel || typeof kernel !== 'object') {
       return NextResponse.json(
@@ -54,10 +61,26 @@ export async function POST(request: NextRequest) {
     const result = await runTask(
       spec,
       config,
-      async (spec, provider) => routeSpec(spec, provider),
-      (taskId, outputs, config) => validateTaskOutput(taskId, outputs, config)
+      withLLMCache(
+        async (spec, provider, fallbacks, signal) => routeSpec(spec, [provider, ...fallbacks], signal),
+        config
+      ),
+      (taskId, outputs, config) =>
+        validateTaskOutput(taskId, outputs, config, { kernel: kernel as KernelPayload }),
+      {
+        runId: run_id,
+        auditStore: getAuditStore(),
+        cache: getLLMCache(),
+        budget: getBudgetOptions(),
+        repair: { enabled: repair === true },
+      }
     );
 
+    const budgetResponse = budgetExceededResponse(result);
+    if (budgetResponse) {
+      return budgetResponse;
+    }
+
     if (!result.success) {
       return NextResponse.json(
         {
@@ -14,6 +14,7 @@
  *     "copy_overlay_guidance": "...",
  *     "evidence_keys": [...]
  *   },
+ *   "style_modifiers": ["brand colour palette #1a73e8"],  // optional, from /api/image/brief
  *   "run_id": "optional-run-id"
  * }
  * 
@@ -44,7 +45,7 @@ import type { ImageBrief, ImageConfig } from '@brandpack/core';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { brief, run_id } = body;
+    const { brief, run_id, style_modifiers } = body;
 
     if (!brief || typeof brief !== 'object') {
       return NextResponse.json(
@@ -61,6 +62,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (
+      style_modifiers !== undefined &&
+      (!Array.isArray(style_modifiers) || !style_modifiers.every((modifier) => typeof modifier === 'string'))
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'style_modifiers must be an array of strings' },
+        { status: 400 }
+      );
+    }
+
     // Build image config from brief
     const imageConfig: ImageConfig = {
       provider: 'noop-image', // TODO: Make this configurable
@@ -69,6 +80,7 @@ export async function POST(request: NextRequest) {
       aspect_ratio: brief.aspect_ratio,
       format: 'png',
       quality: 90,
+      style_modifiers,
     };
 
     // Build image brief for adapter
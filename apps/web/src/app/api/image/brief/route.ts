@@ -22,9 +22,16 @@
  *     "copy_overlay_guidance": "...",
  *     "evidence_keys": [...]
  *   },
+ *   "style_modifiers": ["brand colour palette #1a73e8, #ff6d00", ...],
  *   "validation": { ... },
  *   "audit": { ... }
  * }
+ *
+ * style_modifiers come from kernel.visual_identity (palette and fonts) and
+ * can be passed straight to /api/image/asset.
+ *
+ * Returns 402 with code BUDGET_EXCEEDED when the call would exceed the
+ * run, stage or call budget from prompts.json.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -32,10 +39,14 @@ import {
   buildImageBriefSpec,
   runTask,
   validateTaskOutput,
+  visualStyleModifiers,
   type KernelPayload,
 } from '@brandpack/core';
 import { loadPromptsConfig } from '@brandpack/core/config';
 import { routeSpec } from '@brandpack/adapters';
+import { getAuditStore } from '@/src/lib/audit-store';
+import { budgetExceededResponse, getBudgetOptions } from '@/src/lib/budget';
+import { getLLMCache, withLLMCache } from '@/src/lib/llm-cache';
 
 export async function POST(request: NextRequest) {
   try {
@@ -71,10 +82,20 @@ export async function POST(request: NextRequest) {
     const result = await runTask(
       spec,
       config,
-      async (spec, provider) => routeSpec(spec, provider),
-      (taskId, outputs, config) => validateTaskOutput(taskId, outputs, config)
+      withLLMCache(
+        async (spec, provider, fallbacks, signal) => routeSpec(spec, [provider, ...fallbacks], signal),
+        config
+      ),
+      (taskId, outputs, config) =>
+        validateTaskOutput(taskId, outputs, config, { kernel: kernel as KernelPayload }),
+      { runId: run_id, auditStore: getAuditStore(), cache: getLLMCache(), budget: getBudgetOptions() }
     );
 
+    const budgetResponse = budgetExceededResponse(result);
+    if (budgetResponse) {
+      return budgetResponse;
+    }
+
     if (!result.success) {
       return NextResponse.json(
         {
@@ -90,6 +111,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       brief: result.outputs[0],
+      style_modifiers: visualStyleModifiers((kernel as KernelPayload).visual_identity),
       validation: result.validation,
       audit: result.audit,
     });
@@ -0,0 +1,190 @@
+/**
+ * POST /api/ingest
+ *
+ * Builds a brand kernel from pasted copy and uploaded files instead of a
+ * crawl (pre-launch brands, sites behind a login)
+ *
+ * Request body (JSON):
+ * {
+ *   "domain": "example.com",
+ *   "documents": [
+ *     { "name": "about", "kind": "text", "text": "# About us\n..." },
+ *     { "name": "products.csv", "text": "name,price\n..." },
+ *     { "name": "guidelines.pdf", "data_base64": "JVBERi0..." }
+ *   ]
+ * }
+ *
+ * or multipart/form-data with a `domain` field, optional `text` fields
+ * (pasted copy) and `files` (CSV, PDF, DOCX, TXT, MD).
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "kernel": { ... },
+ *   "ingest_metadata": { "documents": [...], "warnings": [...] }
+ * }
+ *
+ * Document kinds are detected from the file name or MIME type when `kind`
+ * is omitted. Citations point at `manual:<name>#section`,
+ * `upload:<name>` or `upload:<name>#page=N` for PDFs. Unsupported,
+ * oversized or unreadable documents return 400 with the IngestError code.
+ * calls["scrape.review_summarize"].runtime.crawl.allow_manual_input and
+ * allow_csv_import turn off document kinds (both default to true); the
+ * kernel is compressed with runtime.kernel from the same effective config.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  compressKernel,
+  compressionOptionsFromGuard,
+  ingestDocuments,
+  ingestOptionsFromGuard,
+  IngestError,
+  type IngestDocument,
+  type IngestKind,
+} from '@brandpack/core';
+import { getEffectiveConfig } from '@brandpack/core/config';
+
+const MAX_DOCUMENTS = 20;
+const INGEST_KINDS: IngestKind[] = ['text', 'csv', 'pdf', 'docx'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const contentType = request.headers.get('content-type') ?? '';
+    const parsed = contentType.includes('multipart/form-data')
+      ? await readForm(request)
+      : readJson(await request.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const { domain, documents } = parsed;
+    if (documents.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'documents must contain at least one document' },
+        { status: 400 }
+      );
+    }
+    if (documents.length > MAX_DOCUMENTS) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_DOCUMENTS} documents per request` },
+        { status: 400 }
+      );
+    }
+
+    const effective = await getEffectiveConfig('scrape.review_summarize');
+    const ingested = ingestDocuments(documents, ingestOptionsFromGuard(effective.call.runtime.crawl));
+    const kernelGuard = effective.call.runtime.kernel;
+    const kernel = compressKernel({
+      domain,
+      sources: ingested.sources,
+    }, kernelGuard ? compressionOptionsFromGuard(kernelGuard) : {});
+
+    return NextResponse.json({
+      success: true,
+      kernel,
+      ingest_metadata: {
+        documents: ingested.documents,
+        warnings: ingested.warnings,
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof IngestError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+          document: error.document,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('[/api/ingest] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+type ParsedRequest =
+  | { domain: string; documents: IngestDocument[] }
+  | { error: string };
+
+function readJson(body: unknown): ParsedRequest {
+  const { domain, documents } = (body ?? {}) as { domain?: unknown; documents?: unknown };
+  const hostname = normalizeDomain(domain);
+  if (!hostname) {
+    return { error: 'domain is required and must be a hostname or URL' };
+  }
+  if (!Array.isArray(documents)) {
+    return { error: 'documents must be an array' };
+  }
+
+  const parsed: IngestDocument[] = [];
+  for (const [index, entry] of documents.entries()) {
+    const { name, kind, text, data_base64, mime_type } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim()) {
+      return { error: `documents[${index}].name is required` };
+    }
+    if (kind !== undefined && !INGEST_KINDS.includes(kind as IngestKind)) {
+      return { error: `documents[${index}].kind must be one of ${INGEST_KINDS.join(', ')}` };
+    }
+    if (typeof text !== 'string' && typeof data_base64 !== 'string') {
+      return { error: `documents[${index}] needs text or data_base64` };
+    }
+    parsed.push({
+      name,
+      kind: kind as IngestKind | undefined,
+      mime_type: typeof mime_type === 'string' ? mime_type : undefined,
+      data: typeof text === 'string' ? text : Buffer.from(data_base64 as string, 'base64'),
+    });
+  }
+
+  return { domain: hostname, documents: parsed };
+}
+
+async function readForm(request: NextRequest): Promise<ParsedRequest> {
+  const form = await request.formData();
+  const hostname = normalizeDomain(form.get('domain'));
+  if (!hostname) {
+    return { error: 'domain is required and must be a hostname or URL' };
+  }
+
+  const documents: IngestDocument[] = [];
+  form.getAll('text').forEach((value, index) => {
+    if (typeof value === 'string' && value.trim()) {
+      documents.push({ name: `pasted-${index + 1}`, kind: 'text', data: value });
+    }
+  });
+  for (const value of form.getAll('files')) {
+    if (typeof value === 'string') continue;
+    documents.push({
+      name: value.name,
+      mime_type: value.type || undefined,
+      data: new Uint8Array(await value.arrayBuffer()),
+    });
+  }
+
+  return { domain: hostname, documents };
+}
+
+function normalizeDomain(domain: unknown): string | null {
+  if (typeof domain !== 'string' || !domain.trim()) return null;
+  const url = domain.startsWith('http') ? domain : `https://${domain}`;
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
@@ -23,6 +23,9 @@
  *   "validation": { ... },
  *   "audit": { ... }
  * }
+ *
+ * Returns 402 with code BUDGET_EXCEEDED when the call would exceed the
+ * run, stage or call budget from prompts.json.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -34,6 +37,9 @@ import {
 } from '@brandpack/core';
 import { loadPromptsConfig } from '@brandpack/core/config';
 import { routeSpec } from '@brandpack/adapters';
+import { getAuditStore } from '@/src/lib/audit-store';
+import { budgetExceededResponse, getBudgetOptions } from '@/src/lib/budget';
+import { getLLMCache, withLLMCache } from '@/src/lib/llm-cache';
 
 export async function POST(request: NextRequest) {
   try {
@@ -65,10 +71,19 @@ export async function POST(request: NextRequest) {
     const result = await runTask(
       spec,
       config,
-      async (spec, provider) => routeSpec(spec, provider),
-      (taskId, outputs, config) => validateTaskOutput(taskId, outputs, config)
+      withLLMCache(
+        async (spec, provider, fallbacks, signal) => routeSpec(spec, [provider, ...fallbacks], signal),
+        config
+      ),
+      (taskId, outputs, config) => validateTaskOutput(taskId, outputs, config),
+      { runId: run_id, auditStore: getAuditStore(), cache: getLLMCache(), budget: getBudgetOptions() }
     );
 
+    const budgetResponse = budgetExceededResponse(result);
+    if (budgetResponse) {
+      return budgetResponse;
+    }
+
     if (!result.success) {
       return NextResponse.json(
         {
@@ -0,0 +1,65 @@
+/**
+ * GET /api/runs/:id
+ *
+ * Returns a run and the artifacts its finished stages produced
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "run": {
+ *     "id": "5f0c...",
+ *     "stage": "copy",
+ *     "status": "in_progress",
+ *     "total_cost_usd": 0.0123,
+ *     "total_duration_ms": 8421,
+ *     ...
+ *   },
+ *   "artifacts": [
+ *     { "id": "...", "type": "kernel", "content": { ... }, "metadata": { "stage": "scrape" }, ... },
+ *     { "id": "...", "type": "idea", "ranking_score": 72, "metadata": { "stage": "ideas", "rank": 1, ... }, ... }
+ *   ]
+ * }
+ *
+ * Artifacts are listed in the order they were produced; pass ?type=idea to
+ * list a single artifact type.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRunRepository } from '@/src/lib/runs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const repository = getRunRepository();
+
+    const run = await repository.getRun(id);
+    if (!run) {
+      return NextResponse.json(
+        { success: false, error: `Run ${id} not found` },
+        { status: 404 }
+      );
+    }
+
+    const type = request.nextUrl.searchParams.get('type');
+    const artifacts = await repository.listArtifacts(id);
+
+    return NextResponse.json({
+      success: true,
+      run,
+      artifacts: type ? artifacts.filter((artifact) => artifact.type === type) : artifacts,
+    });
+
+  } catch (error) {
+    console.error('[/api/runs] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
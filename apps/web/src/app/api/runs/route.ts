@@ -0,0 +1,107 @@
+/**
+ * POST /api/runs
+ *
+ * Starts a server-side run: scrape → review → audience → ideas → copy →
+ * image_brief → image_render → export
+ *
+ * Request body:
+ * {
+ *   "domain": "example.com",
+ *   "user_id": "optional-user-id",  // defaults to "local"
+ *   "wait": false  // optional: respond once the run has finished
+ * }
+ *
+ * Response (202, or 200 with wait):
+ * {
+ *   "success": true,
+ *   "run": {
+ *     "id": "5f0c...",
+ *     "domain": "example.com",
+ *     "stage": "scrape",
+ *     "status": "in_progress",
+ *     "total_cost_usd": 0,
+ *     "total_duration_ms": 0,
+ *     ...
+ *   }
+ * }
+ *
+ * The run is persisted after every stage together with that stage's
+ * artifacts; poll GET /api/runs/:id for progress. Every LLM call is
+ * audited and budgeted under the run ID, so GET /api/audit/:run_id works
+ * for the same run. A failed stage leaves the run at stage "failed" with
+ * the stage and reason in error_message.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRun, runPipeline } from '@brandpack/core';
+import { loadPromptsConfig } from '@brandpack/core/config';
+import { getBudgetLedger } from '@/src/lib/budget';
+import { buildStageHandlers } from '@/src/lib/pipeline';
+import { getRunRepository } from '@/src/lib/runs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { domain, user_id, wait } = body;
+
+    if (!domain || typeof domain !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'domain is required and must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (user_id !== undefined && (typeof user_id !== 'string' || !user_id)) {
+      return NextResponse.json(
+        { success: false, error: 'user_id must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    let hostname: string;
+    try {
+      hostname = new URL(domain.startsWith('http') ? domain : `https://${domain}`).hostname;
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'domain is not a valid hostname or URL' },
+        { status: 400 }
+      );
+    }
+
+    // The run keeps the config it was started with
+    const config = await loadPromptsConfig();
+    const run = createRun({
+      domain: hostname,
+      user_id: user_id ?? 'local',
+      config_snapshot: config as unknown as Record<string, unknown>,
+    });
+
+    const repository = getRunRepository();
+    await repository.saveRun(run);
+
+    // Spend is kept on the run itself; the ledger only tracks runs in flight
+    const pipeline = runPipeline(run, buildStageHandlers(), repository).finally(() => {
+      getBudgetLedger().reset(run.id);
+    });
+
+    if (wait === true) {
+      return NextResponse.json({ success: true, run: await pipeline });
+    }
+
+    pipeline.catch((error) => {
+      console.error(`[/api/runs] Run ${run.id} stopped:`, error);
+    });
+
+    return NextResponse.json({ success: true, run }, { status: 202 });
+
+  } catch (error) {
+    console.error('[/api/runs] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import type { CrawlResult } from '@brandpack/core';
+import { getEffectiveConfig } from '@brandpack/core/config';
+
+const crawlSite = vi.hoisted(() => vi.fn());
+
+vi.mock('@brandpack/core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@brandpack/core')>()),
+  crawlSite,
+}));
+
+import { POST } from './route';
+
+const emptyCrawl: CrawlResult = {
+  origin: 'https://example.com',
+  pages: [],
+  totalBytes: 0,
+  totalDurationMs: 1,
+  sitemapUsed: false,
+  sitemaps: [],
+  earlyStopTriggered: false,
+  limitReached: false,
+  contentHash: '',
+  skipped: [],
+  blocked: [],
+};
+
+const scrape = (body: Record<string, unknown>) =>
+  POST(
+    new NextRequest('http://localhost/api/scrape', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    })
+  );
+
+describe('POST /api/scrape', () => {
+  beforeEach(() => {
+    crawlSite.mockReset();
+    crawlSite.mockResolvedValue(emptyCrawl);
+  });
+
+  it('passes the configured priority pages to the crawler', async () => {
+    const effective = await getEffectiveConfig('scrape.review_summarize');
+    const priorityPages = effective.call.runtime.crawl?.priority_pages;
+
+    const response = await scrape({ domain: 'example.com', refresh: true });
+
+    expect(response.status).toBe(422);
+    expect(priorityPages).toContain('/pricing');
+    expect(crawlSite).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://example.com', priorityPages })
+    );
+  });
+
+  it('keeps the priority pages when a preset only changes the crawl limits', async () => {
+    const effective = await getEffectiveConfig('scrape.review_summarize', { preset: 'fast' });
+
+    await scrape({ domain: 'example.com', preset: 'fast', refresh: true });
+
+    expect(crawlSite).toHaveBeenCalledWith(
+      expect.objectContaining({ priorityPages: effective.call.runtime.crawl?.priority_pages })
+    );
+    expect(crawlSite.mock.calls[0][0].limits.maxPages).toBe(effective.call.runtime.crawl?.max_pages);
+  });
+});
@@ -5,7 +5,9 @@
  * 
  * Request body:
  * {
- *   "domain": "example.com"
+ *   "domain": "example.com",
+ *   "preset": "fast",  // optional: crawl limits from a config preset
+ *   "refresh": false  // optional: ignore the previous crawl snapshot
  * }
  * 
  * Response:
@@ -14,15 +16,47 @@
  *   "kernel": { ... },
  *   "scrape_metadata": { ... }
  * }
+ *
+ * Crawl limits come from calls["scrape.review_summarize"].runtime.crawl in
+ * the effective config (prompts.json plus the optional preset), and the
+ * kernel's size and compression strategy from runtime.kernel.
+ *
+ * Re-scrapes send If-None-Match / If-Modified-Since from the previous crawl
+ * of the domain. When the aggregate content hash and compression settings
+ * are unchanged, the stored kernel is returned without recompressing
+ * (scrape_metadata.kernel_reused).
+ *
+ * Pages are crawled in priority order (homepage, pricing, products, about,
+ * customer stories, with runtime.crawl.priority_pages ranked ahead) and
+ * scrape_metadata.pages lists each page's content_type.
+ *
+ * Only http/https targets that resolve to public addresses are crawled,
+ * re-checked on every redirect; a blocked domain returns 400 with the
+ * block reason as `code`, and blocked sub-pages are listed in
+ * scrape_metadata.blocked.
+ *
+ * Logo candidates, colours and fonts from the pages (and the homepage's
+ * linked stylesheets) land in kernel.visual_identity.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { crawlSite, compressKernel } from '@brandpack/core';
+import {
+  crawlSite,
+  compressKernel,
+  compressionOptionsFromGuard,
+  crawlLimitsFromGuard,
+  DEFAULT_REDIRECT_POLICY,
+  resolveCompressionOptions,
+  type CompressionOptions,
+  type KernelPayload,
+} from '@brandpack/core';
+import { getEffectiveConfig } from '@brandpack/core/config';
+import { getCrawlSnapshotStore } from '@/src/lib/scrape-snapshots';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { domain } = body;
+    const { domain, preset, refresh } = body;
 
     if (!domain || typeof domain !== 'string') {
       return NextResponse.json(
@@ -31,22 +65,84 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (preset !== undefined && typeof preset !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'preset must be a string' },
+        { status: 400 }
+      );
+    }
+
+    // Resolve crawl limits from the effective config
+    const effective = await getEffectiveConfig('scrape.review_summarize', { preset });
+    if (preset && !effective.merged.presets[preset]) {
+      return NextResponse.json(
+        { success: false, error: `Unknown preset "${preset}"` },
+        { status: 400 }
+      );
+    }
+    const crawlGuard = effective.call.runtime.crawl;
+    const limits = crawlGuard ? crawlLimitsFromGuard(crawlGuard) : undefined;
+    const redirects = {
+      follow: crawlGuard?.follow_redirects ?? DEFAULT_REDIRECT_POLICY.follow,
+      max: crawlGuard?.max_redirects ?? DEFAULT_REDIRECT_POLICY.max,
+    };
+    const kernelGuard = effective.call.runtime.kernel;
+    const compression = resolveCompressionOptions(
+      kernelGuard ? compressionOptionsFromGuard(kernelGuard) : {}
+    );
+
     // Normalize domain to full URL
     const url = domain.startsWith('http') ? domain : `https://${domain}`;
 
-    // Crawl the site
-    const crawlResult = await crawlSite({ url });
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname;
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'domain is not a valid hostname or URL' },
+        { status: 400 }
+      );
+    }
+
+    // Crawl the site, conditionally against the previous snapshot
+    const snapshots = getCrawlSnapshotStore();
+    const previous = refresh === true ? null : await snapshots.get(hostname);
+    const crawlResult = await crawlSite({
+      url,
+      previous: previous ?? undefined,
+      limits,
+      redirects,
+      priorityPages: crawlGuard?.priority_pages,
+    });
+
+    // Refuse private, loopback and metadata targets outright
+    const [startBlocked] = crawlResult.blocked;
+    if (crawlResult.pages.length === 0 && startBlocked) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `URL not allowed: ${startBlocked.message}`,
+          code: startBlocked.reason,
+        },
+        { status: 400 }
+      );
+    }
 
     // Check if we got any content
     if (crawlResult.pages.length === 0) {
       return NextResponse.json(
         {
           success: false,
-          error: 'No pages could be crawled',
+          error:
+            crawlResult.skipped.length > 0
+              ? 'No pages could be crawled: robots.txt disallows this site for our crawler'
+              : 'No pages could be crawled',
           scrape_metadata: {
             pages_crawled: 0,
             total_bytes: 0,
             duration_ms: crawlResult.totalDurationMs,
+            skipped: crawlResult.skipped,
+            blocked: crawlResult.blocked,
           },
         },
         { status: 422 }
@@ -59,6 +155,13 @@ export async function POST(request: NextRequest) {
       .map(page => ({
         url: page.url,
         content: page.content,
+        content_type: page.contentType,
+        title: page.metadata?.title,
+        meta_description: page.metadata?.metaDescription,
+        h1: page.metadata?.h1,
+        structured_data: page.metadata?.structuredData,
+        blocks: page.blocks,
+        visual: page.visual,
       }));
 
     if (sources.length === 0) {
@@ -76,10 +179,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Compress into kernel
-    const kernel = compressKernel({
-      domain: new URL(url).hostname,
+    // Compress into kernel unless nothing changed since the last crawl
+    const reusable =
+      previous?.kernel &&
+      previous.content_hash === crawlResult.contentHash &&
+      sameCompression(previous.kernel, compression)
+        ? previous.kernel
+        : undefined;
+    const kernel = reusable ?? compressKernel({
+      domain: hostname,
       sources,
+    }, compression);
+    const kernelReused = reusable !== undefined;
+
+    const now = new Date().toISOString();
+    await snapshots.put({
+      domain: hostname,
+      content_hash: crawlResult.contentHash,
+      pages: crawlResult.pages,
+      kernel,
+      created_at: previous?.created_at ?? now,
+      updated_at: now,
     });
 
     return NextResponse.json({
@@ -90,8 +210,21 @@ export async function POST(request: NextRequest) {
         total_bytes: crawlResult.totalBytes,
         duration_ms: crawlResult.totalDurationMs,
         sitemap_used: crawlResult.sitemapUsed,
+        sitemaps: crawlResult.sitemaps,
         limit_reached: crawlResult.limitReached,
         early_stop_triggered: crawlResult.earlyStopTriggered,
+        preset: preset ?? null,
+        limits: limits ?? null,
+        content_hash: crawlResult.contentHash,
+        kernel_reused: kernelReused,
+        changes: crawlResult.changes,
+        skipped: crawlResult.skipped,
+        blocked: crawlResult.blocked,
+        pages: crawlResult.pages.map(page => ({
+          url: page.url,
+          status: page.status,
+          content_type: page.contentType ?? 'other',
+        })),
       },
     });
 
@@ -107,3 +240,15 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Kernels stored before compression settings were recorded count as the
+ * defaults
+ */
+function sameCompression(kernel: KernelPayload, options: CompressionOptions): boolean {
+  const previous = kernel.compression ?? resolveCompressionOptions();
+  return (
+    previous.strategy === options.strategy &&
+    previous.max_kb === options.max_kb &&
+    previous.include_citations === options.include_citations
+  );
+}
@@ -4,7 +4,7 @@
  * Allows editing:
  * - Prompts for each task (system, user_template)
  * - Model settings (provider, name, temperature, max_tokens)
- * - Validation rules (banned phrases)
+ * - Validation rules (banned phrases, copy length limits per slot)
  * - Runtime settings (timeouts, retries, cost limits)
  */
 
@@ -12,9 +12,12 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
+import type { LengthUnit } from '@brandpack/core';
 
 type Provider = 'anthropic' | 'openai' | 'noop-llm';
 
+const COPY_SLOTS = ['hook', 'context', 'proof', 'objection', 'cta'];
+
 interface TaskConfig {
   model: {
     provider: Provider;
@@ -42,9 +45,28 @@ interface PromptsConfig {
   };
   validation?: {
     banned_phrases?: string[];
+    length?: LengthLimits;
+  };
+}
+
+interface LengthLimits {
+  min_chars?: number;
+  max_chars?: number;
+  unit?: LengthUnit;
+  per_slot?: {
+    [slot: string]: { min: number; max: number; unit?: LengthUnit };
   };
 }
 
+/**
+ * An emptied number field clears the limit rather than storing NaN, which
+ * would be saved as null
+ */
+function parseLimit(value: string): number | undefined {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
 interface TraceEntry {
   timestamp: string;
   task_id: string;
@@ -143,7 +165,8 @@ export default function ControlCenter() {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to save config');
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error ?? 'Failed to save config');
       }
 
       setMessage({ type: 'success', text: 'Configuration saved successfully!' });
@@ -192,6 +215,31 @@ export default function ControlCenter() {
     });
   };
 
+  const lengthLimits: LengthLimits = config.validation?.length ?? { min_chars: 0, max_chars: 1000 };
+
+  const updateLength = (updates: Partial<LengthLimits>) => {
+    setConfig({
+      ...config,
+      validation: {
+        ...config.validation,
+        length: { ...lengthLimits, ...updates },
+      }
+    });
+  };
+
+  const updateSlotLength = (slot: string, bound: 'min' | 'max', value: number | undefined) => {
+    const { [slot]: current, ...otherSlots } = lengthLimits.per_slot ?? {};
+    if (value === undefined) {
+      // Clearing either bound drops the slot back to the defaults
+      updateLength({ per_slot: otherSlots });
+      return;
+    }
+    const limits = current ?? { min: lengthLimits.min_chars ?? 0, max: lengthLimits.max_chars ?? value };
+    updateLength({
+      per_slot: { ...otherSlots, [slot]: { ...limits, [bound]: value } },
+    });
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
       <div className="max-w-7xl mx-auto px-4 py-8">
@@ -475,6 +523,9 @@ export default function ControlCenter() {
                               rows={4}
                               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-mono text-xs"
                             />
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                              {'Use {kernel.tone}, {kernel.audience|default}, {#each kernel.products}{this}{/each} and {#if idea}...{else}...{/if}. Every placeholder must be a declared variable.'}
+                            </p>
                           </div>
                         </div>
                       </div>
@@ -559,6 +610,77 @@ export default function ControlCenter() {
               {config.validation?.banned_phrases?.length || 0} phrases configured
             </p>
           </div>
+
+          <div className="mt-6">
+            <h3 className="text-md font-semibold text-gray-900 dark:text-gray-100 mb-3">Copy Length Limits</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Count In
+                </label>
+                <select
+                  value={lengthLimits.unit ?? 'chars'}
+                  onChange={(e) => updateLength({ unit: e.target.value as LengthUnit })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm"
+                >
+                  <option value="chars">Characters</option>
+                  <option value="words">Words</option>
+                  <option value="graphemes">Graphemes (emoji, CJK)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Default Min
+                </label>
+                <input
+                  type="number"
+                  value={lengthLimits.min_chars ?? ''}
+                  onChange={(e) => updateLength({ min_chars: parseLimit(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Default Max
+                </label>
+                <input
+                  type="number"
+                  value={lengthLimits.max_chars ?? ''}
+                  onChange={(e) => updateLength({ max_chars: parseLimit(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              {COPY_SLOTS.map((slot) => {
+                const limits = lengthLimits.per_slot?.[slot];
+                return (
+                  <div key={slot}>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      {slot} (min / max)
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        value={limits?.min ?? lengthLimits.min_chars ?? ''}
+                        onChange={(e) => updateSlotLength(slot, 'min', parseLimit(e.target.value))}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm"
+                      />
+                      <input
+                        type="number"
+                        value={limits?.max ?? lengthLimits.max_chars ?? ''}
+                        onChange={(e) => updateSlotLength(slot, 'max', parseLimit(e.target.value))}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm"
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+              Presets and per-run overrides can replace these limits for a single run
+            </p>
+          </div>
         </div>
 
         {/* Actions */}
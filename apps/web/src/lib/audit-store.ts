@@ -0,0 +1,21 @@
+/**
+ * Shared audit store for API routes
+ *
+ * Defaults to JSON-lines files under <workspace>/data/audit so audit trails
+ * survive restarts without a database. Set BRANDPACK_AUDIT_DIR to relocate.
+ */
+
+import path from 'node:path';
+import { JsonFileAuditStore, type AuditStore } from '@brandpack/core/audit';
+import { findWorkspaceRoot } from '@brandpack/core/config';
+
+let store: AuditStore | null = null;
+
+export function getAuditStore(): AuditStore {
+  if (!store) {
+    const directory =
+      process.env.BRANDPACK_AUDIT_DIR ?? path.join(findWorkspaceRoot(), 'data', 'audit');
+    store = new JsonFileAuditStore({ directory });
+  }
+  return store;
+}
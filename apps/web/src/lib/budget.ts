@@ -0,0 +1,61 @@
+/**
+ * Shared budget ledger for API routes
+ *
+ * Tracks spend per run ID in memory so every stage of a run is checked
+ * against the budgets block in prompts.json. Alert events are logged.
+ * Pipeline runs are dropped from the ledger when they finish; calls that
+ * arrive without a run_id get a one-off ID, so the ledger keeps only the
+ * most recently active runs.
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  AdapterErrorCode,
+  BudgetLedger,
+  type RunTaskOptions,
+  type TaskResult,
+} from '@brandpack/core';
+import { estimateSpecCost } from '@brandpack/adapters';
+
+let ledger: BudgetLedger | null = null;
+
+export function getBudgetLedger(): BudgetLedger {
+  if (!ledger) {
+    ledger = new BudgetLedger({
+      onAlert: (event) => {
+        console.warn(
+          `[budget] Run ${event.run_id} has spent $${event.spent_usd.toFixed(4)} ` +
+            `(alert threshold $${event.threshold_usd.toFixed(2)}, limit $${event.max_cost_per_run.toFixed(2)})`
+        );
+      },
+    });
+  }
+  return ledger;
+}
+
+/**
+ * runTask budget option wired to the shared ledger and adapter pricing
+ */
+export function getBudgetOptions(): NonNullable<RunTaskOptions['budget']> {
+  return { ledger: getBudgetLedger(), estimateCost: estimateSpecCost };
+}
+
+/**
+ * 402 response for calls refused by the ledger, or null for other failures
+ */
+export function budgetExceededResponse(result: TaskResult): NextResponse | null {
+  if (result.error?.code !== AdapterErrorCode.BUDGET_EXCEEDED) {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: result.error.message,
+      code: AdapterErrorCode.BUDGET_EXCEEDED,
+      budget: result.audit.run_id ? getBudgetLedger().getUsage(result.audit.run_id) : undefined,
+      audit: result.audit,
+    },
+    { status: 402 }
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * Shared LLM response cache for API routes
+ *
+ * Honours global.cache_enabled and global.cache_ttl_seconds.llm from
+ * prompts.json. Entries live under <workspace>/data/cache/llm so prompt
+ * iteration across restarts does not re-bill identical requests. Set
+ * BRANDPACK_CACHE_DIR to relocate.
+ */
+
+import path from 'node:path';
+import {
+  FileLLMCache,
+  withCache,
+  type LLMCache,
+  type PromptsConfig,
+  type TaskExecutor,
+} from '@brandpack/core';
+import { findWorkspaceRoot } from '@brandpack/core/config';
+
+let cache: LLMCache | null = null;
+
+export function getLLMCache(): LLMCache {
+  if (!cache) {
+    const directory =
+      process.env.BRANDPACK_CACHE_DIR ?? path.join(findWorkspaceRoot(), 'data', 'cache', 'llm');
+    cache = new FileLLMCache({ directory });
+  }
+  return cache;
+}
+
+export function withLLMCache(executor: TaskExecutor, config: PromptsConfig): TaskExecutor {
+  return withCache(executor, getLLMCache(), {
+    enabled: config.global.cache_enabled,
+    ttlSeconds: config.global.cache_ttl_seconds?.llm ?? 0,
+    config,
+  });
+}
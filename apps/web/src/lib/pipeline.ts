@@ -0,0 +1,320 @@
+/**
+ * Stage handlers for server-side runs
+ *
+ * Performs the same work as the per-step API routes: crawl and compress,
+ * then the review, ideas, copy and image brief calls through the shared
+ * audit store, budget ledger and LLM cache (keyed by the run ID), then the
+ * image render and an export manifest. Copy and the image brief are
+ * written for the highest-ranked idea. Every stage reads the config the
+ * run was started with (`run.config_snapshot`), not the live config.
+ */
+
+import {
+  buildCopyGenerateSpec,
+  buildIdeasGenerateSpec,
+  buildImageBriefSpec,
+  buildScrapeReviewSpec,
+  compressKernel,
+  compressionOptionsFromGuard,
+  crawlLimitsFromGuard,
+  crawlSite,
+  DEFAULT_REDIRECT_POLICY,
+  PipelineStageError,
+  resolveCompressionOptions,
+  runTask,
+  scoreCandidates,
+  validateTaskOutput,
+  visualStyleModifiers,
+  type Artifact,
+  type ArtifactType,
+  type ImageBrief,
+  type ImageConfig,
+  type KernelPayload,
+  type LLMSpec,
+  type PromptsConfig,
+  type Run,
+  type StageHandlers,
+  type ValidationContext,
+} from '@brandpack/core';
+import { resolveEffectiveConfig, validateConfig } from '@brandpack/core/config';
+import { routeImageGeneration, routeSpec } from '@brandpack/adapters';
+import { getAuditStore } from '@/src/lib/audit-store';
+import { getBudgetOptions } from '@/src/lib/budget';
+import { getLLMCache, withLLMCache } from '@/src/lib/llm-cache';
+
+export function buildStageHandlers(): StageHandlers {
+  return {
+    scrape: async ({ run }) => {
+      const effective = effectiveConfigOf(run, 'scrape.review_summarize');
+      const crawlGuard = effective.call.runtime.crawl;
+      const kernelGuard = effective.call.runtime.kernel;
+
+      const crawlResult = await crawlSite({
+        url: `https://${run.domain}`,
+        limits: crawlGuard ? crawlLimitsFromGuard(crawlGuard) : undefined,
+        redirects: {
+          follow: crawlGuard?.follow_redirects ?? DEFAULT_REDIRECT_POLICY.follow,
+          max: crawlGuard?.max_redirects ?? DEFAULT_REDIRECT_POLICY.max,
+        },
+        priorityPages: crawlGuard?.priority_pages,
+      });
+
+      const sources = crawlResult.pages
+        .filter(page => page.status && page.status >= 200 && page.status < 400)
+        .map(page => ({
+          url: page.url,
+          content: page.content,
+          content_type: page.contentType,
+          title: page.metadata?.title,
+          meta_description: page.metadata?.metaDescription,
+          h1: page.metadata?.h1,
+          structured_data: page.metadata?.structuredData,
+          blocks: page.blocks,
+          visual: page.visual,
+        }));
+
+      if (sources.length === 0) {
+        const [blocked] = crawlResult.blocked;
+        throw new Error(
+          blocked
+            ? `URL not allowed: ${blocked.message}`
+            : `No pages could be crawled (${crawlResult.pages.length} fetched, ${crawlResult.skipped.length} skipped by robots.txt)`
+        );
+      }
+
+      const kernel = compressKernel(
+        { domain: run.domain, sources },
+        resolveCompressionOptions(kernelGuard ? compressionOptionsFromGuard(kernelGuard) : {})
+      );
+
+      return {
+        artifacts: [
+          {
+            type: 'snapshot',
+            content: {
+              content_hash: crawlResult.contentHash,
+              total_bytes: crawlResult.totalBytes,
+              duration_ms: crawlResult.totalDurationMs,
+              pages: crawlResult.pages.map(page => ({
+                url: page.url,
+                status: page.status,
+                content_type: page.contentType ?? 'other',
+              })),
+              skipped: crawlResult.skipped,
+              blocked: crawlResult.blocked,
+            },
+          },
+          { type: 'kernel', content: kernel },
+        ],
+      };
+    },
+
+    review: async ({ run, artifacts }) => {
+      const config = configOf(run);
+      const kernel = kernelOf(artifacts);
+      const result = await runLLMStage(buildScrapeReviewSpec(config, kernel, run.id), config, run.id);
+      return { artifacts: [{ type: 'review', content: result.outputs[0] }], cost_usd: result.cost_usd };
+    },
+
+    audience: async ({ artifacts }) => {
+      const review = artifacts.find(artifact => artifact.type === 'review')?.content as
+        | { target_audience?: string }
+        | undefined;
+      const kernel = kernelOf(artifacts);
+      const target_audience = review?.target_audience || kernel.audience;
+      return {
+        artifacts: [
+          {
+            type: 'audience',
+            content: { target_audience, source: review?.target_audience ? 'review' : 'kernel' },
+          },
+        ],
+      };
+    },
+
+    ideas: async ({ run, artifacts }) => {
+      const config = configOf(run);
+      const kernel = kernelOf(artifacts);
+      const result = await runLLMStage(buildIdeasGenerateSpec(config, kernel, run.id), config, run.id, { kernel });
+      const ideas = result.outputs as Array<Record<string, unknown>>;
+
+      // Rank on headline and angle so the copy stage can pick the strongest idea
+      const ranked = scoreCandidates(
+        ideas.map((idea, index) => ({
+          id: String(index),
+          text: [idea.headline, idea.angle].filter(part => typeof part === 'string').join('. '),
+        })),
+        { banned_phrases: config.validation?.banned_phrases }
+      );
+
+      return {
+        artifacts: ranked.map((candidate, rank) => ({
+          type: 'idea',
+          content: ideas[Number(candidate.id)],
+          ranking_score: candidate.score.total,
+          metadata: { rank: rank + 1, score: candidate.score },
+        })),
+        cost_usd: result.cost_usd,
+      };
+    },
+
+    copy: async ({ run, artifacts }) => {
+      const config = configOf(run);
+      const kernel = kernelOf(artifacts);
+      const idea = selectedIdea(artifacts);
+      // Same length limits as /api/copy: validation.length from the effective config
+      const length = effectiveConfigOf(run, 'copy.generate').merged.validation.length;
+      const result = await runLLMStage(
+        buildCopyGenerateSpec(config, kernel, idea.content as Record<string, unknown>, run.id),
+        config,
+        run.id,
+        { kernel, length }
+      );
+      return {
+        artifacts: [{ type: 'copy', content: result.outputs[0], metadata: { idea_id: idea.id } }],
+        cost_usd: result.cost_usd,
+      };
+    },
+
+    image_brief: async ({ run, artifacts }) => {
+      const config = configOf(run);
+      const kernel = kernelOf(artifacts);
+      const idea = selectedIdea(artifacts);
+      const result = await runLLMStage(
+        buildImageBriefSpec(config, kernel, idea.content as Record<string, unknown>, run.id),
+        config,
+        run.id,
+        { kernel }
+      );
+      return {
+        artifacts: [
+          {
+            type: 'image_brief',
+            content: result.outputs[0],
+            metadata: {
+              idea_id: idea.id,
+              style_modifiers: visualStyleModifiers(kernel.visual_identity),
+            },
+          },
+        ],
+        cost_usd: result.cost_usd,
+      };
+    },
+
+    image_render: async ({ run, artifacts }) => {
+      const briefArtifact = latest(artifacts, 'image_brief');
+      const brief = briefArtifact.content as Record<string, unknown>;
+      const aspectRatio = (brief.aspect_ratio ?? '4:5') as ImageConfig['aspect_ratio'];
+      const imageConfig: ImageConfig = {
+        provider: 'noop-image',
+        model: 'noop-image-v1',
+        resolution: aspectRatio === '4:5' ? '1024x1280' : '1024x1024',
+        aspect_ratio: aspectRatio,
+        format: 'png',
+        quality: 90,
+        style_modifiers: briefArtifact.metadata.style_modifiers as string[] | undefined,
+      };
+      const imageBrief: ImageBrief = {
+        id: run.id,
+        prompt: typeof brief.visual_direction === 'string' ? brief.visual_direction : 'Generate image based on brief',
+        style: 'professional',
+        mood: 'confident',
+        composition: typeof brief.focal_point === 'string' ? brief.focal_point : 'centered',
+        aspect_ratio: aspectRatio,
+      };
+
+      const image = await routeImageGeneration(imageBrief, imageConfig, 'noop-image');
+      return {
+        artifacts: [{ type: 'image', content: image, metadata: { brief_id: briefArtifact.id } }],
+        cost_usd: image.cost_usd,
+      };
+    },
+
+    export: async ({ run, artifacts }) => ({
+      artifacts: [
+        {
+          type: 'export',
+          content: {
+            domain: run.domain,
+            run_id: run.id,
+            exported_at: new Date().toISOString(),
+            config_version: configOf(run).version,
+            selections: {
+              kernel: latest(artifacts, 'kernel', 'scrape').id,
+              idea: selectedIdea(artifacts).id,
+              copy: latest(artifacts, 'copy').id,
+              image_brief: latest(artifacts, 'image_brief').id,
+              image: latest(artifacts, 'image').id,
+            },
+          },
+        },
+      ],
+    }),
+  };
+}
+
+/**
+ * Run one LLM task for the run; failed tasks fail the stage but keep
+ * their cost on the run
+ */
+async function runLLMStage(
+  spec: LLMSpec,
+  config: PromptsConfig,
+  runId: string,
+  context: ValidationContext = {}
+) {
+  const result = await runTask(
+    spec,
+    config,
+    withLLMCache(
+      async (spec, provider, fallbacks, signal) => routeSpec(spec, [provider, ...fallbacks], signal),
+      config
+    ),
+    (taskId, outputs, config) => validateTaskOutput(taskId, outputs, config, context),
+    { runId, auditStore: getAuditStore(), cache: getLLMCache(), budget: getBudgetOptions() }
+  );
+
+  if (!result.success) {
+    const reason = result.error?.message ?? result.validation.errors.join('; ');
+    throw new PipelineStageError(`${spec.task_id} failed: ${reason}`, result.audit.cost_usd);
+  }
+
+  return { outputs: result.outputs, cost_usd: result.audit.cost_usd };
+}
+
+function configOf(run: Run): PromptsConfig {
+  return run.config_snapshot as unknown as PromptsConfig;
+}
+
+/** Effective config for one call, resolved from the run's config snapshot */
+function effectiveConfigOf(run: Run, callId: string) {
+  const validation = validateConfig(run.config_snapshot);
+  if (!validation.valid || !validation.config) {
+    const details = validation.errors.map(err => `${err.path}: ${err.message}`).join('; ');
+    throw new Error(`Invalid configuration snapshot: ${details}`);
+  }
+  return resolveEffectiveConfig(validation.config, callId);
+}
+
+function latest(artifacts: Artifact[], type: ArtifactType, stage?: string): Artifact {
+  const found = [...artifacts]
+    .reverse()
+    .find(artifact => artifact.type === type && (!stage || artifact.metadata.stage === stage));
+  if (!found) {
+    throw new Error(`No ${type} artifact from an earlier stage`);
+  }
+  return found;
+}
+
+function kernelOf(artifacts: Artifact[]): KernelPayload {
+  return latest(artifacts, 'kernel', 'scrape').content as KernelPayload;
+}
+
+/** Ideas are persisted best first */
+function selectedIdea(artifacts: Artifact[]): Artifact {
+  const idea = artifacts.find(artifact => artifact.type === 'idea');
+  if (!idea) {
+    throw new Error('No idea artifact from an earlier stage');
+  }
+  return idea;
+}
@@ -0,0 +1,22 @@
+/**
+ * Shared run repository for /api/runs
+ *
+ * Defaults to JSON files under <workspace>/data/runs so runs and their
+ * artifacts survive restarts without a database. Set BRANDPACK_RUNS_DIR
+ * to relocate.
+ */
+
+import path from 'node:path';
+import { JsonFileRunRepository, type RunRepository } from '@brandpack/core/pipeline';
+import { findWorkspaceRoot } from '@brandpack/core/config';
+
+let repository: RunRepository | null = null;
+
+export function getRunRepository(): RunRepository {
+  if (!repository) {
+    const directory =
+      process.env.BRANDPACK_RUNS_DIR ?? path.join(findWorkspaceRoot(), 'data', 'runs');
+    repository = new JsonFileRunRepository({ directory });
+  }
+  return repository;
+}
@@ -0,0 +1,26 @@
+/**
+ * Shared crawl snapshot store for /api/scrape
+ *
+ * Stores the last crawl and kernel per domain under
+ * <workspace>/data/cache/scrape so re-scrapes can send conditional requests
+ * and skip recompression. Set BRANDPACK_SCRAPE_CACHE_DIR to relocate.
+ */
+
+import path from 'node:path';
+import {
+  JsonFileCrawlSnapshotStore,
+  type CrawlSnapshotStore,
+} from '@brandpack/core/scraper';
+import { findWorkspaceRoot } from '@brandpack/core/config';
+
+let store: CrawlSnapshotStore | null = null;
+
+export function getCrawlSnapshotStore(): CrawlSnapshotStore {
+  if (!store) {
+    const directory =
+      process.env.BRANDPACK_SCRAPE_CACHE_DIR ??
+      path.join(findWorkspaceRoot(), 'data', 'cache', 'scrape');
+    store = new JsonFileCrawlSnapshotStore({ directory });
+  }
+  return store;
+}
@@ -34,7 +34,7 @@ describe('AnthropicLLMAdapter mapSpecToAnthropic', () => {
     expect((params as any).response_format).toEqual({ type: 'json' });
   });
 
-  it('sets json schema response_format for structured specs', () => {
+  it('forces a tool call with the schema for structured specs', () => {
     const adapter = createAdapter();
     const spec: LLMSpec = {
       task_id: 'structured_task',
@@ -52,12 +52,34 @@ describe('AnthropicLLMAdapter mapSpecToAnthropic', () => {
     };
 
     const params = (adapter as any).mapSpecToAnthropic(spec);
-    expect((params as any).response_format).toEqual({
-      type: 'json_schema',
-      json_schema: {
-        name: 'structured_task',
-        schema: spec.schema
+    expect((params as any).response_format).toBeUndefined();
+    expect(params.tools).toEqual([
+      {
+        name: 'json_schema_response',
+        description: 'Return the structured_task output',
+        input_schema: spec.schema
       }
+    ]);
+    expect(params.tool_choice).toEqual({ type: 'tool', name: 'json_schema_response' });
+  });
+
+  it('wraps non-object schemas in an outputs property', () => {
+    const adapter = createAdapter();
+    const spec: LLMSpec = {
+      task_id: 'ideas.generate',
+      system_prompt: 'system',
+      user_prompt: 'user',
+      response_format: 'structured',
+      schema: { type: 'array', items: { type: 'string' }, minItems: 2 },
+      constraints: {}
+    };
+
+    const params = (adapter as any).mapSpecToAnthropic(spec);
+    expect(params.tools[0].input_schema).toEqual({
+      type: 'object',
+      properties: { outputs: spec.schema },
+      required: ['outputs'],
+      additionalProperties: false
     });
   });
 });
@@ -93,6 +115,24 @@ describe('AnthropicLLMAdapter extractOutputs', () => {
     expect(outputs).toEqual(['{"summary":"ok"}']);
   });
 
+  it('unwraps the outputs property of wrapped schemas', () => {
+    const adapter = createAdapter();
+    const response = {
+      ...baseResponse,
+      content: [
+        {
+          type: 'tool_use',
+          id: 'tool_1',
+          name: 'json_schema_response',
+          input: { outputs: ['one', 'two'] }
+        }
+      ]
+    } as any;
+
+    const outputs = (adapter as any).extractOutputs(response, 'structured', true);
+    expect(outputs).toEqual(['["one","two"]']);
+  });
+
   it('throws AdapterError when structured payload is malformed', () => {
     const adapter = createAdapter();
     const response = {
@@ -11,8 +11,13 @@ import {
   AdapterError,
   AdapterErrorCode,
   calculateCost,
+  toObjectSchema,
+  WRAPPED_OUTPUT_KEY,
 } from '@brandpack/core';
 
+/** Tool the model is forced to call for structured output */
+const STRUCTURED_TOOL_NAME = 'json_schema_response';
+
 const DEFAULT_MODEL = 'claude-3-5-sonnet-20241022';
 
 const ANTHROPIC_PRICING: Record<
@@ -82,7 +87,7 @@ export class AnthropicLLMAdapter implements LLMAdapter {
     return { valid: errors.length === 0, errors };
   }
 
-  async execute(spec: LLMSpec): Promise<AdapterResponse> {
+  async execute(spec: LLMSpec, signal?: AbortSignal): Promise<AdapterResponse> {
     const validation = this.validateSpec(spec);
     if (!validation.valid) {
       throw new AdapterError(
@@ -102,11 +107,15 @@ export class AnthropicLLMAdapter implements LLMAdapter {
       // Non-streaming request - cast to Message type
       const response = await this.client.messages.create(
         params as MessageCreateParams,
-        { timeout: this.timeoutMs },
+        { timeout: this.timeoutMs, signal },
       ) as Anthropic.Message;
 
       const usage = this.normalizeUsage(response.usage);
-      const outputs = this.extractOutputs(response, spec.response_format);
+      const outputs = this.extractOutputs(
+        response,
+        spec.response_format,
+        !!spec.schema && toObjectSchema(spec.schema).wrapped,
+      );
 
       return {
         outputs: outputs.length > 0 ? outputs : [''],
@@ -145,37 +154,28 @@ export class AnthropicLLMAdapter implements LLMAdapter {
       stop_sequences: spec.constraints.stop_sequences,
     };
 
-    const responseFormat = this.resolveResponseFormat(spec);
-    if (responseFormat) {
-      (params as any).response_format = responseFormat;
-    }
-
-    return params;
-  }
-
-  private resolveResponseFormat(
-    spec: LLMSpec,
-  ): Record<string, unknown> | undefined {
     if (spec.response_format === 'json') {
-      return { type: 'json' };
-    }
-
-    if (spec.response_format === 'structured' && spec.schema) {
-      return {
-        type: 'json_schema',
-        json_schema: {
-          name: spec.task_id ?? 'structured_output',
-          schema: spec.schema,
+      (params as any).response_format = { type: 'json' };
+    } else if (spec.response_format === 'structured' && spec.schema) {
+      // Structured output goes through a single forced tool call whose
+      // input schema is the task schema
+      params.tools = [
+        {
+          name: STRUCTURED_TOOL_NAME,
+          description: `Return the ${spec.task_id} output`,
+          input_schema: toObjectSchema(spec.schema).schema as Anthropic.Tool.InputSchema,
         },
-      };
+      ];
+      params.tool_choice = { type: 'tool', name: STRUCTURED_TOOL_NAME };
     }
 
-    return undefined;
+    return params;
   }
 
   private extractOutputs(
     response: Anthropic.Message,
     format: ResponseFormat,
+    wrapped = false,
   ): string[] {
     const blocks = Array.isArray(response.content) ? response.content : [];
 
@@ -194,10 +194,14 @@ export class AnthropicLLMAdapter implements LLMAdapter {
       }
 
       return toolBlocks.map((block: any) => {
-        const payload =
+        const input =
           block?.input ?? block?.output ?? block?.json ?? block?.content;
+        const payload = wrapped ? input?.[WRAPPED_OUTPUT_KEY] : input;
 
-        if (!payload || typeof payload !== 'object') {
+        const malformed = wrapped
+          ? payload === undefined
+          : !payload || typeof payload !== 'object';
+        if (malformed) {
           throw new AdapterError(
             'Anthropic structured response payload malformed.',
             this.provider,
@@ -1,6 +1,6 @@
 import type { LLMAdapter } from '@brandpack/core';
 import { llmRegistry, imageRegistry, registerAdapters } from './registry';
-import { routeSpec, routeImageGeneration } from './router';
+import { routeSpec, routeImageGeneration, estimateSpecCost } from './router';
 import { NoopLLMAdapter, NoopImageAdapter } from './noop';
 import { AnthropicLLMAdapter } from './anthropic';
 import { OpenAILLMAdapter } from './openai';
@@ -49,6 +49,7 @@ export {
   registerAdapters,
   routeSpec,
   routeImageGeneration,
+  estimateSpecCost,
   NoopLLMAdapter,
   NoopImageAdapter,
   AnthropicLLMAdapter,
@@ -70,7 +70,7 @@ export class NoopLLMAdapter implements LLMAdapter {
         angle: 'Noop mock angle',
         audience: 'Mock target audience',
         format: 'LinkedIn carousel',
-        supporting_evidence_keys: ['mock.evidence.1', 'mock.evidence.2'],
+        supporting_evidence_keys: ['products', 'unique_angle'],
       }));
       return JSON.stringify(ideas);
     }
@@ -78,11 +78,11 @@ export class NoopLLMAdapter implements LLMAdapter {
     if (taskId.includes('copy')) {
       // Generate 5 copy blocks matching validator expectations
       const copy = {
-        hook: { text: 'Mock hook copy', char_count: 14, evidence_keys: [] },
-        context: { text: 'Mock context with supporting details', char_count: 36, evidence_keys: [] },
-        proof: { text: 'Mock proof point with data', char_count: 26, evidence_keys: [] },
-        objection: { text: 'Mock objection handler response', char_count: 32, evidence_keys: [] },
-        cta: { text: 'Mock call to action', char_count: 19, evidence_keys: [] },
+        hook: { text: 'Mock hook copy', char_count: 14, evidence_keys: ['unique_angle'] },
+        context: { text: 'Mock context with supporting details', char_count: 36, evidence_keys: ['audience'] },
+        proof: { text: 'Mock proof point with data', char_count: 26, evidence_keys: ['proof_points'] },
+        objection: { text: 'Mock objection handler response', char_count: 32, evidence_keys: ['pricing_cues'] },
+        cta: { text: 'Mock call to action', char_count: 19, evidence_keys: ['products'] },
       };
       return JSON.stringify(copy);
     }
@@ -96,7 +96,7 @@ export class NoopLLMAdapter implements LLMAdapter {
         visual_direction: 'Mock visual direction for noop test',
         focal_point: 'center',
         copy_overlay_guidance: 'Place text in safe zones',
-        evidence_keys: ['mock.evidence.1'],
+        evidence_keys: ['products'],
       };
       return JSON.stringify(brief);
     }
@@ -157,7 +157,7 @@ export class NoopImageAdapter implements ImageAdapter {
         seed: config.seed,
       },
       raw_response: {
-        prompt: brief.prompt,
+        prompt: [brief.prompt, ...(config.style_modifiers ?? [])].join(', '),
         negative_prompt: brief.negative_prompt,
       },
     };
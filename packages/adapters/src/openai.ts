@@ -10,6 +10,8 @@ import {
   AdapterError,
   AdapterErrorCode,
   calculateCost,
+  toObjectSchema,
+  WRAPPED_OUTPUT_KEY,
 } from '@brandpack/core';
 
 const DEFAULT_MODEL = 'gpt-4o-mini';
@@ -82,7 +84,7 @@ export class OpenAILLMAdapter implements LLMAdapter {
     return { valid: errors.length === 0, errors };
   }
 
-  async execute(spec: LLMSpec): Promise<AdapterResponse> {
+  async execute(spec: LLMSpec, signal?: AbortSignal): Promise<AdapterResponse> {
     const validation = this.validateSpec(spec);
     if (!validation.valid) {
       throw new AdapterError(
@@ -100,12 +102,18 @@ export class OpenAILLMAdapter implements LLMAdapter {
     try {
       const response = await this.client.chat.completions.create(params, {
         timeout: this.timeoutMs,
+        signal,
       });
 
       const usage = this.normalizeUsage(response.usage);
+      const wrapped =
+        spec.response_format === 'structured' &&
+        !!spec.schema &&
+        toObjectSchema(spec.schema).wrapped;
       const outputs = (response.choices ?? [])
         .map((choice) => choice.message?.content ?? '')
-        .filter(Boolean);
+        .filter(Boolean)
+        .map((content) => (wrapped ? this.unwrapOutput(content) : content));
 
       return {
         outputs: outputs.length > 0 ? outputs : [''],
@@ -146,11 +154,12 @@ export class OpenAILLMAdapter implements LLMAdapter {
         type: 'json_object',
       };
     } else if (spec.response_format === 'structured' && spec.schema) {
+      // json_schema needs an object at the root and a name without dots
       (params as any).response_format = {
         type: 'json_schema',
         json_schema: {
-          name: spec.task_id ?? 'structured_output',
-          schema: spec.schema,
+          name: (spec.task_id || 'structured_output').replace(/[^\w-]/g, '_'),
+          schema: toObjectSchema(spec.schema).schema,
         },
       };
     }
@@ -158,6 +167,21 @@ export class OpenAILLMAdapter implements LLMAdapter {
     return params;
   }
 
+  /**
+   * Return the original output from a schema that was wrapped in an
+   * object; content that doesn't parse is passed on for the caller to reject
+   */
+  private unwrapOutput(content: string): string {
+    try {
+      const payload = JSON.parse(content);
+      return payload && typeof payload === 'object' && WRAPPED_OUTPUT_KEY in payload
+        ? JSON.stringify(payload[WRAPPED_OUTPUT_KEY])
+        : content;
+    } catch {
+      return content;
+    }
+  }
+
   private estimateUsage(spec: LLMSpec): TokenUsage {
     const promptTokens = Math.ceil(
       (spec.system_prompt.length + spec.user_prompt.length) / 4,
@@ -0,0 +1,100 @@
+import { describe, expect, it, afterEach } from 'vitest';
+import type { AdapterResponse, LLMAdapter, LLMSpec } from '@brandpack/core';
+import { AdapterError, AdapterErrorCode } from '@brandpack/core';
+import { llmRegistry } from './registry';
+import { routeSpec } from './router';
+
+const spec: LLMSpec = {
+  task_id: 'ideas.generate',
+  system_prompt: 'system',
+  user_prompt: 'user',
+  response_format: 'text',
+  constraints: {}
+};
+
+const createAdapter = (
+  provider: string,
+  execute: (spec: LLMSpec, signal?: AbortSignal) => Promise<AdapterResponse>
+): LLMAdapter => ({
+  provider,
+  execute,
+  estimateCost: () => 0,
+  validateSpec: () => ({ valid: true, errors: [] }),
+  getAvailableModels: () => [`${provider}-model`]
+});
+
+const respond = (provider: string): AdapterResponse => ({
+  outputs: ['ok'],
+  usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+  provider,
+  model: `${provider}-model`,
+  cost_usd: 0,
+  duration_ms: 1,
+  raw_response: null
+});
+
+describe('routeSpec fallback chains', () => {
+  afterEach(() => {
+    llmRegistry.clear();
+  });
+
+  it('skips unregistered providers and providers failing with retryable errors', async () => {
+    llmRegistry.register(
+      createAdapter('primary', async () => {
+        throw new AdapterError('rate limited', 'primary', AdapterErrorCode.RATE_LIMITED);
+      })
+    );
+    llmRegistry.register(createAdapter('backup', async () => respond('backup')));
+
+    const response = await routeSpec(spec, ['missing', 'primary', 'backup']);
+
+    expect(response.provider).toBe('backup');
+    expect(response.metadata?.served_by).toBe('backup');
+    expect(response.metadata?.skipped_providers).toEqual([
+      expect.objectContaining({ provider: 'missing', reason: 'not_registered' }),
+      expect.objectContaining({
+        provider: 'primary',
+        reason: 'retryable_error',
+        error_code: AdapterErrorCode.RATE_LIMITED
+      })
+    ]);
+  });
+
+  it('does not fall back on non-retryable errors', async () => {
+    llmRegistry.register(
+      createAdapter('primary', async () => {
+        throw new AdapterError('bad key', 'primary', AdapterErrorCode.AUTHENTICATION_FAILED);
+      })
+    );
+    llmRegistry.register(createAdapter('backup', async () => respond('backup')));
+
+    await expect(routeSpec(spec, ['primary', 'backup'])).rejects.toMatchObject({
+      code: AdapterErrorCode.AUTHENTICATION_FAILED
+    });
+  });
+
+  it('passes the abort signal to the adapter and does not fall back once it is aborted', async () => {
+    const controller = new AbortController();
+    let received: AbortSignal | undefined;
+    llmRegistry.register(
+      createAdapter('primary', async (_spec, signal) => {
+        received = signal;
+        controller.abort();
+        throw new AdapterError('timed out', 'primary', AdapterErrorCode.TIMEOUT);
+      })
+    );
+    llmRegistry.register(createAdapter('backup', async () => respond('backup')));
+
+    await expect(routeSpec(spec, ['primary', 'backup'], controller.signal)).rejects.toMatchObject({
+      code: AdapterErrorCode.TIMEOUT
+    });
+    expect(received).toBe(controller.signal);
+  });
+
+  it('throws MODEL_NOT_FOUND when no provider in the chain is registered', async () => {
+    await expect(routeSpec(spec, ['missing', 'also-missing'])).rejects.toMatchObject({
+      code: AdapterErrorCode.MODEL_NOT_FOUND,
+      provider: 'also-missing'
+    });
+  });
+});
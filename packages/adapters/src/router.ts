@@ -4,8 +4,9 @@ import type {
   ImageConfig,
   AdapterImageResult as ImageResult,
   LLMSpec,
+  ProviderSkip,
 } from '@brandpack/core';
-import { AdapterError, AdapterErrorCode } from '@brandpack/core';
+import { AdapterError, AdapterErrorCode, isRetryableError } from '@brandpack/core';
 import { llmRegistry, imageRegistry } from './registry';
 
 function normalizeProvider(
@@ -15,37 +16,108 @@ function normalizeProvider(
   return requested && requested.trim().length > 0 ? requested : fallback;
 }
 
+function normalizeChain(
+  requested: string | string[] | undefined,
+  fallback: string,
+): string[] {
+  const providers = (Array.isArray(requested) ? requested : [requested])
+    .filter((p): p is string => typeof p === 'string' && p.trim().length > 0);
+  const unique = Array.from(new Set(providers));
+  return unique.length > 0 ? unique : [fallback];
+}
+
+/**
+ * Route a spec to an LLM adapter.
+ *
+ * `provider` may be a single provider or an ordered fallback chain. A provider
+ * is skipped when it is not registered or fails with a retryable error; the
+ * last one in the chain surfaces its error. The response metadata records
+ * which provider served the request and why earlier ones were skipped.
+ * An aborted `signal` cancels the current provider's request and stops the
+ * chain.
+ */
 export async function routeSpec(
   spec: LLMSpec,
-  provider?: string,
+  provider?: string | string[],
+  signal?: AbortSignal,
 ): Promise<AdapterResponse> {
-  const desired = normalizeProvider(provider, 'noop-llm');
-  
+  const chain = normalizeChain(provider, 'noop-llm');
+  const skipped: ProviderSkip[] = [];
+
   // Debug logging
-  console.log(`[ROUTER] Task: ${spec.task_id} | Requested provider: ${provider} | Using: ${desired}`);
+  console.log(`[ROUTER] Task: ${spec.task_id} | Requested provider: ${chain.join(' -> ')}`);
   console.log(`[ROUTER] Available adapters: ${Array.from(llmRegistry.list()).join(', ')}`);
-  
-  const adapter = llmRegistry.get(desired);
 
-  if (!adapter) {
-    throw new AdapterError(
-      `No LLM adapter registered for provider "${desired}".`,
-      desired,
-      AdapterErrorCode.MODEL_NOT_FOUND,
-    );
-  }
+  for (const [index, desired] of chain.entries()) {
+    const isLast = index === chain.length - 1;
+    const adapter = llmRegistry.get(desired);
 
-  const validation = adapter.validateSpec(spec);
-  if (!validation.valid) {
-    throw new AdapterError(
-      `Invalid spec: ${validation.errors.join(', ')}`,
-      adapter.provider,
-      AdapterErrorCode.INVALID_REQUEST,
-      validation.errors,
-    );
+    if (!adapter) {
+      const message = `No LLM adapter registered for provider "${desired}".`;
+      if (isLast) {
+        throw new AdapterError(
+          message,
+          desired,
+          AdapterErrorCode.MODEL_NOT_FOUND,
+          skipped.length > 0 ? { skipped_providers: skipped } : undefined,
+        );
+      }
+      skipped.push({
+        provider: desired,
+        reason: 'not_registered',
+        error_code: AdapterErrorCode.MODEL_NOT_FOUND,
+        message,
+      });
+      continue;
+    }
+
+    const validation = adapter.validateSpec(spec);
+    if (!validation.valid) {
+      throw new AdapterError(
+        `Invalid spec: ${validation.errors.join(', ')}`,
+        adapter.provider,
+        AdapterErrorCode.INVALID_REQUEST,
+        validation.errors,
+      );
+    }
+
+    try {
+      const response = await adapter.execute(spec, signal);
+      if (skipped.length > 0) {
+        console.log(`[ROUTER] Served by ${adapter.provider} after skipping ${skipped.map((s) => s.provider).join(', ')}`);
+      }
+      return {
+        ...response,
+        metadata: {
+          ...response.metadata,
+          served_by: adapter.provider,
+          skipped_providers: skipped,
+        },
+      };
+    } catch (error) {
+      if (isLast || !isRetryableError(error) || signal?.aborted) {
+        throw error;
+      }
+      skipped.push({
+        provider: adapter.provider,
+        reason: 'retryable_error',
+        error_code: (error as AdapterError).code,
+        message: (error as Error).message,
+      });
+    }
   }
 
-  return adapter.execute(spec);
+  // Unreachable: the chain always has at least one provider
+  throw new AdapterError('No LLM provider available.', 'unknown', AdapterErrorCode.MODEL_NOT_FOUND);
+}
+
+/**
+ * Estimate the cost of a spec with the adapter that would serve it.
+ * Unknown providers estimate to 0 so routing can report the real error.
+ */
+export function estimateSpecCost(spec: LLMSpec, provider?: string): number {
+  const adapter = llmRegistry.get(normalizeProvider(provider, 'noop-llm'));
+  return adapter ? adapter.estimateCost(spec) : 0;
 }
 
 export async function routeImageGeneration(
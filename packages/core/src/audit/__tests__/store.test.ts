@@ -0,0 +1,158 @@
+/**
+ * Audit Store Tests
+ *
+ * Persistence backends, orchestrator integration and trail summaries
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { MemoryAuditStore, JsonFileAuditStore } from '../store';
+import { summarizeAuditTrail } from '../summary';
+import { runTask } from '../../runner/orchestrator';
+import type { AuditLogEntry } from '../../types/outputs';
+import type { PromptsConfig } from '../../types/config';
+import type { LLMSpec } from '../../types/spec';
+
+const config: PromptsConfig = {
+  version: '2.0.0',
+  updated_at: '2025-01-01T00:00:00Z',
+  global: { provider: 'noop-llm', log_level: 'info', cache_enabled: false },
+  calls: {
+    'scrape.review_summarize': {
+      model: { provider: 'noop-llm', name: 'noop-llm-v1', temperature: 0.1, max_tokens: 500 },
+      prompt: { system: 'System', user_template: '{kernel}', variables: ['kernel'], outputs_expected: 1 },
+      runtime: { timeout_ms: 1000, max_retries: 0, cost_usd_limit: 1 },
+    },
+  },
+};
+
+const spec: LLMSpec = {
+  task_id: 'scrape.review_summarize',
+  system_prompt: 'System',
+  user_prompt: 'Kernel',
+  response_format: 'json',
+  constraints: {},
+  metadata: { run_id: 'run-audit-1' },
+};
+
+function entry(overrides: Partial<AuditLogEntry>): AuditLogEntry {
+  return {
+    id: 'id',
+    run_id: 'run-1',
+    call_type: 'ideas.generate',
+    provider: 'noop-llm',
+    model: 'noop-llm-v1',
+    prompt_tokens: 10,
+    completion_tokens: 5,
+    total_tokens: 15,
+    cost_usd: 0.01,
+    duration_ms: 100,
+    cache_hit: false,
+    request_hash: 'hash',
+    validation_passed: true,
+    validation_flags: ['validation_passed'],
+    artifact_count: 20,
+    created_at: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('audit store', () => {
+  it('should round-trip entries through the JSON file store', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'brandpack-audit-'));
+    try {
+      const store = new JsonFileAuditStore({ directory });
+      await store.append(entry({ id: 'b', created_at: '2025-01-01T00:00:02.000Z' }));
+      await store.append(entry({ id: 'a', created_at: '2025-01-01T00:00:01.000Z' }));
+
+      const entries = await store.listByRun('run-1');
+
+      assert.deepStrictEqual(entries.map((e) => e.id), ['a', 'b']);
+      assert.deepStrictEqual(await store.listByRun('missing'), []);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should persist an entry for every runTask call', async () => {
+    const store = new MemoryAuditStore();
+
+    const result = await runTask(
+      spec,
+      config,
+      async () => ({
+        outputs: ['{"tone":["bold"]}'],
+        usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 },
+        provider: 'noop-llm',
+        model: 'noop-llm-v1',
+        cost_usd: 0.002,
+        duration_ms: 5,
+        raw_response: null,
+      }),
+      () => ({ passed: false, errors: ['Missing required field: voice'], warnings: [] }),
+      { auditStore: store }
+    );
+
+    const entries = await store.listByRun('run-audit-1');
+
+    assert.strictEqual(result.audit.run_id, 'run-audit-1');
+    assert.strictEqual(entries.length, 1);
+    assert.strictEqual(entries[0].call_type, 'scrape.review_summarize');
+    assert.strictEqual(entries[0].total_tokens, 20);
+    assert.strictEqual(entries[0].artifact_count, 1);
+    assert.strictEqual(entries[0].validation_passed, false);
+    assert.ok(entries[0].validation_flags?.includes('Missing required field: voice'));
+    assert.strictEqual(entries[0].request_hash, result.audit.request_hash);
+    assert.match(entries[0].request_hash, /^[a-f0-9]{64}$/);
+  });
+
+  it('should record executor failures with the error message', async () => {
+    const store = new MemoryAuditStore();
+
+    await runTask(
+      spec,
+      config,
+      async () => {
+        throw new Error('provider exploded');
+      },
+      undefined,
+      { auditStore: store, runId: 'run-audit-2' }
+    );
+
+    const [failed] = await store.listByRun('run-audit-2');
+
+    assert.strictEqual(failed.provider, 'noop-llm');
+    assert.strictEqual(failed.error_message, 'provider exploded');
+  });
+});
+
+describe('summarizeAuditTrail', () => {
+  it('should total costs and mark the run failed when a stage last failed', () => {
+    const summary = summarizeAuditTrail('run-1', [
+      entry({ call_type: 'ideas.generate', cost_usd: 0.1, created_at: '2025-01-01T00:00:01.000Z' }),
+      entry({
+        call_type: 'copy.generate',
+        cost_usd: 0.2,
+        validation_passed: false,
+        created_at: '2025-01-01T00:00:02.000Z',
+      }),
+    ]);
+
+    assert.strictEqual(summary.status, 'failed');
+    assert.strictEqual(summary.totals.calls, 2);
+    assert.strictEqual(summary.totals.cost_usd, 0.3);
+    assert.deepStrictEqual(summary.stages.map((s) => s.status), ['complete', 'failed']);
+  });
+
+  it('should treat a later successful retry of a stage as complete', () => {
+    const summary = summarizeAuditTrail('run-1', [
+      entry({ error_message: 'timeout', created_at: '2025-01-01T00:00:01.000Z' }),
+      entry({ created_at: '2025-01-01T00:00:02.000Z' }),
+    ]);
+
+    assert.strictEqual(summary.status, 'complete');
+  });
+});
@@ -0,0 +1,17 @@
+/**
+ * Audit - Persisted audit trail for orchestrated calls
+ */
+
+export {
+  MemoryAuditStore,
+  JsonFileAuditStore,
+  type AuditStore,
+  type JsonFileAuditStoreOptions,
+} from './store';
+
+export {
+  summarizeAuditTrail,
+  type AuditStageStatus,
+  type AuditStageSummary,
+  type AuditTrailSummary,
+} from './summary';
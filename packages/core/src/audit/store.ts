@@ -0,0 +1,90 @@
+/**
+ * Audit Store - Persistence for per-call audit entries
+ *
+ * Entries follow the `audit_log` table shape so the same records can be
+ * written to Supabase later. The JSON-file backend keeps one JSONL file
+ * per run and works fully offline.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { AuditLogEntry } from '../types/outputs';
+
+export interface AuditStore {
+  append(entry: AuditLogEntry): Promise<void>;
+  listByRun(runId: string): Promise<AuditLogEntry[]>;
+}
+
+/**
+ * In-memory store (tests, local scripts)
+ */
+export class MemoryAuditStore implements AuditStore {
+  private readonly entries = new Map<string, AuditLogEntry[]>();
+
+  async append(entry: AuditLogEntry): Promise<void> {
+    const existing = this.entries.get(entry.run_id) ?? [];
+    existing.push({ ...entry });
+    this.entries.set(entry.run_id, existing);
+  }
+
+  async listByRun(runId: string): Promise<AuditLogEntry[]> {
+    return sortByCreatedAt((this.entries.get(runId) ?? []).map((entry) => ({ ...entry })));
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export interface JsonFileAuditStoreOptions {
+  /** Directory that holds one `<run_id>.jsonl` file per run */
+  directory: string;
+}
+
+/**
+ * JSON-lines file store, one file per run
+ */
+export class JsonFileAuditStore implements AuditStore {
+  private readonly directory: string;
+
+  constructor(options: JsonFileAuditStoreOptions) {
+    this.directory = path.resolve(options.directory);
+  }
+
+  async append(entry: AuditLogEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.appendFile(this.fileFor(entry.run_id), `${JSON.stringify(entry)}\n`, 'utf-8');
+  }
+
+  async listByRun(runId: string): Promise<AuditLogEntry[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.fileFor(runId), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: AuditLogEntry[] = [];
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as AuditLogEntry);
+      } catch {
+        // skip partially written lines
+      }
+    }
+    return sortByCreatedAt(entries);
+  }
+
+  private fileFor(runId: string): string {
+    const safeId = runId.replace(/[^a-zA-Z0-9_.-]/g, '_');
+    return path.join(this.directory, `${safeId}.jsonl`);
+  }
+}
+
+function sortByCreatedAt(entries: AuditLogEntry[]): AuditLogEntry[] {
+  return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
@@ -0,0 +1,97 @@
+/**
+ * Audit Summary - Turns raw audit entries into a per-stage timeline
+ */
+
+import type { AuditLogEntry } from '../types/outputs';
+
+export type AuditStageStatus = 'complete' | 'failed';
+
+export interface AuditStageSummary {
+  stage: string;
+  timestamp: string;
+  provider: string;
+  model: string;
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  cost_usd: number;
+  duration_ms: number;
+  cached: boolean;
+  validation_flags: string[];
+  artifacts: number;
+  status: AuditStageStatus;
+  error_message?: string;
+}
+
+export interface AuditTrailSummary {
+  run_id: string;
+  status: AuditStageStatus;
+  stages: AuditStageSummary[];
+  totals: {
+    calls: number;
+    cost_usd: number;
+    duration_ms: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * Summarize the audit entries of a single run
+ *
+ * The run counts as failed when the most recent entry of any stage failed,
+ * so a stage that failed once and then succeeded on a re-run is complete.
+ */
+export function summarizeAuditTrail(
+  runId: string,
+  entries: AuditLogEntry[],
+): AuditTrailSummary {
+  const stages = entries
+    .slice()
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(toStageSummary);
+
+  const latestByStage = new Map<string, AuditStageSummary>();
+  stages.forEach((stage) => latestByStage.set(stage.stage, stage));
+  const failed = Array.from(latestByStage.values()).some((stage) => stage.status === 'failed');
+
+  return {
+    run_id: runId,
+    status: failed ? 'failed' : 'complete',
+    stages,
+    totals: {
+      calls: stages.length,
+      cost_usd: roundCost(stages.reduce((sum, stage) => sum + stage.cost_usd, 0)),
+      duration_ms: stages.reduce((sum, stage) => sum + stage.duration_ms, 0),
+      total_tokens: stages.reduce((sum, stage) => sum + stage.usage.total_tokens, 0),
+    },
+  };
+}
+
+function toStageSummary(entry: AuditLogEntry): AuditStageSummary {
+  const failed = Boolean(entry.error_message) || entry.validation_passed === false;
+
+  return {
+    stage: entry.call_type,
+    timestamp: entry.created_at,
+    provider: entry.provider,
+    model: entry.model,
+    usage: {
+      prompt_tokens: entry.prompt_tokens,
+      completion_tokens: entry.completion_tokens,
+      total_tokens: entry.total_tokens,
+    },
+    cost_usd: entry.cost_usd,
+    duration_ms: entry.duration_ms,
+    cached: entry.cache_hit,
+    validation_flags: entry.validation_flags ?? [],
+    artifacts: entry.artifact_count ?? 0,
+    status: failed ? 'failed' : 'complete',
+    error_message: entry.error_message,
+  };
+}
+
+function roundCost(value: number): number {
+  return Number(value.toFixed(6));
+}
@@ -8,9 +8,10 @@ import {
 import {
   resolveEffectiveConfig,
 } from '../effective-core';
-import type {
-  BrandPackConfig,
-  PartialConfig,
+import {
+  validateConfig,
+  type BrandPackConfig,
+  type PartialConfig,
 } from '../validator';
 
 test('mergeConfigLayers respects precedence, deep merge, array replace, null ignored', () => {
@@ -119,6 +120,41 @@ test('resolveEffectiveConfig produces expected call config for preset and overri
   assert.strictEqual(result.layers.override, overrides, 'override layer reported');
 });
 
+test('length limits merge per slot across preset and overrides, and units are validated', () => {
+  const config = createBaseConfig();
+  config.calls['ideas.generate'].prompt.variables = ['kernel'];
+  config.validation.length.per_slot = { hook: { min: 40, max: 90 }, cta: { min: 40, max: 90 } };
+  config.presets = {
+    short: {
+      description: 'Shorter hooks',
+      overrides: {
+        validation: { length: { per_slot: { hook: { max: 60 } } } },
+      } as unknown as PartialConfig,
+    },
+  };
+
+  const result = resolveEffectiveConfig(config, 'ideas.generate', {
+    preset: 'short',
+    overrides: { validation: { length: { unit: 'graphemes' } } } as unknown as PartialConfig,
+  });
+
+  assert.deepEqual(result.merged.validation.length, {
+    min_chars: 50,
+    max_chars: 300,
+    unit: 'graphemes',
+    per_slot: { hook: { min: 40, max: 60 }, cta: { min: 40, max: 90 } },
+  });
+  assert.equal(validateConfig(result.merged).valid, true);
+
+  const invalid = clone(result.merged) as any;
+  invalid.validation.length.unit = 'bytes';
+  invalid.validation.length.per_slot.cta = { min: 90, max: 40 };
+  assert.deepEqual(
+    validateConfig(invalid).errors.map((error) => error.path),
+    ['validation.length.unit', 'validation.length.per_slot.cta'],
+  );
+});
+
 function createBaseConfig(): BrandPackConfig {
   return {
     version: '1.0.0',
@@ -1,8 +1,10 @@
-export { loadPromptsConfig, clearConfigCache } from './loader';
+export { loadPromptsConfig, clearConfigCache, findWorkspaceRoot } from './loader';
 export {
   validateConfig,
   type BrandPackConfig,
   type PartialConfig,
+  type LengthUnit,
+  type LengthValidation,
   type ValidationIssue,
   type ValidationResult,
 } from './validator';
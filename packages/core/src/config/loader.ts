@@ -1,6 +1,7 @@
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import type { PromptsConfig } from '../types/config';
+import { checkPromptTemplate, TemplateError } from '../prompts';
 
 export interface LoadConfigOptions {
   /**
@@ -17,7 +18,7 @@ let cachedPayload: PromptsConfig | null = null;
 
 // Find workspace root by looking for data/config/prompts.json
 // In monorepo: workspace root is 2-3 levels up from app
-function findWorkspaceRoot(): string {
+export function findWorkspaceRoot(): string {
   let current = process.cwd();
   const maxLevelsUp = 5;
   
@@ -58,6 +59,18 @@ export async function loadPromptsConfig(
   const contents = await fs.readFile(resolvedPath, 'utf-8');
   const parsed = JSON.parse(contents) as PromptsConfig;
 
+  // Fail fast on templates that would break or mislead at render time
+  const problems = Object.entries(parsed.calls ?? {}).flatMap(([callId, call]) =>
+    typeof call?.prompt?.user_template === 'string' && Array.isArray(call.prompt.variables)
+      ? checkPromptTemplate(callId, call.prompt).map(
+          (problem) => `calls.${callId}.prompt.user_template: ${problem}`,
+        )
+      : [],
+  );
+  if (problems.length > 0) {
+    throw new TemplateError(`Invalid prompt templates in ${resolvedPath}: ${problems.join('; ')}`, problems);
+  }
+
   cachedPath = resolvedPath;
   cachedPayload = parsed;
 
@@ -1,3 +1,5 @@
+import { checkJsonSchema, checkPromptTemplate } from '../prompts';
+
 export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
 
 export interface CacheTtlSeconds {
@@ -18,10 +20,12 @@ export interface PromptConfig {
   user_template: string;
   variables: string[];
   outputs_expected?: number;
+  schema?: Record<string, unknown>;
 }
 
 export interface ModelConfig {
   provider?: string;
+  fallback_providers?: string[];
   name: string;
   temperature: number;
   max_tokens: number;
@@ -33,6 +37,20 @@ export interface CrawlGuard {
   max_concurrency: number;
   per_request_timeout_ms: number;
   total_timeout_ms: number;
+  follow_redirects?: boolean;
+  max_redirects?: number;
+  /** Paths ranked ahead of others when picking pages (default DEFAULT_PRIORITY_PAGES) */
+  priority_pages?: string[];
+  /** Pasted copy, PDF and DOCX through /api/ingest (default true) */
+  allow_manual_input?: boolean;
+  /** CSV uploads through /api/ingest (default true) */
+  allow_csv_import?: boolean;
+}
+
+export interface KernelGuard {
+  max_kb: number;
+  compression_strategy: 'aggressive' | 'balanced' | 'minimal';
+  include_citations?: boolean;
 }
 
 export interface RuntimeGuard {
@@ -40,6 +58,7 @@ export interface RuntimeGuard {
   max_retries: number;
   cost_usd_limit: number;
   crawl?: CrawlGuard;
+  kernel?: KernelGuard;
 }
 
 export interface CallConfig {
@@ -48,10 +67,17 @@ export interface CallConfig {
   runtime: RuntimeGuard;
 }
 
+/**
+ * How copy length is counted: UTF-16 characters, words, or grapheme
+ * clusters (an emoji or an accented letter counts once)
+ */
+export type LengthUnit = 'chars' | 'words' | 'graphemes';
+
 export interface LengthValidation {
   min_chars: number;
   max_chars: number;
-  per_slot?: Record<string, { min: number; max: number }>;
+  unit?: LengthUnit;
+  per_slot?: Record<string, { min: number; max: number; unit?: LengthUnit }>;
 }
 
 export interface ContinuityValidation {
@@ -131,6 +157,7 @@ export interface ValidationResult {
 }
 
 const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+const LENGTH_UNITS: LengthUnit[] = ['chars', 'words', 'graphemes'];
 
 export function validateConfig(raw: unknown): ValidationResult {
   const errors: ValidationIssue[] = [];
@@ -220,6 +247,15 @@ function validateCalls(value: unknown, errors: ValidationIssue[]): void {
       if (entry.model.provider !== undefined && typeof entry.model.provider !== 'string') {
         errors.push(issue(`calls.${callId}.model.provider`, 'provider must be a string when present'));
       }
+      if (
+        entry.model.fallback_providers !== undefined &&
+        (!Array.isArray(entry.model.fallback_providers) ||
+          !entry.model.fallback_providers.every((p: unknown) => typeof p === 'string'))
+      ) {
+        errors.push(
+          issue(`calls.${callId}.model.fallback_providers`, 'fallback_providers must be an array of strings when present')
+        );
+      }
       if (typeof entry.model.name !== 'string') {
         errors.push(issue(`calls.${callId}.model.name`, 'name must be a string'));
       }
@@ -242,10 +278,19 @@ function validateCalls(value: unknown, errors: ValidationIssue[]): void {
       }
       if (!Array.isArray(entry.prompt.variables) || !entry.prompt.variables.every((v) => typeof v === 'string')) {
         errors.push(issue(`calls.${callId}.prompt.variables`, 'variables must be an array of strings'));
+      } else if (typeof entry.prompt.user_template === 'string') {
+        checkPromptTemplate(callId, entry.prompt as PromptConfig).forEach((problem) => {
+          errors.push(issue(`calls.${callId}.prompt.user_template`, problem));
+        });
       }
       if (entry.prompt.outputs_expected !== undefined && !isNumber(entry.prompt.outputs_expected)) {
         errors.push(issue(`calls.${callId}.prompt.outputs_expected`, 'outputs_expected must be a number when present'));
       }
+      if (entry.prompt.schema !== undefined) {
+        checkJsonSchema(entry.prompt.schema).forEach((problem) => {
+          errors.push(issue(`calls.${callId}.prompt.schema`, problem));
+        });
+      }
     }
 
     if (!isRecord(entry.runtime)) {
@@ -267,6 +312,42 @@ function validateCalls(value: unknown, errors: ValidationIssue[]): void {
               errors.push(issue(`calls.${callId}.runtime.crawl.${key}`, 'must be a number'));
             }
           });
+          if (crawl.follow_redirects !== undefined && typeof crawl.follow_redirects !== 'boolean') {
+            errors.push(issue(`calls.${callId}.runtime.crawl.follow_redirects`, 'must be a boolean when present'));
+          }
+          if (crawl.max_redirects !== undefined && (!isNumber(crawl.max_redirects) || crawl.max_redirects < 0)) {
+            errors.push(issue(`calls.${callId}.runtime.crawl.max_redirects`, 'must be a non-negative number when present'));
+          }
+          if (
+            crawl.priority_pages !== undefined &&
+            (!Array.isArray(crawl.priority_pages) || crawl.priority_pages.some((page: unknown) => typeof page !== 'string'))
+          ) {
+            errors.push(issue(`calls.${callId}.runtime.crawl.priority_pages`, 'must be an array of paths when present'));
+          }
+          (['allow_manual_input', 'allow_csv_import'] as const).forEach((key) => {
+            if (crawl[key] !== undefined && typeof crawl[key] !== 'boolean') {
+              errors.push(issue(`calls.${callId}.runtime.crawl.${key}`, 'must be a boolean when present'));
+            }
+          });
+        }
+      }
+      if (entry.runtime.kernel !== undefined) {
+        if (!isRecord(entry.runtime.kernel)) {
+          errors.push(issue(`calls.${callId}.runtime.kernel`, 'kernel must be an object when provided'));
+        } else {
+          const kernel = entry.runtime.kernel;
+          if (!isNumber(kernel.max_kb) || kernel.max_kb <= 0) {
+            errors.push(issue(`calls.${callId}.runtime.kernel.max_kb`, 'must be a positive number'));
+          }
+          if (!['aggressive', 'balanced', 'minimal'].includes(kernel.compression_strategy as string)) {
+            errors.push(issue(
+              `calls.${callId}.runtime.kernel.compression_strategy`,
+              'must be one of aggressive, balanced, minimal',
+            ));
+          }
+          if (kernel.include_citations !== undefined && typeof kernel.include_citations !== 'boolean') {
+            errors.push(issue(`calls.${callId}.runtime.kernel.include_citations`, 'must be a boolean when present'));
+          }
         }
       }
     }
@@ -287,6 +368,9 @@ function validateValidation(value: unknown, errors: ValidationIssue[]): void {
         errors.push(issue(`validation.length.${key}`, 'must be a number'));
       }
     });
+    if (value.length.unit !== undefined && !isLengthUnit(value.length.unit)) {
+      errors.push(issue('validation.length.unit', `unit must be one of ${LENGTH_UNITS.join(', ')}`));
+    }
     if (value.length.per_slot !== undefined) {
       if (!isRecord(value.length.per_slot)) {
         errors.push(issue('validation.length.per_slot', 'per_slot must be an object'));
@@ -298,6 +382,11 @@ function validateValidation(value: unknown, errors: ValidationIssue[]): void {
           }
           if (!isNumber(limits.min) || !isNumber(limits.max)) {
             errors.push(issue(`validation.length.per_slot.${slot}`, 'min and max must be numbers'));
+          } else if (limits.min > limits.max) {
+            errors.push(issue(`validation.length.per_slot.${slot}`, 'min must not exceed max'));
+          }
+          if (limits.unit !== undefined && !isLengthUnit(limits.unit)) {
+            errors.push(issue(`validation.length.per_slot.${slot}.unit`, `unit must be one of ${LENGTH_UNITS.join(', ')}`));
           }
         });
       }
@@ -391,6 +480,10 @@ function isRecord(value: unknown): value is Record<string, any> {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
+function isLengthUnit(value: unknown): value is LengthUnit {
+  return LENGTH_UNITS.includes(value as LengthUnit);
+}
+
 function isNumber(value: unknown): value is number {
   return typeof value === 'number' && Number.isFinite(value);
 }
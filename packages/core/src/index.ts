@@ -15,24 +15,81 @@ export {
   type EffectiveConfigOptions,
   type EffectiveConfigResult,
   type EffectiveConfigResolveOptions,
+  type LengthUnit,
 } from './config';
 
 export {
   crawlSite,
+  computeCrawlHash,
+  crawlLimitsFromGuard,
+  DEFAULT_CRAWL_LIMITS,
+  classifyUrl,
+  classifyPage,
+  scoreUrl,
+  DEFAULT_PRIORITY_PAGES,
+  type ScoreOptions,
   type CrawlOptions,
   type CrawlPage,
   type CrawlResult,
+  type CrawlChanges,
+  type CrawlSnapshot,
+  type CrawlSkip,
+  type CrawlLimits,
+  type CrawlLink,
+  type CrawlBlock,
+  CrawlBlockedError,
+  DEFAULT_REDIRECT_POLICY,
+  isPrivateAddress,
+  type CrawlBlockReason,
+  type RedirectPolicy,
+  type UrlGuardOptions,
+  parseSitemap,
+  resolveSitemaps,
+  type SitemapEntry,
+  extractPageMetadata,
+  type PageMetadata,
+  type StructuredData,
+  extractContent,
+  type ContentBlock,
+  extractVisualAssets,
+  visualStyleModifiers,
+  type VisualAssets,
+  type VisualIdentity,
 } from './scraper';
 
 export {
   compressKernel,
+  compressionOptionsFromGuard,
+  DEFAULT_COMPRESSION_OPTIONS,
+  resolveCompressionOptions,
+  kernelForPrompt,
+  CLAIM_FIELDS,
+  type CompressionStrategy,
+  type KernelClaim,
+  type KernelCompression,
   type KernelInput,
   type KernelPayload,
   type KernelSource,
   type KernelStore,
   type KernelRecord,
+  resolveEvidenceKey,
+  findUnsupportedClaims,
+  type ResolvedEvidence,
+  type UnsupportedClaim,
 } from './kernel';
 
+export {
+  ingestDocument,
+  ingestDocuments,
+  ingestOptionsFromGuard,
+  detectIngestKind,
+  IngestError,
+  type IngestKind,
+  type IngestDocument,
+  type IngestOptions,
+  type IngestResult,
+} from './ingest';
+
 export {
   scoreCandidates,
   type RankCandidate,
@@ -47,6 +104,57 @@ export {
   type SlopFlag,
 } from './ranker';
 
+export {
+  MemoryAuditStore,
+  JsonFileAuditStore,
+  summarizeAuditTrail,
+  type AuditStore,
+  type JsonFileAuditStoreOptions,
+  type AuditStageStatus,
+  type AuditStageSummary,
+  type AuditTrailSummary,
+} from './audit';
+
+export {
+  PIPELINE_STAGES,
+  RunTransitionError,
+  createRun,
+  isPipelineStage,
+  nextStage,
+  advanceRun,
+  failRun,
+  recordStageUsage,
+  MemoryRunRepository,
+  JsonFileRunRepository,
+  runPipeline,
+  PipelineStageError,
+  type PipelineStage,
+  type CreateRunInput,
+  type RunRepository,
+  type JsonFileRunRepositoryOptions,
+  type ArtifactDraft,
+  type StageOutput,
+  type StageContext,
+  type StageHandler,
+  type StageHandlers,
+  type RunPipelineOptions,
+} from './pipeline';
+
+// Prompt exports
+export {
+  renderTemplate,
+  checkTemplate,
+  TemplateError,
+  checkPromptTemplate,
+  TASK_VARIABLES,
+  validateJsonSchema,
+  checkJsonSchema,
+  toObjectSchema,
+  WRAPPED_OUTPUT_KEY,
+  type JsonSchema,
+  type SchemaError,
+} from './prompts';
+
 // Runner exports
 export {
   buildScrapeReviewSpec,
@@ -56,13 +164,42 @@ export {
   getCallConfig,
   runTask,
   runTaskBatch,
+  toAuditLogEntry,
+  computeRequestHash,
+  withCache,
+  MemoryLLMCache,
+  FileLLMCache,
+  retryWithBackoff,
+  computeBackoffDelay,
+  DEFAULT_RETRY_POLICY,
+  buildRepairSpec,
+  MAX_REPAIR_ROUNDS,
+  BudgetLedger,
+  resolveBudgetLimits,
   validateTaskOutput,
   validateIdeas,
   validateCopy,
   validateImageBrief,
+  checkContinuity,
+  measureLength,
+  resolveSlotLength,
+  type SlotLengthLimits,
+  type ContinuityReport,
+  type ContinuityPair,
   type TaskResult,
   type RunTaskOptions,
   type TaskExecutor,
   type TaskValidator,
   type ValidationResult,
+  type ValidationContext,
+  type RetryPolicy,
+  type TaskAttempt,
+  type RepairOptions,
+  type RepairRound,
+  type LLMCache,
+  type LLMCacheEntry,
+  type BudgetLimits,
+  type BudgetAlertEvent,
+  type RunBudgetUsage,
+  type CostEstimator,
 } from './runner';
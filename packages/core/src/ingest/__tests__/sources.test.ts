@@ -0,0 +1,281 @@
+/**
+ * Ingest Tests
+ *
+ * Pasted text, CSV, PDF and DOCX documents to kernel sources
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { deflateRawSync, deflateSync } from 'node:zlib';
+import { compressKernel } from '../../kernel/compressor';
+import {
+  detectIngestKind,
+  DEFAULT_INGEST_MAX_BYTES,
+  ingestDocument,
+  ingestDocuments,
+  ingestOptionsFromGuard,
+  IngestError,
+  parseCsv,
+} from '../sources';
+import { extractPdfPages } from '../pdf';
+
+/**
+ * Minimal ZIP writer (deflated entries, no data descriptors)
+ */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.from(content, 'utf-8');
+    const compressed = deflateRawSync(raw);
+    const nameBytes = Buffer.from(name, 'utf-8');
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, compressed);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+/**
+ * Minimal PDF: one Flate-compressed content stream per page, with an
+ * optional ToUnicode CMap on the page font
+ */
+function buildPdf(pages: string[], toUnicode?: string): Buffer {
+  const objects: Buffer[] = [];
+  const add = (body: string | Buffer) => {
+    objects.push(Buffer.isBuffer(body) ? body : Buffer.from(body, 'latin1'));
+    return objects.length;
+  };
+  const stream = (dict: string, data: Buffer) =>
+    Buffer.concat([
+      Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`, 'latin1'),
+      data,
+      Buffer.from('\nendstream', 'latin1'),
+    ]);
+
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(''); // page tree, filled in below
+  const cmap = toUnicode ? add(stream('', Buffer.from(toUnicode, 'latin1'))) : 0;
+  const font = add(`<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica${cmap ? ` /ToUnicode ${cmap} 0 R` : ''} >>`);
+  const kids: number[] = [];
+  for (const content of pages) {
+    const contents = add(stream('/Filter /FlateDecode', deflateSync(Buffer.from(content, 'latin1'))));
+    kids.push(add(`<< /Type /Page /Parent 2 0 R /Contents ${contents} 0 R >>`));
+  }
+  objects[1] = Buffer.from(
+    `<< /Type /Pages /Kids [${kids.map((kid) => `${kid} 0 R`).join(' ')}] /Count ${kids.length} /Resources << /Font << /F1 ${font} 0 R >> >> >>`,
+    'latin1',
+  );
+
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n', 'latin1')];
+  objects.forEach((body, index) => {
+    parts.push(Buffer.from(`${index + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1'));
+  });
+  parts.push(Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n', 'latin1'));
+  return Buffer.concat(parts);
+}
+
+describe('detectIngestKind', () => {
+  it('should prefer the MIME type and fall back to the extension', () => {
+    assert.strictEqual(detectIngestKind('export', 'text/csv; charset=utf-8'), 'csv');
+    assert.strictEqual(detectIngestKind('Brand Guidelines.PDF'), 'pdf');
+    assert.strictEqual(detectIngestKind('deck.docx'), 'docx');
+    assert.strictEqual(detectIngestKind('notes.md'), 'text');
+    assert.strictEqual(detectIngestKind('deck.pptx'), null);
+  });
+});
+
+describe('ingestDocument', () => {
+  it('should turn pasted copy into sectioned blocks cited as manual:<name>', () => {
+    const { sources } = ingestDocument({
+      name: 'launch-notes',
+      kind: 'text',
+      data: '# Acme Widgets\nWe help small teams ship faster.\n\n## Pricing\n- Starter: $9 per month\n- Pro: $29 per month',
+    });
+
+    assert.strictEqual(sources.length, 1);
+    assert.strictEqual(sources[0].url, 'manual:launch-notes');
+    assert.strictEqual(sources[0].title, 'Acme Widgets');
+    assert.deepStrictEqual(
+      sources[0].blocks?.map((block) => [block.type, block.section.join(' > ')]),
+      [
+        ['heading', ''],
+        ['paragraph', 'Acme Widgets'],
+        ['heading', 'Acme Widgets'],
+        ['list', 'Acme Widgets > Pricing'],
+      ],
+    );
+    assert.strictEqual(
+      sources[0].content,
+      'Acme Widgets\nWe help small teams ship faster.\nPricing\nStarter: $9 per month\nPro: $29 per month',
+    );
+  });
+
+  it('should map product CSV columns to structured products and a table block', () => {
+    const { sources, warnings } = ingestDocument({
+      name: 'products.csv',
+      data: 'Product Name;Price;Currency;Description\n"Widget Pro";199.00;EUR;"Our ""best"" widget"\nWidget Lite;$49;;<p>Entry level</p>\n',
+    });
+
+    assert.deepStrictEqual(warnings, []);
+    assert.strictEqual(sources[0].url, 'upload:products.csv');
+    assert.strictEqual(sources[0].content_type, 'products');
+    assert.deepStrictEqual(sources[0].structured_data?.products, [
+      { name: 'Widget Pro', description: 'Our "best" widget', brand: undefined, offers: [{ price: '199.00', currency: 'EUR' }] },
+      { name: 'Widget Lite', description: 'Entry level', brand: undefined, offers: [{ price: '49', currency: 'USD' }] },
+    ]);
+    assert.strictEqual(sources[0].blocks?.[0].rows?.length, 3);
+  });
+
+  it('should read DOCX headings, lists and tables', () => {
+    const paragraph = (text: string, style?: string) =>
+      `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r><w:t>${text}</w:t></w:r></w:p>`;
+    const documentXml =
+      '<?xml version="1.0" encoding="UTF-8"?><w:document><w:body>' +
+      paragraph('Brand Voice', 'Heading1') +
+      paragraph('Confident &amp; warm, never smug.') +
+      '<w:p/>' +
+      paragraph('Plain words', 'ListParagraph') +
+      paragraph('Short sentences', 'ListParagraph') +
+      '<w:tbl><w:tr><w:tc>' + paragraph('Do') + '</w:tc><w:tc>' + paragraph('Don’t') + '</w:tc></w:tr></w:tbl>' +
+      '</w:body></w:document>';
+
+    const { sources } = ingestDocument({
+      name: 'voice.docx',
+      data: buildZip({ '[Content_Types].xml': '<Types/>', 'word/document.xml': documentXml }),
+    });
+
+    assert.strictEqual(sources[0].url, 'upload:voice.docx');
+    assert.deepStrictEqual(
+      sources[0].blocks?.map((block) => [block.type, block.text]),
+      [
+        ['heading', 'Brand Voice'],
+        ['paragraph', 'Confident & warm, never smug.'],
+        ['list', 'Plain words\nShort sentences'],
+        ['table', 'Do | Don’t'],
+      ],
+    );
+    assert.deepStrictEqual(sources[0].blocks?.[3].section, ['Brand Voice']);
+  });
+
+  it('should cite each PDF page and decode ToUnicode fonts', () => {
+    const cmap =
+      '/CIDInit /ProcSet findresource begin\nbegincmap\n1 begincodespacerange\n<00> <FF>\nendcodespacerange\n' +
+      '1 beginbfchar\n<01> <2122>\nendbfchar\n1 beginbfrange\n<41> <5A> <0041>\nendbfrange\nendcmap\n';
+    const pdf = buildPdf(
+      [
+        'BT /F1 24 Tf 72 720 Td (ACME\\001) Tj 0 -30 Td [(BRAND) -300 (BOOK)] TJ ET',
+        'BT /F1 12 Tf 72 720 Td <50524943494E47> Tj ET',
+      ],
+      cmap,
+    );
+
+    assert.deepStrictEqual(extractPdfPages(pdf), ['ACME™\nBRAND BOOK', 'PRICING']);
+
+    const { sources } = ingestDocument({ name: 'guide.pdf', data: pdf });
+    assert.deepStrictEqual(sources.map((source) => source.url), ['upload:guide.pdf#page=1', 'upload:guide.pdf#page=2']);
+  });
+
+  it('should reject unknown, disabled, oversized and empty documents', () => {
+    const codeOf = (run: () => unknown) => {
+      try {
+        run();
+      } catch (error) {
+        return error instanceof IngestError ? error.code : 'other';
+      }
+      return 'none';
+    };
+
+    assert.strictEqual(codeOf(() => ingestDocument({ name: 'deck.pptx', data: 'x' })), 'unsupported_type');
+    assert.strictEqual(
+      codeOf(() => ingestDocument({ name: 'a.csv', data: 'name\nx' }, { allowCsvImport: false })),
+      'not_allowed',
+    );
+    assert.strictEqual(codeOf(() => ingestDocument({ name: 'a.txt', data: 'hello' }, { maxBytes: 2 })), 'too_large');
+    assert.strictEqual(codeOf(() => ingestDocument({ name: 'a.txt', data: '\n\n' })), 'empty_document');
+    assert.strictEqual(codeOf(() => ingestDocument({ name: 'a.pdf', data: 'not a pdf' })), 'parse_failed');
+  });
+});
+
+describe('ingestDocuments', () => {
+  it('should feed compressKernel with upload citations', () => {
+    const { sources, documents } = ingestDocuments([
+      { name: 'about.txt', data: 'Acme builds tools for small teams.' },
+      { name: 'catalog.csv', data: 'name,price\nWidget Pro,199 USD\n' },
+      { name: 'catalog.csv', data: 'name,price\nWidget Max,399 USD\n' },
+    ]);
+
+    assert.deepStrictEqual(documents.map((document) => document.sources[0]), [
+      'manual:about.txt',
+      'upload:catalog.csv',
+      'upload:catalog (2).csv',
+    ]);
+
+    const kernel = compressKernel({ domain: 'acme.example.com', sources });
+    assert.deepStrictEqual(kernel.products.slice(0, 2), ['Widget Pro', 'Widget Max']);
+    assert.strictEqual(kernel.citations.products, 'upload:catalog.csv');
+    assert.strictEqual(kernel.pricing_cues.tiers[0], 'Widget Pro: USD 199');
+  });
+});
+
+describe('ingestOptionsFromGuard', () => {
+  it('should allow every kind without a guard and honour the crawl guard flags', () => {
+    assert.deepStrictEqual(ingestOptionsFromGuard(), {
+      maxBytes: DEFAULT_INGEST_MAX_BYTES,
+      allowManualInput: true,
+      allowCsvImport: true,
+    });
+
+    const options = ingestOptionsFromGuard({
+      max_pages: 10,
+      max_total_kb: 500,
+      max_concurrency: 2,
+      per_request_timeout_ms: 5000,
+      total_timeout_ms: 30000,
+      allow_csv_import: false,
+    });
+    assert.strictEqual(options.allowManualInput, true);
+    assert.throws(
+      () => ingestDocuments([{ name: 'a.csv', data: 'name\nx' }], options),
+      (error: unknown) => error instanceof IngestError && error.code === 'not_allowed',
+    );
+  });
+});
+
+describe('parseCsv', () => {
+  it('should handle quoted delimiters, newlines and CRLF', () => {
+    assert.deepStrictEqual(parseCsv('a,b\r\n"x, y","line 1\nline 2"\r\n'), [
+      ['a', 'b'],
+      ['x, y', 'line 1\nline 2'],
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * DOCX - Paragraphs, headings, lists and tables from word/document.xml
+ */
+
+import { decodeHtmlEntities } from '../scraper/html';
+import type { ContentBlock } from '../scraper/content';
+import { readZipFile } from './zip';
+
+const MAX_DOCUMENT_XML_BYTES = 20 * 1024 * 1024;
+
+export function extractDocxBlocks(archive: Buffer): ContentBlock[] {
+  const documentXml = readZipFile(archive, 'word/document.xml', MAX_DOCUMENT_XML_BYTES);
+  if (!documentXml) {
+    throw new Error('Not a Word document (word/document.xml missing)');
+  }
+  const xml = documentXml.toString('utf-8');
+  const body = xml.match(/<w:body\b[^>]*>([\s\S]*)<\/w:body>/)?.[1] ?? xml;
+
+  const blocks: ContentBlock[] = [];
+  const headings: Array<{ level: number; text: string }> = [];
+  let list: string[] = [];
+
+  const section = () => headings.map((heading) => heading.text);
+  const flushList = () => {
+    if (list.length > 0) {
+      blocks.push({ type: 'list', text: list.join('\n'), items: list, section: section() });
+      list = [];
+    }
+  };
+
+  // Top-level paragraphs and tables in document order
+  for (const match of body.matchAll(/<w:tbl\b[\s\S]*?<\/w:tbl>|<w:p\b[^>]*\/>|<w:p\b[\s\S]*?<\/w:p>/g)) {
+    const element = match[0];
+
+    if (element.startsWith('<w:tbl')) {
+      flushList();
+      const rows = Array.from(element.matchAll(/<w:tr\b[\s\S]*?<\/w:tr>/g), (row) =>
+        Array.from(row[0].matchAll(/<w:tc\b[\s\S]*?<\/w:tc>/g), (cell) => paragraphText(cell[0])),
+      ).filter((row) => row.some(Boolean));
+      if (rows.length > 0) {
+        blocks.push({
+          type: 'table',
+          text: rows.map((row) => row.join(' | ')).join('\n'),
+          rows,
+          section: section(),
+        });
+      }
+      continue;
+    }
+
+    const text = paragraphText(element);
+    if (!text) continue;
+
+    const style = element.match(/<w:pStyle\b[^>]*w:val="([^"]+)"/)?.[1] ?? '';
+    const heading = style.match(/^(?:Heading|heading)\s?(\d)$/) ?? (style === 'Title' ? [style, '1'] : null);
+    if (heading) {
+      flushList();
+      const level = Math.min(6, Number(heading[1]));
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      blocks.push({ type: 'heading', level, text, section: section() });
+      headings.push({ level, text });
+    } else if (/<w:numPr\b/.test(element) || /^List/.test(style)) {
+      list.push(text);
+    } else {
+      flushList();
+      blocks.push({ type: 'paragraph', text, section: section() });
+    }
+  }
+  flushList();
+
+  return blocks;
+}
+
+function paragraphText(xml: string): string {
+  const parts: string[] = [];
+  for (const match of xml.matchAll(/<w:t\b[^>]*>([\s\S]*?)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>|<\/w:p>/g)) {
+    if (match[1] !== undefined) parts.push(decodeHtmlEntities(match[1]));
+    else parts.push(' ');
+  }
+  return parts.join('').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,22 @@
+/**
+ * Ingest - Kernel sources from pasted copy and uploaded files
+ */
+
+export {
+  ingestDocument,
+  ingestDocuments,
+  ingestOptionsFromGuard,
+  detectIngestKind,
+  parseCsv,
+  IngestError,
+  DEFAULT_INGEST_MAX_BYTES,
+  type IngestKind,
+  type IngestDocument,
+  type IngestOptions,
+  type IngestErrorCode,
+  type IngestedDocument,
+  type IngestResult,
+} from './sources';
+export { extractPdfPages } from './pdf';
+export { extractDocxBlocks } from './docx';
+export { readZipEntries, readZipFile, type ZipEntry } from './zip';
@@ -0,0 +1,533 @@
+/**
+ * PDF - Per-page text extraction
+ *
+ * A small reader for text-based PDFs: parses indirect objects (including
+ * compressed object streams), walks the page tree in order, inflates
+ * FlateDecode content streams and interprets the text operators. Fonts
+ * with a ToUnicode CMap are mapped to Unicode; other strings are read as
+ * Latin-1. Scanned (image-only) pages yield no text.
+ */
+
+import { inflateSync } from 'node:zlib';
+
+type PdfValue =
+  | number
+  | boolean
+  | null
+  | string
+  | PdfName
+  | PdfRef
+  | PdfString
+  | PdfValue[]
+  | PdfDict;
+
+interface PdfName {
+  kind: 'name';
+  name: string;
+}
+
+interface PdfRef {
+  kind: 'ref';
+  id: number;
+}
+
+interface PdfString {
+  kind: 'string';
+  bytes: number[];
+}
+
+interface PdfDict {
+  kind: 'dict';
+  entries: Record<string, PdfValue>;
+}
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Buffer;
+}
+
+interface FontMap {
+  codeBytes: number;
+  map: Map<number, string>;
+}
+
+const MAX_STREAM_BYTES = 20 * 1024 * 1024;
+const MAX_PAGES = 500;
+
+/**
+ * Extract the text of each page, in page order
+ */
+export function extractPdfPages(data: Buffer): string[] {
+  if (data.subarray(0, 1024).indexOf('%PDF-') === -1) {
+    throw new Error('Not a PDF document');
+  }
+
+  const objects = readObjects(data);
+  const pages = pageObjects(objects);
+  const fontCache = new Map<number, FontMap | null>();
+
+  return pages.slice(0, MAX_PAGES).map(({ page, resources }) => {
+    const fonts = new Map<string, FontMap | null>();
+    const fontDict = asDict(resolve(objects, asDict(resources)?.entries.Font));
+    for (const [name, ref] of Object.entries(fontDict?.entries ?? {})) {
+      const id = isRef(ref) ? ref.id : -1;
+      if (!fontCache.has(id) || id === -1) {
+        fontCache.set(id, readFontMap(objects, resolve(objects, ref)));
+      }
+      fonts.set(name, fontCache.get(id) ?? null);
+    }
+
+    const contents = resolve(objects, asDict(page)?.entries.Contents);
+    const streams = (Array.isArray(contents) ? contents : [asDict(page)?.entries.Contents])
+      .map((ref) => (isRef(ref) ? objects.get(ref.id)?.stream : undefined))
+      .filter((stream): stream is Buffer => stream !== undefined);
+
+    return cleanText(streams.map((stream) => readText(stream, fonts)).join('\n'));
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Objects
+
+function readObjects(data: Buffer): Map<number, PdfObject> {
+  const objects = new Map<number, PdfObject>();
+  const source = data.toString('latin1');
+  const pattern = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    const id = Number(match[1]);
+    const parser = new PdfParser(source, pattern.lastIndex);
+    let value: PdfValue;
+    try {
+      value = parser.value();
+    } catch {
+      continue;
+    }
+
+    const object: PdfObject = { value };
+    const afterValue = source.slice(parser.position, parser.position + 20);
+    const streamStart = afterValue.match(/^\s*stream\r?\n/);
+    if (streamStart && isDict(value)) {
+      const start = parser.position + streamStart[0].length;
+      const length = value.entries.Length;
+      let end = typeof length === 'number' ? start + length : -1;
+      if (end < 0 || source.slice(end, end + 30).search(/^\s*endstream/) === -1) {
+        end = source.indexOf('endstream', start);
+      }
+      if (end > start) {
+        object.stream = decodeStream(data.subarray(start, end), value);
+        pattern.lastIndex = end;
+      }
+    }
+    objects.set(id, object);
+  }
+
+  // Objects packed into compressed object streams (PDF 1.5+)
+  for (const object of Array.from(objects.values())) {
+    if (!isDict(object.value) || nameOf(object.value.entries.Type) !== 'ObjStm' || !object.stream) continue;
+    const count = Number(object.value.entries.N);
+    const first = Number(object.value.entries.First);
+    const text = object.stream.toString('latin1');
+    const header = text.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let index = 0; index < count; index++) {
+      const id = header[index * 2];
+      const offset = header[index * 2 + 1];
+      if (!Number.isFinite(id) || objects.has(id)) continue;
+      try {
+        objects.set(id, { value: new PdfParser(text, first + offset).value() });
+      } catch {
+        // skip unreadable entries
+      }
+    }
+  }
+
+  return objects;
+}
+
+function decodeStream(raw: Buffer, dict: PdfDict): Buffer | undefined {
+  const filters = asArray(dict.entries.Filter).map(nameOf);
+  let data = raw;
+  for (const filter of filters) {
+    if (filter !== 'FlateDecode' && filter !== 'Fl') {
+      return undefined; // images and other encodings carry no text we can read
+    }
+    try {
+      data = inflateSync(data, { maxOutputLength: MAX_STREAM_BYTES });
+    } catch {
+      return undefined;
+    }
+  }
+  return data;
+}
+
+function pageObjects(objects: Map<number, PdfObject>): Array<{ page: PdfValue; resources: PdfValue }> {
+  const catalog = Array.from(objects.values()).find(
+    (object) => isDict(object.value) && nameOf(object.value.entries.Type) === 'Catalog',
+  );
+  const pages: Array<{ page: PdfValue; resources: PdfValue }> = [];
+  const seen = new Set<number>();
+
+  const walk = (ref: PdfValue, inherited: PdfValue) => {
+    if (pages.length >= MAX_PAGES) return;
+    if (isRef(ref)) {
+      if (seen.has(ref.id)) return;
+      seen.add(ref.id);
+    }
+    const node = asDict(resolve(objects, ref));
+    if (!node) return;
+    const resources = resolve(objects, node.entries.Resources) ?? inherited;
+    if (nameOf(node.entries.Type) === 'Pages' || node.entries.Kids !== undefined) {
+      const kids = resolve(objects, node.entries.Kids);
+      asArray(kids).forEach((kid) => walk(kid, resources));
+    } else {
+      pages.push({ page: node, resources });
+    }
+  };
+
+  if (catalog && isDict(catalog.value)) {
+    walk(catalog.value.entries.Pages, null);
+  }
+  if (pages.length > 0) return pages;
+
+  // No usable page tree: fall back to Page objects in file order
+  for (const object of objects.values()) {
+    if (isDict(object.value) && nameOf(object.value.entries.Type) === 'Page') {
+      pages.push({ page: object.value, resources: resolve(objects, object.value.entries.Resources) });
+    }
+  }
+  return pages;
+}
+
+function resolve(objects: Map<number, PdfObject>, value: PdfValue | undefined): PdfValue {
+  let current = value ?? null;
+  for (let depth = 0; isRef(current) && depth < 10; depth++) {
+    current = objects.get(current.id)?.value ?? null;
+  }
+  return current;
+}
+
+// ---------------------------------------------------------------------------
+// Fonts
+
+function readFontMap(objects: Map<number, PdfObject>, font: PdfValue): FontMap | null {
+  const dict = asDict(font);
+  const toUnicode = dict?.entries.ToUnicode;
+  const stream = isRef(toUnicode) ? objects.get(toUnicode.id)?.stream : undefined;
+  const composite = nameOf(dict?.entries.Subtype) === 'Type0';
+  if (!stream) {
+    return composite ? { codeBytes: 2, map: new Map() } : null;
+  }
+  return parseCMap(stream.toString('latin1'), composite ? 2 : 1);
+}
+
+function parseCMap(text: string, defaultBytes: number): FontMap {
+  const map = new Map<number, string>();
+  const codespace = text.match(/begincodespacerange\s*<([0-9a-f]+)>/i);
+  const codeBytes = codespace ? Math.max(1, codespace[1].length / 2) : defaultBytes;
+
+  for (const block of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi)) {
+      map.set(parseInt(pair[1], 16), utf16Hex(pair[2]));
+    }
+  }
+
+  for (const block of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const range of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi)) {
+      const start = parseInt(range[1], 16);
+      const end = Math.min(parseInt(range[2], 16), start + 0xffff);
+      if (range[3].startsWith('[')) {
+        const targets = Array.from(range[3].matchAll(/<([0-9a-f]*)>/gi), (target) => utf16Hex(target[1]));
+        targets.forEach((target, index) => map.set(start + index, target));
+      } else {
+        const base = range[3].slice(1, -1);
+        const baseCode = parseInt(base.slice(-4) || '0', 16);
+        const prefix = utf16Hex(base.slice(0, -4));
+        for (let code = start; code <= end; code++) {
+          map.set(code, prefix + String.fromCharCode(baseCode + (code - start)));
+        }
+      }
+    }
+  }
+
+  return { codeBytes, map };
+}
+
+function utf16Hex(hex: string): string {
+  const units: number[] = [];
+  for (let index = 0; index + 4 <= hex.length; index += 4) {
+    units.push(parseInt(hex.slice(index, index + 4), 16));
+  }
+  if (hex.length % 4 === 2) units.push(parseInt(hex.slice(-2), 16));
+  return String.fromCharCode(...units);
+}
+
+function decodeString(bytes: number[], font: FontMap | null | undefined): string {
+  if (!font) {
+    return String.fromCharCode(...bytes);
+  }
+  let text = '';
+  for (let index = 0; index + font.codeBytes <= bytes.length; index += font.codeBytes) {
+    let code = 0;
+    for (let offset = 0; offset < font.codeBytes; offset++) {
+      code = (code << 8) | bytes[index + offset];
+    }
+    text += font.map.get(code) ?? (font.codeBytes === 1 ? String.fromCharCode(code) : '');
+  }
+  return text;
+}
+
+// ---------------------------------------------------------------------------
+// Content streams
+
+function readText(stream: Buffer, fonts: Map<string, FontMap | null>): string {
+  const parser = new PdfParser(stream.toString('latin1'), 0);
+  const operands: PdfValue[] = [];
+  let font: FontMap | null | undefined;
+  let text = '';
+
+  while (!parser.done()) {
+    let token: PdfValue | { operator: string };
+    try {
+      token = parser.token();
+    } catch {
+      break;
+    }
+    if (!isOperator(token)) {
+      operands.push(token);
+      continue;
+    }
+
+    switch (token.operator) {
+      case 'Tf':
+        font = fonts.get(nameOf(operands[0]) ?? '');
+        break;
+      case 'Tj':
+      case "'":
+      case '"': {
+        const value = operands[operands.length - 1];
+        if (token.operator !== 'Tj') text += '\n';
+        if (isString(value)) text += decodeString(value.bytes, font);
+        break;
+      }
+      case 'TJ': {
+        for (const item of asArray(operands[0])) {
+          if (isString(item)) text += decodeString(item.bytes, font);
+          // Large negative kerning is a word gap
+          else if (typeof item === 'number' && item < -200) text += ' ';
+        }
+        break;
+      }
+      case 'Td':
+      case 'TD':
+        text += Number(operands[1]) !== 0 ? '\n' : ' ';
+        break;
+      case 'T*':
+      case 'ET':
+        text += '\n';
+        break;
+      case 'Tm':
+        text += '\n';
+        break;
+    }
+    operands.length = 0;
+  }
+
+  return text;
+}
+
+function cleanText(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[^\S\n]+/g, ' ').replace(/\u0000/g, '').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+
+class PdfParser {
+  constructor(
+    private readonly source: string,
+    public position: number,
+  ) {}
+
+  done(): boolean {
+    this.skipWhitespace();
+    return this.position >= this.source.length;
+  }
+
+  value(): PdfValue {
+    const token = this.token();
+    if (isOperator(token)) {
+      throw new Error(`Unexpected operator ${token.operator}`);
+    }
+    return token;
+  }
+
+  token(): PdfValue | { operator: string } {
+    this.skipWhitespace();
+    const char = this.source[this.position];
+
+    if (char === '<' && this.source[this.position + 1] === '<') {
+      this.position += 2;
+      const entries: Record<string, PdfValue> = {};
+      for (;;) {
+        this.skipWhitespace();
+        if (this.source.startsWith('>>', this.position)) {
+          this.position += 2;
+          return { kind: 'dict', entries };
+        }
+        const key = this.token();
+        if (this.position >= this.source.length) throw new Error('Unterminated dictionary');
+        const value = this.value();
+        if (isName(key)) entries[key.name] = value;
+      }
+    }
+    if (char === '[') {
+      this.position++;
+      const items: PdfValue[] = [];
+      for (;;) {
+        this.skipWhitespace();
+        if (this.source[this.position] === ']') {
+          this.position++;
+          return items;
+        }
+        if (this.position >= this.source.length) throw new Error('Unterminated array');
+        items.push(this.value());
+      }
+    }
+    if (char === '(') return this.literalString();
+    if (char === '<') return this.hexString();
+    if (char === '/') {
+      const match = /\/([^\s()<>\[\]{}\/%]*)/y;
+      match.lastIndex = this.position;
+      const name = match.exec(this.source)![1];
+      this.position = match.lastIndex;
+      return { kind: 'name', name: name.replace(/#([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))) };
+    }
+
+    const number = /[+-]?(?:\d+\.?\d*|\.\d+)/y;
+    number.lastIndex = this.position;
+    const numeric = number.exec(this.source);
+    if (numeric) {
+      this.position = number.lastIndex;
+      // "12 0 R" is an indirect reference
+      const ref = /\s+(\d+)\s+R(?![A-Za-z])/y;
+      ref.lastIndex = this.position;
+      if (/^\d+$/.test(numeric[0]) && ref.exec(this.source)) {
+        this.position = ref.lastIndex;
+        return { kind: 'ref', id: Number(numeric[0]) };
+      }
+      return Number(numeric[0]);
+    }
+
+    const word = /[^\s()<>\[\]{}\/%]+/y;
+    word.lastIndex = this.position;
+    const keyword = word.exec(this.source);
+    if (!keyword) {
+      this.position++;
+      return { operator: char ?? '' };
+    }
+    this.position = word.lastIndex;
+    if (keyword[0] === 'true') return true;
+    if (keyword[0] === 'false') return false;
+    if (keyword[0] === 'null') return null;
+    if (keyword[0] === 'BI') {
+      // Inline image data is binary; skip to EI
+      const end = this.source.indexOf('EI', this.position);
+      this.position = end === -1 ? this.source.length : end + 2;
+      return { operator: 'EI' };
+    }
+    return { operator: keyword[0] };
+  }
+
+  private literalString(): PdfString {
+    const bytes: number[] = [];
+    let depth = 0;
+    this.position++;
+    while (this.position < this.source.length) {
+      const char = this.source[this.position++];
+      if (char === '\\') {
+        const next = this.source[this.position++];
+        const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+        if (next in escapes) bytes.push(escapes[next]);
+        else if (/[0-7]/.test(next)) {
+          let octal = next;
+          while (octal.length < 3 && /[0-7]/.test(this.source[this.position])) {
+            octal += this.source[this.position++];
+          }
+          bytes.push(parseInt(octal, 8) & 0xff);
+        } else if (next === '\r' || next === '\n') {
+          if (next === '\r' && this.source[this.position] === '\n') this.position++;
+        } else bytes.push(next.charCodeAt(0));
+        continue;
+      }
+      if (char === '(') depth++;
+      if (char === ')') {
+        if (depth === 0) break;
+        depth--;
+      }
+      bytes.push(char.charCodeAt(0));
+    }
+    return { kind: 'string', bytes };
+  }
+
+  private hexString(): PdfString {
+    const end = this.source.indexOf('>', this.position);
+    const hex = this.source.slice(this.position + 1, end === -1 ? undefined : end).replace(/\s+/g, '');
+    this.position = end === -1 ? this.source.length : end + 1;
+    const padded = hex.length % 2 === 1 ? `${hex}0` : hex;
+    const bytes: number[] = [];
+    for (let index = 0; index < padded.length; index += 2) {
+      bytes.push(parseInt(padded.slice(index, index + 2), 16));
+    }
+    return { kind: 'string', bytes };
+  }
+
+  private skipWhitespace(): void {
+    for (;;) {
+      const match = /[\s\0]*/y;
+      match.lastIndex = this.position;
+      match.exec(this.source);
+      this.position = match.lastIndex;
+      if (this.source[this.position] !== '%') return;
+      const newline = this.source.slice(this.position).search(/[\r\n]/);
+      this.position = newline === -1 ? this.source.length : this.position + newline;
+    }
+  }
+}
+
+function isOperator(value: unknown): value is { operator: string } {
+  return typeof value === 'object' && value !== null && 'operator' in value;
+}
+
+function isDict(value: PdfValue | undefined): value is PdfDict {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && (value as PdfDict).kind === 'dict';
+}
+
+function isRef(value: PdfValue | undefined): value is PdfRef {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && (value as PdfRef).kind === 'ref';
+}
+
+function isName(value: unknown): value is PdfName {
+  return typeof value === 'object' && value !== null && (value as PdfName).kind === 'name';
+}
+
+function isString(value: PdfValue | undefined): value is PdfString {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && (value as PdfString).kind === 'string';
+}
+
+function asDict(value: PdfValue | undefined): PdfDict | null {
+  return isDict(value) ? value : null;
+}
+
+function asArray(value: PdfValue | undefined): PdfValue[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function nameOf(value: PdfValue | undefined): string | undefined {
+  return isName(value) ? value.name : undefined;
+}
@@ -0,0 +1,421 @@
+/**
+ * Ingest - Manual and file-based kernel inputs
+ *
+ * Turns pasted copy, product CSVs, PDFs and DOCX files into
+ * `KernelSource` entries so brands without a crawlable site go through
+ * `compressKernel` unchanged. Each source gets a page-like citation URL:
+ *
+ * - pasted text: `manual:<name>`
+ * - CSV / DOCX:  `upload:<name>`
+ * - PDF:         `upload:<name>#page=<n>` (one source per page)
+ *
+ * Headings become sections, so the compressor cites `manual:<name>#<section>`
+ * the same way it cites crawled pages.
+ */
+
+import type { CrawlGuard } from '../config/validator';
+import type { KernelSource } from '../kernel/compressor';
+import { blocksToText, type ContentBlock } from '../scraper/content';
+import type { StructuredProduct } from '../scraper/metadata';
+import { classifyPage } from '../scraper/prioritize';
+import { decodeBody } from '../scraper/charset';
+import { extractDocxBlocks } from './docx';
+import { extractPdfPages } from './pdf';
+import type { PageContentType } from '../types/kernel';
+
+export type IngestKind = 'text' | 'csv' | 'pdf' | 'docx';
+
+export interface IngestDocument {
+  /** File name or label; becomes part of the citation URL */
+  name: string;
+  /** Detected from the name / MIME type when omitted */
+  kind?: IngestKind;
+  /** Text for pasted copy and CSV; bytes for any kind */
+  data: string | Uint8Array;
+  mime_type?: string;
+  /** Page kind for the compressor; inferred from the name and content when omitted */
+  content_type?: PageContentType;
+}
+
+export interface IngestOptions {
+  /** Per-document size cap in bytes */
+  maxBytes?: number;
+  /** `ScraperConfig.allow_manual_input`: pasted text, PDF and DOCX */
+  allowManualInput?: boolean;
+  /** `ScraperConfig.allow_csv_import` */
+  allowCsvImport?: boolean;
+}
+
+export type IngestErrorCode = 'unsupported_type' | 'not_allowed' | 'too_large' | 'parse_failed' | 'empty_document';
+
+export class IngestError extends Error {
+  constructor(
+    message: string,
+    public readonly document: string,
+    public readonly code: IngestErrorCode,
+  ) {
+    super(message);
+    this.name = 'IngestError';
+  }
+}
+
+export interface IngestedDocument {
+  name: string;
+  kind: IngestKind;
+  bytes: number;
+  /** Citation URLs of the sources produced */
+  sources: string[];
+}
+
+export interface IngestResult {
+  sources: KernelSource[];
+  documents: IngestedDocument[];
+  warnings: string[];
+}
+
+export const DEFAULT_INGEST_MAX_BYTES = 10 * 1024 * 1024;
+
+/** Rows kept from a CSV import */
+const MAX_CSV_ROWS = 500;
+
+const EXTENSIONS: Record<string, IngestKind> = {
+  txt: 'text',
+  md: 'text',
+  markdown: 'text',
+  csv: 'csv',
+  pdf: 'pdf',
+  docx: 'docx',
+};
+
+const MIME_TYPES: Record<string, IngestKind> = {
+  'text/plain': 'text',
+  'text/markdown': 'text',
+  'text/csv': 'csv',
+  'application/csv': 'csv',
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+};
+
+/**
+ * Ingest options from a `runtime.crawl` guard; without a guard every kind
+ * is allowed up to DEFAULT_INGEST_MAX_BYTES
+ */
+export function ingestOptionsFromGuard(guard?: CrawlGuard): IngestOptions {
+  return {
+    maxBytes: DEFAULT_INGEST_MAX_BYTES,
+    allowManualInput: guard?.allow_manual_input ?? true,
+    allowCsvImport: guard?.allow_csv_import ?? true,
+  };
+}
+
+/**
+ * Work out the document kind from its MIME type or file extension
+ */
+export function detectIngestKind(name: string, mimeType?: string): IngestKind | null {
+  const mime = mimeType?.split(';')[0].trim().toLowerCase();
+  if (mime && MIME_TYPES[mime]) return MIME_TYPES[mime];
+  const extension = name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  return extension ? EXTENSIONS[extension] ?? null : null;
+}
+
+/**
+ * Convert one document into kernel sources
+ */
+export function ingestDocument(document: IngestDocument, options: IngestOptions = {}): IngestResult {
+  const name = document.name.trim() || 'document';
+  const kind = document.kind ?? detectIngestKind(name, document.mime_type);
+  if (!kind) {
+    throw new IngestError(`Unsupported document type: ${name}`, name, 'unsupported_type');
+  }
+  if (kind === 'csv' ? options.allowCsvImport === false : options.allowManualInput === false) {
+    throw new IngestError(`${kind.toUpperCase()} input is disabled by configuration`, name, 'not_allowed');
+  }
+
+  const bytes =
+    typeof document.data === 'string' ? Buffer.byteLength(document.data) : document.data.byteLength;
+  const maxBytes = options.maxBytes ?? DEFAULT_INGEST_MAX_BYTES;
+  if (bytes > maxBytes) {
+    throw new IngestError(`${name} is larger than ${maxBytes} bytes`, name, 'too_large');
+  }
+
+  const warnings: string[] = [];
+  let sources: KernelSource[];
+  try {
+    switch (kind) {
+      case 'text':
+        sources = [textSource(name, asText(document.data))];
+        break;
+      case 'csv':
+        sources = [csvSource(name, asText(document.data), warnings)];
+        break;
+      case 'pdf':
+        sources = pdfSources(name, asBuffer(document.data), warnings);
+        break;
+      case 'docx':
+        sources = [docxSource(name, asBuffer(document.data))];
+        break;
+    }
+  } catch (error) {
+    if (error instanceof IngestError) throw error;
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new IngestError(`Could not read ${name}: ${reason}`, name, 'parse_failed');
+  }
+
+  sources = sources.filter((source) => source.content.trim().length > 0);
+  if (sources.length === 0) {
+    throw new IngestError(`${name} contains no readable text`, name, 'empty_document');
+  }
+  for (const source of sources) {
+    source.content_type = document.content_type ?? source.content_type ?? classifyPage(source.url, source.content, name);
+  }
+
+  return {
+    sources,
+    documents: [{ name, kind, bytes, sources: sources.map((source) => source.url) }],
+    warnings,
+  };
+}
+
+/**
+ * Convert several documents, keeping their order
+ */
+export function ingestDocuments(documents: IngestDocument[], options: IngestOptions = {}): IngestResult {
+  const result: IngestResult = { sources: [], documents: [], warnings: [] };
+  const used = new Set<string>();
+
+  for (const document of documents) {
+    // Keep citation URLs unique when two uploads share a name
+    const original = document.name.trim() || 'document';
+    let name = original;
+    for (let copy = 2; used.has(name); copy++) {
+      name = original.replace(/(\.[a-z0-9]+)?$/i, ` (${copy})$1`);
+    }
+    used.add(name);
+
+    const ingested = ingestDocument({ ...document, name }, options);
+    result.sources.push(...ingested.sources);
+    result.documents.push(...ingested.documents);
+    result.warnings.push(...ingested.warnings);
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Pasted text
+
+function textSource(name: string, text: string): KernelSource {
+  const blocks = markdownBlocks(text);
+  return {
+    url: `manual:${name}`,
+    content: blocksToText(blocks),
+    title: blocks.find((block) => block.type === 'heading')?.text,
+    blocks,
+  };
+}
+
+/**
+ * Markdown-ish paste: `#` headings and `-` / `*` / `1.` list items
+ */
+function markdownBlocks(text: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  const headings: Array<{ level: number; text: string }> = [];
+  let list: string[] = [];
+
+  const section = () => headings.map((heading) => heading.text);
+  const flushList = () => {
+    if (list.length > 0) {
+      blocks.push({ type: 'list', text: list.join('\n'), items: list, section: section() });
+      list = [];
+    }
+  };
+
+  for (const raw of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = raw.trim();
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+    const item = line.match(/^(?:[-*•]|\d+[.)])\s+(.+)$/);
+
+    if (item) {
+      list.push(item[1]);
+      continue;
+    }
+    flushList();
+    if (heading) {
+      const level = heading[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      blocks.push({ type: 'heading', level, text: heading[2], section: section() });
+      headings.push({ level, text: heading[2] });
+    } else if (line) {
+      // Pasted copy keeps its line breaks: one paragraph per line
+      blocks.push({ type: 'paragraph', text: line, section: section() });
+    }
+  }
+  flushList();
+  return blocks;
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+
+const CSV_COLUMNS = {
+  name: /^(?:name|product(?:[ _-]?name)?|title|item|sku[ _-]?name|plan)$/i,
+  price: /^(?:price|amount|cost|msrp|list[ _-]?price)$/i,
+  currency: /^(?:currency|currency[ _-]?code)$/i,
+  description: /^(?:description|summary|details|body|body[ _-]?html)$/i,
+  brand: /^(?:brand|vendor|manufacturer)$/i,
+};
+
+function csvSource(name: string, text: string, warnings: string[]): KernelSource {
+  const rows = parseCsv(text).filter((row) => row.some((cell) => cell.trim()));
+  if (rows.length < 2) {
+    throw new IngestError(`${name} needs a header row and at least one data row`, name, 'empty_document');
+  }
+  const [header, ...data] = rows;
+  if (data.length > MAX_CSV_ROWS) {
+    warnings.push(`${name}: kept the first ${MAX_CSV_ROWS} of ${data.length} rows`);
+  }
+  const kept = data.slice(0, MAX_CSV_ROWS);
+
+  const column = (pattern: RegExp) => header.findIndex((cell) => pattern.test(cell.trim()));
+  const columns = {
+    name: column(CSV_COLUMNS.name),
+    price: column(CSV_COLUMNS.price),
+    currency: column(CSV_COLUMNS.currency),
+    description: column(CSV_COLUMNS.description),
+    brand: column(CSV_COLUMNS.brand),
+  };
+  if (columns.name === -1) {
+    warnings.push(`${name}: no product name column found; rows kept as text only`);
+  }
+
+  const cell = (row: string[], index: number) => (index === -1 ? undefined : row[index]?.trim() || undefined);
+  const products: StructuredProduct[] = [];
+  for (const row of kept) {
+    const productName = cell(row, columns.name);
+    if (!productName) continue;
+    const price = cell(row, columns.price);
+    const parsed = price?.match(/^([$€£])?\s*([\d.,]+)\s*([A-Z]{3})?$/);
+    products.push({
+      name: productName,
+      description: stripMarkup(cell(row, columns.description)),
+      brand: cell(row, columns.brand),
+      offers: price
+        ? [{
+            price: parsed ? parsed[2] : price,
+            currency: cell(row, columns.currency) ?? parsed?.[3] ?? (parsed?.[1] ? CURRENCY_SYMBOLS[parsed[1]] : undefined),
+          }]
+        : [],
+    });
+  }
+
+  const tableRows = [header, ...kept].map((row) => row.map((value) => stripMarkup(value.trim()) ?? ''));
+  const blocks: ContentBlock[] = [{
+    type: 'table',
+    text: tableRows.map((row) => row.join(' | ')).join('\n'),
+    rows: tableRows,
+    section: [],
+  }];
+
+  return {
+    url: `upload:${name}`,
+    content: blocksToText(blocks),
+    content_type: 'products',
+    blocks,
+    structured_data: products.length > 0
+      ? { types: ['Product'], products, ratings: [], reviews: [] }
+      : undefined,
+  };
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP' };
+
+/**
+ * RFC 4180: quoted fields, doubled quotes, newlines inside quotes. The
+ * delimiter is sniffed from the header line (comma, semicolon or tab).
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const headerLine = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best,
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function stripMarkup(value: string | undefined): string | undefined {
+  const text = value?.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+// ---------------------------------------------------------------------------
+// PDF / DOCX
+
+function pdfSources(name: string, data: Buffer, warnings: string[]): KernelSource[] {
+  const pages = extractPdfPages(data);
+  const empty = pages.filter((page) => !page.trim()).length;
+  if (empty > 0 && empty < pages.length) {
+    warnings.push(`${name}: ${empty} of ${pages.length} pages have no extractable text (scanned images?)`);
+  }
+  return pages.map((content, index) => ({
+    url: `upload:${name}#page=${index + 1}`,
+    content,
+    title: index === 0 ? content.split('\n')[0] : undefined,
+  }));
+}
+
+function docxSource(name: string, data: Buffer): KernelSource {
+  const blocks = extractDocxBlocks(data);
+  return {
+    url: `upload:${name}`,
+    content: blocksToText(blocks),
+    title: blocks.find((block) => block.type === 'heading')?.text,
+    blocks,
+  };
+}
+
+// ---------------------------------------------------------------------------
+
+function asText(data: string | Uint8Array): string {
+  return typeof data === 'string' ? data : decodeBody(data, null).text;
+}
+
+function asBuffer(data: string | Uint8Array): Buffer {
+  return typeof data === 'string' ? Buffer.from(data, 'latin1') : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
@@ -0,0 +1,84 @@
+/**
+ * ZIP Reader - Just enough of the format to open Office documents
+ *
+ * Reads the central directory and inflates individual entries (stored or
+ * deflated). No ZIP64, encryption or multi-disk support.
+ */
+
+import { inflateRawSync } from 'node:zlib';
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+export function readZipEntries(archive: Buffer): ZipEntry[] {
+  // The end record sits in the last 22 bytes plus an optional comment
+  let end = -1;
+  for (let index = archive.length - 22; index >= Math.max(0, archive.length - 22 - 0xffff); index--) {
+    if (archive.readUInt32LE(index) === END_OF_CENTRAL_DIRECTORY) {
+      end = index;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a ZIP archive (no end of central directory)');
+  }
+
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let index = 0; index < count; index++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    entries.push({
+      method: archive.readUInt16LE(offset + 10),
+      compressedSize: archive.readUInt32LE(offset + 20),
+      size: archive.readUInt32LE(offset + 24),
+      offset: archive.readUInt32LE(offset + 42),
+      name: archive.toString('utf-8', offset + 46, offset + 46 + nameLength),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Read one entry; returns null when it does not exist
+ */
+export function readZipFile(archive: Buffer, name: string, maxBytes: number): Buffer | null {
+  const entry = readZipEntries(archive).find((candidate) => candidate.name === name);
+  if (!entry) return null;
+
+  if (archive.readUInt32LE(entry.offset) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt ZIP entry: ${name}`);
+  }
+  const nameLength = archive.readUInt16LE(entry.offset + 26);
+  const extraLength = archive.readUInt16LE(entry.offset + 28);
+  const start = entry.offset + 30 + nameLength + extraLength;
+  const data = archive.subarray(start, start + entry.compressedSize);
+
+  if (entry.size > maxBytes) {
+    throw new Error(`ZIP entry ${name} is larger than ${maxBytes} bytes`);
+  }
+  if (entry.method === 0) {
+    return Buffer.from(data);
+  }
+  if (entry.method === 8) {
+    return inflateRawSync(data, { maxOutputLength: maxBytes });
+  }
+  throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+}
@@ -0,0 +1,210 @@
+/**
+ * Kernel Compressor Tests
+ *
+ * Page-type preference, structured data over regex matches and
+ * compression strategies
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { compressKernel, kernelForPrompt } from '../compressor';
+
+describe('compressKernel', () => {
+  it('should prefer structured products, tiers and ratings and cite their page', () => {
+    const kernel = compressKernel({
+      domain: 'acme.example.com',
+      sources: [
+        {
+          url: 'https://acme.example.com/',
+          content: 'Our platform helps teams ship.\nPlans start at $9 per month.',
+          content_type: 'homepage',
+        },
+        {
+          url: 'https://acme.example.com/products/widget-pro',
+          content: 'Widget Pro',
+          content_type: 'products',
+          structured_data: {
+            types: ['Product'],
+            products: [
+              { name: 'Widget Pro', offers: [{ name: 'Annual', price: '199', currency: 'USD' }] },
+            ],
+            ratings: [{ item: 'Widget Pro', value: 4.8, best: 5, count: 1240 }],
+            reviews: [],
+          },
+        },
+      ],
+    });
+
+    assert.strictEqual(kernel.products[0], 'Widget Pro');
+    assert.strictEqual(kernel.pricing_cues.tiers[0], 'Widget Pro (Annual): USD 199');
+    assert.strictEqual(kernel.proof_points.metrics[0], 'Widget Pro rated 4.8/5 from 1,240 ratings');
+    assert.strictEqual(kernel.citations.products, 'https://acme.example.com/products/widget-pro');
+    assert.strictEqual(kernel.citations.pricing_cues, 'https://acme.example.com/products/widget-pro');
+  });
+
+  it('should fall back to regex matches without structured data', () => {
+    const kernel = compressKernel({
+      domain: 'acme.example.com',
+      sources: [
+        { url: 'https://acme.example.com/', content: 'Pro plan starting at $29 per month' },
+      ],
+    });
+
+    assert.deepStrictEqual(kernel.pricing_cues.tiers, ['Pro plan starting at $29 per month']);
+    assert.strictEqual(kernel.citations.pricing_cues, 'https://acme.example.com/');
+  });
+
+  it('should cite the section a line came from when blocks are supplied', () => {
+    const kernel = compressKernel({
+      domain: 'acme.example.com',
+      sources: [
+        {
+          url: 'https://acme.example.com/',
+          content: 'Plans\nTeam plan $49 per month',
+          blocks: [
+            { type: 'heading', level: 2, text: 'Plans & Pricing', section: [] },
+            { type: 'list', text: 'Team plan $49 per month', items: ['Team plan $49 per month'], section: ['Plans & Pricing'] },
+          ],
+        },
+      ],
+    });
+
+    assert.deepStrictEqual(kernel.pricing_cues.tiers, ['Team plan $49 per month']);
+    assert.strictEqual(kernel.citations.pricing_cues, 'https://acme.example.com/#plans-pricing');
+  });
+
+  it('should record a claim with quote and offsets for each extracted item', () => {
+    const kernel = compressKernel({
+      domain: 'acme.example.com',
+      sources: [
+        {
+          url: 'https://acme.example.com/customers',
+          content: 'Loved by teams.\nShips 10x faster.\nHandles 5k deploys daily.',
+          content_type: 'other',
+        },
+        {
+          url: 'https://acme.example.com/products/widget-pro',
+          content: 'Widget Pro',
+          content_type: 'products',
+          structured_data: {
+            types: ['Product'],
+            products: [{ name: 'Widget Pro', offers: [{ price: '199', currency: 'USD' }] }],
+            ratings: [],
+            reviews: [],
+          },
+        },
+      ],
+    });
+
+    assert.deepStrictEqual(kernel.proof_points.metrics, ['Ships 10x faster.', 'Handles 5k deploys daily.']);
+    assert.deepStrictEqual(kernel.claims?.['proof_points.metrics.1'], {
+      url: 'https://acme.example.com/customers',
+      quote: 'Handles 5k deploys daily.',
+      start: 34,
+      end: 59,
+    });
+    assert.deepStrictEqual(kernel.claims?.['products.0'], {
+      url: 'https://acme.example.com/products/widget-pro',
+      quote: 'Widget Pro',
+      start: 0,
+      end: 10,
+    });
+    assert.deepStrictEqual(kernel.claims?.['pricing_cues.tiers.0'], {
+      url: 'https://acme.example.com/products/widget-pro',
+      quote: 'Widget Pro: USD 199',
+    });
+    assert.ok(!JSON.stringify(kernelForPrompt(kernel)).includes('"claims"'));
+  });
+
+  it('should build visual_identity from the homepage first', () => {
+    const kernel = compressKernel({
+      domain: 'acme.example.com',
+      sources: [
+        {
+          url: 'https://acme.example.com/pricing',
+          content: 'Pro plan $29 per month',
+          content_type: 'pricing',
+          visual: {
+            logos: [{ url: 'https://acme.example.com/pricing-badge.png', source: 'header_img', score: 70 }],
+            colors: [{ hex: '#0b5fff', weight: 2 }],
+            fonts: [],
+            stylesheets: [],
+          },
+        },
+        {
+          url: 'https://acme.example.com/',
+          content: 'Acme helps teams ship.',
+          content_type: 'homepage',
+          visual: {
+            logos: [{ url: 'https://acme.example.com/logo.svg', source: 'logo_img', score: 90 }],
+            colors: [{ hex: '#ff5a1f', name: 'brand-primary', weight: 12 }],
+            fonts: [{ family: 'Inter', weight: 4 }],
+            stylesheets: [],
+          },
+        },
+      ],
+    });
+
+    assert.deepStrictEqual(kernel.visual_identity, {
+      logos: [
+        { url: 'https://acme.example.com/logo.svg', source: 'logo_img' },
+        { url: 'https://acme.example.com/pricing-badge.png', source: 'header_img' },
+      ],
+      colors: [{ hex: '#ff5a1f', name: 'brand-primary' }, { hex: '#0b5fff' }],
+      fonts: ['Inter'],
+    });
+    assert.strictEqual(kernel.citations.visual_identity, 'https://acme.example.com/');
+  });
+
+  const catalog = {
+    domain: 'acme.example.com',
+    sources: [
+      {
+        url: 'https://acme.example.com/products',
+        content: Array.from(
+          { length: 8 },
+          (_, index) =>
+            `Widget ${index + 1} platform helps teams ship faster. It syncs every workspace overnight and keeps an audit trail.`,
+        ).join('\n'),
+        content_type: 'products' as const,
+      },
+      {
+        url: 'https://acme.example.com/customers',
+        content: 'Trusted by 2,000 teams.\nUsed by 40% of the Fortune 500.\nSOC 2 certified.\nISO 27001 certified.',
+        content_type: 'other' as const,
+      },
+    ],
+  };
+
+  it('should keep fewer, shorter items and drop citations when aggressive', () => {
+    const balanced = compressKernel(catalog);
+    const aggressive = compressKernel(catalog, { strategy: 'aggressive' });
+    const minimal = compressKernel(catalog, { strategy: 'minimal', max_kb: 8 });
+
+    assert.strictEqual(balanced.products.length, 6);
+    assert.strictEqual(minimal.products.length, 8);
+    assert.strictEqual(aggressive.products.length, 3);
+    assert.strictEqual(aggressive.products[0], 'Widget 1 platform helps teams ship faster.');
+    assert.deepStrictEqual(aggressive.citations, {});
+    assert.ok(Object.keys(balanced.citations).length > 0);
+    assert.deepStrictEqual(aggressive.compression, {
+      strategy: 'aggressive',
+      max_kb: 2,
+      include_citations: false,
+      truncated_fields: [],
+    });
+    assert.ok(
+      Object.keys(compressKernel(catalog, { strategy: 'aggressive', include_citations: true }).citations).length > 0,
+    );
+  });
+
+  it('should trim to max_kb and report the truncated fields', () => {
+    const kernel = compressKernel(catalog, { strategy: 'minimal', max_kb: 1 });
+
+    assert.ok(Buffer.byteLength(JSON.stringify({ ...kernelForPrompt(kernel), compressed_kb: 0 })) <= 1024);
+    assert.ok(kernel.products.length < 8);
+    assert.ok(kernel.compression?.truncated_fields.includes('products'));
+    assert.deepStrictEqual(compressKernel(catalog, { strategy: 'minimal', max_kb: 8 }).compression?.truncated_fields, []);
+    assert.throws(() => compressKernel(catalog, { max_kb: 0 }), /max_kb/);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Evidence Key Tests
+ *
+ * Field paths, claim IDs and aliases resolved against a kernel, and
+ * figures or customer names checked against it
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { compressKernel } from '../compressor';
+import { findUnsupportedClaims, resolveEvidenceKey } from '../evidence';
+
+const kernel = compressKernel({
+  domain: 'acme.example.com',
+  sources: [
+    {
+      url: 'https://acme.example.com/',
+      content: 'Built for growing marketing teams.\nShips 10x faster.\nSOC 2 certified.',
+      content_type: 'homepage',
+    },
+  ],
+});
+
+describe('resolveEvidenceKey', () => {
+  it('should resolve claim IDs to the item and its source', () => {
+    const resolved = resolveEvidenceKey(kernel, 'proof_points.metrics.0');
+    assert.strictEqual(resolved?.field, 'proof_points.metrics');
+    assert.strictEqual(resolved?.value, 'Ships 10x faster.');
+    assert.strictEqual(resolved?.claim?.url, 'https://acme.example.com/');
+    assert.strictEqual(resolved?.claim?.start, 35);
+  });
+
+  it('should expand aliases and accept whole fields', () => {
+    assert.strictEqual(resolveEvidenceKey(kernel, 'proof.certifications')?.key, 'proof_points.certifications');
+    assert.strictEqual(resolveEvidenceKey(kernel, 'audience')?.value, 'Built for growing marketing teams.');
+  });
+
+  it('should reject unknown, out-of-range, empty and bookkeeping keys', () => {
+    assert.strictEqual(resolveEvidenceKey(kernel, 'mock.evidence.1'), null);
+    assert.strictEqual(resolveEvidenceKey(kernel, 'proof_points.metrics.7'), null);
+    assert.strictEqual(resolveEvidenceKey(kernel, 'competitors_implied'), null);
+    assert.strictEqual(resolveEvidenceKey(kernel, 'content_hash'), null);
+  });
+});
+
+describe('findUnsupportedClaims', () => {
+  it('should match figures by value and ignore small numbers and years', () => {
+    const withCustomers = compressKernel({
+      domain: 'acme.example.com',
+      sources: [
+        {
+          url: 'https://acme.example.com/customers',
+          content: 'Companies using Acme: 2,000, including Globex.\nPlans from $49 per month.',
+          content_type: 'other',
+        },
+      ],
+    });
+
+    assert.deepStrictEqual(
+      findUnsupportedClaims('Join 2k teams like Globex on the $49 plan, set up in 3 steps since 2019.', withCustomers),
+      [],
+    );
+    assert.deepStrictEqual(
+      findUnsupportedClaims('Customers like Globex and Umbrella Corp save $120 with 3x faster reviews.', withCustomers),
+      [
+        { kind: 'number', text: '$120' },
+        { kind: 'number', text: '3x' },
+        { kind: 'customer', text: 'Umbrella Corp' },
+      ],
+    );
+  });
+
+  it('should not treat durations, times, ordinals or plain counts as claims', () => {
+    assert.deepStrictEqual(
+      findUnsupportedClaims(
+        '24/7 support for 12 months, join 100+ teams. Onboarding takes 30 minutes, demos at 10am or 14:30, 21st release.',
+        kernel,
+      ),
+      [],
+    );
+  });
+
+  it('should check counts of customers and users as claims', () => {
+    assert.deepStrictEqual(findUnsupportedClaims('Join 500+ happy customers and 12,000 users.', kernel), [
+      { kind: 'number', text: '500+' },
+      { kind: 'number', text: '12,000' },
+    ]);
+  });
+});
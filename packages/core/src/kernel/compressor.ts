@@ -1,8 +1,35 @@
 import { createHash } from 'node:crypto';
+import type { CompressionOptions, PageContentType } from '../types/kernel';
+import type { KernelGuard } from '../config/validator';
+import type { StructuredData } from '../scraper/metadata';
+import type { ContentBlock } from '../scraper/content';
+import { buildVisualIdentity, type VisualAssets, type VisualIdentity } from '../scraper/visual';
 
 export interface KernelSource {
   url: string;
   content: string;
+  /**
+   * Page kind from the crawler; extractors read matching pages first
+   */
+  content_type?: PageContentType;
+  title?: string;
+  meta_description?: string;
+  h1?: string;
+  /**
+   * schema.org data from JSON-LD; preferred over regex matches for
+   * products, pricing tiers and proof points
+   */
+  structured_data?: StructuredData;
+  /**
+   * Section-aware blocks from the crawler; when present, lines come from
+   * the blocks and citations point at `url#section`
+   */
+  blocks?: ContentBlock[];
+  /**
+   * Logo candidates, colours and fonts from the crawler; folded into
+   * `visual_identity`
+   */
+  visual?: VisualAssets;
 }
 
 export interface KernelInput {
@@ -27,12 +54,136 @@ export interface KernelPayload {
   };
   competitors_implied: string[];
   unique_angle: string;
+  /**
+   * Logo, palette and fonts; absent when no source carried visual assets
+   */
+  visual_identity?: VisualIdentity;
   compressed_kb: number;
   citations: Record<string, string>;
+  /**
+   * Source of each extracted item, keyed by claim ID (`products.0`,
+   * `proof_points.metrics.2`, `pricing_cues.tiers.1`); left out of
+   * prompts and of `max_kb`
+   */
+  claims?: Record<string, KernelClaim>;
+  /**
+   * Strategy and size limit used, and the fields cut to fit `max_kb`
+   */
+  compression?: KernelCompression;
   created_at: string;
 }
 
-const MAX_KERNEL_BYTES = 2 * 1024;
+export interface KernelClaim {
+  url: string;
+  /**
+   * The source line the item was taken from, capped at 160 characters
+   */
+  quote: string;
+  /**
+   * Character offsets of the quoted line in the source content; absent
+   * when the item came from structured data that the page text doesn't
+   * repeat
+   */
+  start?: number;
+  end?: number;
+}
+
+/** Kernel lists whose items get a claim each */
+export const CLAIM_FIELDS = [
+  'products',
+  'proof_points.customers',
+  'proof_points.metrics',
+  'proof_points.certifications',
+  'pricing_cues.tiers',
+] as const;
+
+const MAX_QUOTE_CHARS = 160;
+
+type ClaimLedger = Map<string, KernelClaim>;
+
+export type CompressionStrategy = CompressionOptions['strategy'];
+
+export interface KernelCompression {
+  strategy: CompressionStrategy;
+  max_kb: number;
+  include_citations: boolean;
+  truncated_fields: string[];
+}
+
+export const DEFAULT_COMPRESSION_OPTIONS: CompressionOptions = {
+  max_kb: 2,
+  strategy: 'balanced',
+  include_citations: true,
+};
+
+/**
+ * Items kept per field and sentence trimming for each strategy;
+ * `minimal` compresses least, `aggressive` most
+ */
+interface StrategyProfile {
+  products: number;
+  tone: number;
+  customers: number;
+  metrics: number;
+  certifications: number;
+  tiers: number;
+  competitors: number;
+  logos: number;
+  colors: number;
+  fonts: number;
+  /** Longest sentence kept, in characters */
+  sentenceChars: number;
+  /** Keep only the first sentence of a multi-sentence line */
+  firstSentence: boolean;
+  /** Citations are kept unless `include_citations` says otherwise */
+  citations: boolean;
+}
+
+const STRATEGY_PROFILES: Record<CompressionStrategy, StrategyProfile> = {
+  minimal: {
+    products: 8, tone: 6, customers: 6, metrics: 6, certifications: 5, tiers: 6, competitors: 5,
+    logos: 3, colors: 6, fonts: 3, sentenceChars: 320, firstSentence: false, citations: true,
+  },
+  balanced: {
+    products: 6, tone: 5, customers: 5, metrics: 5, certifications: 5, tiers: 5, competitors: 5,
+    logos: 3, colors: 6, fonts: 3, sentenceChars: 200, firstSentence: false, citations: true,
+  },
+  aggressive: {
+    products: 3, tone: 3, customers: 2, metrics: 2, certifications: 2, tiers: 3, competitors: 2,
+    logos: 1, colors: 3, fonts: 1, sentenceChars: 100, firstSentence: true, citations: false,
+  },
+};
+
+/**
+ * Fill in defaults; `include_citations` follows the strategy when unset
+ */
+export function resolveCompressionOptions(options: Partial<CompressionOptions> = {}): CompressionOptions {
+  const strategy = options.strategy ?? DEFAULT_COMPRESSION_OPTIONS.strategy;
+  const profile = STRATEGY_PROFILES[strategy];
+  if (!profile) {
+    throw new Error(`Unknown compression strategy "${strategy}".`);
+  }
+  const maxKb = options.max_kb ?? DEFAULT_COMPRESSION_OPTIONS.max_kb;
+  if (!(maxKb > 0)) {
+    throw new Error('max_kb must be a positive number.');
+  }
+  return {
+    max_kb: maxKb,
+    strategy,
+    include_citations: options.include_citations ?? profile.citations,
+  };
+}
+
+/**
+ * Convert a `runtime.kernel` guard from config into compression options
+ */
+export function compressionOptionsFromGuard(guard: KernelGuard): Partial<CompressionOptions> {
+  return {
+    max_kb: guard.max_kb,
+    strategy: guard.compression_strategy,
+    ...(guard.include_citations !== undefined ? { include_citations: guard.include_citations } : {}),
+  };
+}
 
 const PRODUCT_PATTERNS = [
   /plans?:/i,
@@ -58,58 +209,159 @@ const CUSTOMER_PATTERN =
   /\b(?:customers|clients|teams|companies)\b.*?\b\d{2,}\b/i;
 const COMPETITOR_PATTERN = /\b(?:vs\.?|alternatives?|compared to)\b/i;
 
-export function compressKernel(input: KernelInput): KernelPayload {
+export function compressKernel(
+  input: KernelInput,
+  options: Partial<CompressionOptions> = {},
+): KernelPayload {
   if (input.sources.length === 0) {
     throw new Error('Kernel compression requires at least one source.');
   }
 
+  const resolved = resolveCompressionOptions(options);
+  const profile = STRATEGY_PROFILES[resolved.strategy];
+
   const citations: Record<string, string> = {};
+  const ledger: ClaimLedger = new Map();
   const aggregated = aggregateContent(input.sources);
   const hash = createHash('sha256');
   input.sources.forEach((source) => hash.update(source.content));
   const contentHash = hash.digest('hex');
 
-  const products = extractSections(
-    aggregated,
-    PRODUCT_PATTERNS,
+  // Structured data wins over regex guesses
+  const structured = collectStructured(input.sources, ledger);
+
+  const products = preferStructured(
+    structured.products,
+    extractSections(
+      preferPages(aggregated, ['products', 'homepage']),
+      PRODUCT_PATTERNS,
+      'products',
+      citations,
+      ledger,
+      profile.products,
+    ),
+    profile.products,
     'products',
     citations,
   );
-  const pricingCues = extractPricing(aggregated, citations);
-  const tone = extractTone(aggregated, citations);
-  const audience = extractAudience(aggregated, citations);
-  const proofPoints = extractProofPoints(aggregated, citations);
-  const competitors = extractCompetitors(aggregated, citations);
+  const pricingCues = extractPricing(preferPages(aggregated, ['pricing']), citations, ledger, profile.tiers);
+  const tone = extractTone(aggregated, citations, profile.tone);
+  const audience = extractAudience(preferPages(aggregated, ['homepage', 'about']), citations);
+  const proofPoints = extractProofPoints(
+    preferPages(aggregated, ['homepage']),
+    citations,
+    ledger,
+    profile,
+  );
+
+  pricingCues.tiers = preferStructured(structured.tiers, pricingCues.tiers, profile.tiers, 'pricing_cues', citations);
+  proofPoints.metrics = preferStructured(
+    structured.metrics,
+    proofPoints.metrics,
+    profile.metrics,
+    'proof_points.metrics',
+    citations,
+  );
+  proofPoints.customers = preferStructured(
+    structured.customers,
+    proofPoints.customers,
+    profile.customers,
+    'proof_points.customers',
+    citations,
+  );
+  const competitors = extractCompetitors(aggregated, citations, profile.competitors);
   const uniqueAngle = deriveUniqueAngle(
-    aggregated,
+    preferPages(aggregated, ['homepage', 'about']),
     products,
     proofPoints,
     citations,
   );
 
+  const visualIdentity = extractVisualIdentity(input.sources, citations);
+  const trim = (text: string) => trimSentence(text, profile);
+  const trimAll = (items: string[]) => Array.from(new Set(items.map(trim)));
+
+  // Claim IDs follow the trimmed, deduplicated lists
+  const claims: Record<string, KernelClaim> = {};
+  const claimed = (field: (typeof CLAIM_FIELDS)[number], items: string[]) => {
+    const kept: string[] = [];
+    for (const item of items) {
+      const value = trim(item);
+      if (kept.includes(value)) continue;
+      const claim = ledger.get(item);
+      if (claim) claims[`${field}.${kept.length}`] = claim;
+      kept.push(value);
+    }
+    return kept;
+  };
+
   let kernel: KernelPayload = {
     domain: input.domain,
     content_hash: contentHash,
-    products,
+    products: claimed('products', products),
     tone,
-    audience,
-    proof_points: proofPoints,
-    pricing_cues: pricingCues,
-    competitors_implied: competitors,
-    unique_angle: uniqueAngle,
+    audience: trim(audience),
+    proof_points: {
+      customers: claimed('proof_points.customers', proofPoints.customers),
+      metrics: claimed('proof_points.metrics', proofPoints.metrics),
+      certifications: claimed('proof_points.certifications', proofPoints.certifications),
+    },
+    pricing_cues: {
+      tiers: claimed('pricing_cues.tiers', pricingCues.tiers),
+      positioning: trim(pricingCues.positioning),
+    },
+    competitors_implied: trimAll(competitors),
+    unique_angle: trim(uniqueAngle),
+    ...(visualIdentity
+      ? {
+          visual_identity: {
+            logos: visualIdentity.logos.slice(0, profile.logos),
+            colors: visualIdentity.colors.slice(0, profile.colors),
+            fonts: visualIdentity.fonts.slice(0, profile.fonts),
+          },
+        }
+      : {}),
     compressed_kb: 0,
-    citations,
+    citations: resolved.include_citations ? citations : {},
+    ...(resolved.include_citations ? { claims } : {}),
+    compression: {
+      strategy: resolved.strategy,
+      max_kb: resolved.max_kb,
+      include_citations: resolved.include_citations,
+      truncated_fields: [],
+    },
     created_at: new Date().toISOString(),
   };
 
-  kernel = enforceSizeLimit(kernel);
+  kernel = fitToSize(kernel, Math.floor(resolved.max_kb * 1024));
 
-  const bytes = Buffer.byteLength(JSON.stringify(kernel), 'utf-8');
-  kernel.compressed_kb = Number((bytes / 1024).toFixed(3));
+  kernel.compressed_kb = Number((promptBytes(kernel) / 1024).toFixed(3));
 
   return kernel;
 }
 
+/**
+ * The kernel as sent to the model: everything except `claims`
+ */
+export function kernelForPrompt(kernel: KernelPayload): Omit<KernelPayload, 'claims'> {
+  const { claims: _claims, ...rest } = kernel;
+  return rest;
+}
+
+function promptBytes(kernel: KernelPayload): number {
+  return Buffer.byteLength(JSON.stringify(kernelForPrompt(kernel)), 'utf-8');
+}
+
+function recordClaim(ledger: ClaimLedger, value: string, url: string, content: string, quote: string): void {
+  if (!value || ledger.has(value)) return;
+  const start = content.indexOf(quote);
+  ledger.set(value, {
+    url,
+    quote: quote.length > MAX_QUOTE_CHARS ? `${quote.slice(0, MAX_QUOTE_CHARS - 1)}…` : quote,
+    ...(start >= 0 ? { start, end: start + quote.length } : {}),
+  });
+}
+
 export interface KernelRecord {
   domain: string;
   content_hash: string;
@@ -120,11 +372,167 @@ export interface KernelStore {
   save(record: KernelRecord): Promise<void>;
 }
 
+/**
+ * Homepage assets first: its header logo and stylesheet define the brand
+ */
+function extractVisualIdentity(
+  sources: KernelSource[],
+  citations: Record<string, string>,
+): VisualIdentity | null {
+  const withVisual = sources
+    .filter((source) => source.visual)
+    .sort((a, b) => Number(b.content_type === 'homepage') - Number(a.content_type === 'homepage'));
+  const identity = buildVisualIdentity(withVisual.map((source) => source.visual!));
+  if (identity) {
+    citations.visual_identity = withVisual[0].url;
+  }
+  return identity;
+}
+
 function aggregateContent(sources: KernelSource[]) {
-  return sources.map((source) => ({
-    url: source.url,
-    lines: splitLines(source.content),
-  }));
+  return sources.map((source) => {
+    const sections = new Map<string, string>();
+    const lines = source.blocks ? blockLines(source.blocks, sections) : splitLines(source.content);
+    return {
+      url: source.url,
+      content: source.content,
+      contentType: source.content_type ?? 'other',
+      lines,
+      sections,
+    };
+  });
+}
+
+/**
+ * One line per block (list items and table rows separately), recording
+ * the innermost heading each line sits under
+ */
+function blockLines(blocks: ContentBlock[], sections: Map<string, string>): string[] {
+  const lines: string[] = [];
+  for (const block of blocks) {
+    const blockLines =
+      block.type === 'list'
+        ? block.items ?? []
+        : block.type === 'table'
+          ? (block.rows ?? []).map((row) => row.join(' | '))
+          : [block.text];
+    const heading = block.type === 'heading' ? block.text : block.section[block.section.length - 1];
+    for (const line of blockLines.map((value) => value.trim()).filter(Boolean)) {
+      lines.push(line);
+      if (heading && !sections.has(line)) sections.set(line, heading);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Citation target for a line: the page, plus its section when known
+ */
+function cite(entry: ReturnType<typeof aggregateContent>[number], line: string): string {
+  const section = entry.sections.get(line);
+  const slug = section ? slugify(section) : '';
+  return slug ? `${entry.url}#${slug}` : entry.url;
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 60);
+}
+
+/**
+ * Reorder sources so the given page kinds come first (stable otherwise)
+ */
+function preferPages(
+  aggregated: ReturnType<typeof aggregateContent>,
+  preferred: PageContentType[],
+): ReturnType<typeof aggregateContent> {
+  const rank = (type: PageContentType) => {
+    const index = preferred.indexOf(type);
+    return index === -1 ? preferred.length : index;
+  };
+  return aggregated
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => rank(a.entry.contentType) - rank(b.entry.contentType) || a.index - b.index)
+    .map(({ entry }) => entry);
+}
+
+interface StructuredValues {
+  values: string[];
+  url?: string;
+}
+
+/**
+ * Pull product names, offer tiers, ratings and reviews from JSON-LD,
+ * product and pricing pages first
+ */
+function collectStructured(sources: KernelSource[], ledger: ClaimLedger) {
+  const products: StructuredValues = { values: [] };
+  const tiers: StructuredValues = { values: [] };
+  const metrics: StructuredValues = { values: [] };
+  const customers: StructuredValues = { values: [] };
+  const ordered = preferPages(aggregateContent(sources), ['pricing', 'products', 'homepage']);
+  for (const { url, content } of ordered) {
+    const data = sources.find((source) => source.url === url)?.structured_data;
+    if (!data) continue;
+
+    const add = (target: StructuredValues, value: string, quote = value) => {
+      if (!value || target.values.includes(value)) return;
+      target.values.push(value);
+      target.url ??= url;
+      recordClaim(ledger, value, url, content, quote);
+    };
+
+    for (const product of data.products) {
+      add(products, product.name);
+      for (const offer of product.offers) {
+        add(tiers, formatOffer(product.name, offer));
+      }
+    }
+    for (const rating of data.ratings) {
+      add(metrics, formatRating(rating));
+    }
+    for (const review of data.reviews) {
+      add(customers, `"${review.body}"${review.author ? ` — ${review.author}` : ''}`, review.body);
+    }
+  }
+
+  return { products, tiers, metrics, customers };
+}
+
+function formatOffer(
+  productName: string,
+  offer: StructuredData['products'][number]['offers'][number],
+): string {
+  const label = offer.name && offer.name !== productName ? `${productName} (${offer.name})` : productName;
+  const price = offer.high_price ? `${offer.price}–${offer.high_price}` : offer.price;
+  return `${label}: ${offer.currency ? `${offer.currency} ` : ''}${price}`;
+}
+
+function formatRating(rating: StructuredData['ratings'][number]): string {
+  const scale = rating.best ? `/${rating.best}` : '/5';
+  const count = rating.count ? ` from ${rating.count.toLocaleString('en-US')} ratings` : '';
+  return `${rating.item ? `${rating.item} rated` : 'Rated'} ${rating.value}${scale}${count}`;
+}
+
+/**
+ * Structured values first, regex matches after; cite the structured page
+ * when it contributed
+ */
+function preferStructured(
+  structured: StructuredValues,
+  extracted: string[],
+  limit: number,
+  citationKey: string,
+  citations: Record<string, string>,
+): string[] {
+  if (structured.values.length === 0) return extracted;
+  if (structured.url) citations[citationKey] = structured.url;
+  return Array.from(new Set([...structured.values, ...extracted])).slice(0, limit);
 }
 
 function splitLines(content: string): string[] {
@@ -139,24 +547,30 @@ function extractSections(
   patterns: RegExp[],
   citationKey: string,
   citations: Record<string, string>,
+  ledger: ClaimLedger,
+  limit: number,
 ): string[] {
   const hits = new Set<string>();
   for (const entry of aggregated) {
     for (const line of entry.lines) {
       if (patterns.some((pattern) => pattern.test(line))) {
-        hits.add(normalizeSentence(line));
-        citations[citationKey] = entry.url;
+        const value = normalizeSentence(line);
+        hits.add(value);
+        citations[citationKey] = cite(entry, line);
+        recordClaim(ledger, value, cite(entry, line), entry.content, line);
       }
-      if (hits.size >= 6) break;
+      if (hits.size >= limit) break;
     }
-    if (hits.size >= 6) break;
+    if (hits.size >= limit) break;
   }
-  return Array.from(hits).slice(0, 6);
+  return Array.from(hits).slice(0, limit);
 }
 
 function extractPricing(
   aggregated: ReturnType<typeof aggregateContent>,
   citations: Record<string, string>,
+  ledger: ClaimLedger,
+  limit: number,
 ) {
   const tiers = new Set<string>();
   let positioning = '';
@@ -164,19 +578,21 @@ function extractPricing(
   for (const entry of aggregated) {
     for (const line of entry.lines) {
       if (PRICING_PATTERNS.some((pattern) => pattern.test(line))) {
-        tiers.add(normalizeSentence(line));
-        citations['pricing_cues'] = entry.url;
+        const value = normalizeSentence(line);
+        tiers.add(value);
+        citations['pricing_cues'] = cite(entry, line);
+        recordClaim(ledger, value, cite(entry, line), entry.content, line);
       }
       if (!positioning && /(?:for|designed for)\s+(?:small|mid|enterprise)/i.test(line)) {
         positioning = normalizeSentence(line);
-        citations['pricing_positioning'] = entry.url;
+        citations['pricing_positioning'] = cite(entry, line);
       }
     }
-    if (tiers.size >= 5) break;
+    if (tiers.size >= limit) break;
   }
 
   return {
-    tiers: Array.from(tiers).slice(0, 5),
+    tiers: Array.from(tiers).slice(0, limit),
     positioning,
   };
 }
@@ -184,6 +600,7 @@ function extractPricing(
 function extractTone(
   aggregated: ReturnType<typeof aggregateContent>,
   citations: Record<string, string>,
+  limit: number,
 ): string[] {
   const candidates = new Map<string, number>();
   const adjectives = [
@@ -204,7 +621,7 @@ function extractTone(
       for (const word of adjectives) {
         if (new RegExp(`\\b${word}\\b`, 'i').test(line)) {
           candidates.set(word, (candidates.get(word) ?? 0) + 1);
-          citations[`tone.${word}`] = entry.url;
+          citations[`tone.${word}`] = cite(entry, line);
         }
       }
     }
@@ -213,7 +630,7 @@ function extractTone(
   return Array.from(candidates.entries())
     .sort((a, b) => b[1] - a[1])
     .map(([word]) => word)
-    .slice(0, 5);
+    .slice(0, limit);
 }
 
 function extractAudience(
@@ -223,7 +640,7 @@ function extractAudience(
   for (const entry of aggregated) {
     for (const line of entry.lines) {
       if (/for\s+(?:[A-Z][a-z]+\s?){1,4}(?:teams|companies|founders|marketers|developers)/i.test(line)) {
-        citations['audience'] = entry.url;
+        citations['audience'] = cite(entry, line);
         return normalizeSentence(line);
       }
     }
@@ -234,6 +651,8 @@ function extractAudience(
 function extractProofPoints(
   aggregated: ReturnType<typeof aggregateContent>,
   citations: Record<string, string>,
+  ledger: ClaimLedger,
+  profile: StrategyProfile,
 ) {
   const customers = new Set<string>();
   const metrics = new Set<string>();
@@ -243,29 +662,33 @@ function extractProofPoints(
     for (const line of entry.lines) {
       if (CUSTOMER_PATTERN.test(line)) {
         customers.add(normalizeSentence(line));
-        citations['proof_points.customers'] = entry.url;
+        citations['proof_points.customers'] = cite(entry, line);
+        recordClaim(ledger, normalizeSentence(line), cite(entry, line), entry.content, line);
       }
       if (METRIC_PATTERN.test(line)) {
         metrics.add(normalizeSentence(line));
-        citations['proof_points.metrics'] = entry.url;
+        citations['proof_points.metrics'] = cite(entry, line);
+        recordClaim(ledger, normalizeSentence(line), cite(entry, line), entry.content, line);
       }
       if (CERT_PATTERN.test(line)) {
         certifications.add(normalizeSentence(line));
-        citations['proof_points.certifications'] = entry.url;
+        citations['proof_points.certifications'] = cite(entry, line);
+        recordClaim(ledger, normalizeSentence(line), cite(entry, line), entry.content, line);
       }
     }
   }
 
   return {
-    customers: Array.from(customers).slice(0, 5),
-    metrics: Array.from(metrics).slice(0, 5),
-    certifications: Array.from(certifications).slice(0, 5),
+    customers: Array.from(customers).slice(0, profile.customers),
+    metrics: Array.from(metrics).slice(0, profile.metrics),
+    certifications: Array.from(certifications).slice(0, profile.certifications),
   };
 }
 
 function extractCompetitors(
   aggregated: ReturnType<typeof aggregateContent>,
   citations: Record<string, string>,
+  limit: number,
 ): string[] {
   const competitors = new Set<string>();
   for (const entry of aggregated) {
@@ -274,12 +697,12 @@ function extractCompetitors(
         const snippet = normalizeSentence(line);
         if (snippet.length > 0) {
           competitors.add(snippet);
-          citations['competitors_implied'] = entry.url;
+          citations['competitors_implied'] = cite(entry, line);
         }
       }
     }
   }
-  return Array.from(competitors).slice(0, 5);
+  return Array.from(competitors).slice(0, limit);
 }
 
 function deriveUniqueAngle(
@@ -291,7 +714,7 @@ function deriveUniqueAngle(
   for (const entry of aggregated) {
     for (const line of entry.lines) {
       if (/only\s+(?:platform|tool|solution)/i.test(line)) {
-        citations['unique_angle'] = entry.url;
+        citations['unique_angle'] = cite(entry, line);
         return normalizeSentence(line);
       }
     }
@@ -310,48 +733,96 @@ function normalizeSentence(text: string): string {
   return text.replace(/\s+/g, ' ').trim();
 }
 
-function enforceSizeLimit(kernel: KernelPayload): KernelPayload {
-  let json = JSON.stringify(kernel);
-  if (Buffer.byteLength(json, 'utf-8') <= MAX_KERNEL_BYTES) {
-    return kernel;
+/**
+ * Cut a line to the profile's sentence budget, at a word boundary
+ */
+function trimSentence(text: string, profile: StrategyProfile): string {
+  let sentence = text;
+  if (profile.firstSentence) {
+    sentence = sentence.split(/(?<=[.!?])\s+(?=[A-Z0-9"“])/)[0];
   }
+  if (sentence.length <= profile.sentenceChars) return sentence;
+  const cut = sentence.slice(0, profile.sentenceChars - 1);
+  const boundary = cut.lastIndexOf(' ');
+  return `${(boundary > profile.sentenceChars / 2 ? cut.slice(0, boundary) : cut).replace(/[\s,;:–—-]+$/, '')}…`;
+}
+
+type ListField = [name: string, get: (kernel: KernelPayload) => unknown[] | undefined];
+
+/** Least useful first; one item is removed from each in turn */
+const FIT_LISTS: ListField[] = [
+  ['competitors_implied', (kernel) => kernel.competitors_implied],
+  ['tone', (kernel) => kernel.tone],
+  ['proof_points.certifications', (kernel) => kernel.proof_points.certifications],
+  ['visual_identity.logos', (kernel) => kernel.visual_identity?.logos],
+  ['visual_identity.colors', (kernel) => kernel.visual_identity?.colors],
+  ['visual_identity.fonts', (kernel) => kernel.visual_identity?.fonts],
+  ['proof_points.customers', (kernel) => kernel.proof_points.customers],
+  ['pricing_cues.tiers', (kernel) => kernel.pricing_cues.tiers],
+  ['proof_points.metrics', (kernel) => kernel.proof_points.metrics],
+  ['products', (kernel) => kernel.products],
+];
 
-  const trimmed = { ...kernel };
-  trimmed.products = trimmed.products.slice(0, 5);
-  trimmed.tone = trimmed.tone.slice(0, 5);
-  trimmed.proof_points = {
-    customers: trimmed.proof_points.customers.slice(0, 3),
-    metrics: trimmed.proof_points.metrics.slice(0, 3),
-    certifications: trimmed.proof_points.certifications.slice(0, 3),
+const FIT_TEXT: Array<[name: string, key: 'unique_angle' | 'audience' | 'positioning']> = [
+  ['pricing_cues.positioning', 'positioning'],
+  ['audience', 'audience'],
+  ['unique_angle', 'unique_angle'],
+];
+
+/**
+ * Shrink the kernel until it fits `maxBytes`, recording each field cut in
+ * `compression.truncated_fields`
+ *
+ * Lists lose their last item round-robin down to one item, then long
+ * text fields are shortened, then citations are dropped, and finally
+ * lists are emptied.
+ */
+function fitToSize(kernel: KernelPayload, maxBytes: number): KernelPayload {
+  const fitted: KernelPayload = JSON.parse(JSON.stringify(kernel));
+  const truncated = new Set<string>();
+  const compression = fitted.compression!;
+  const fits = () => {
+    compression.truncated_fields = Array.from(truncated);
+    return promptBytes(fitted) <= maxBytes;
   };
-  trimmed.pricing_cues = {
-    tiers: trimmed.pricing_cues.tiers.slice(0, 3),
-    positioning: trimmed.pricing_cues.positioning,
+  if (fits()) return fitted;
+
+  const shrinkLists = (floor: number) => {
+    for (;;) {
+      let shrunk = false;
+      for (const [name, get] of FIT_LISTS) {
+        const list = get(fitted);
+        if (!list || list.length <= floor) continue;
+        list.pop();
+        delete fitted.claims?.[`${name}.${list.length}`];
+        truncated.add(name);
+        shrunk = true;
+        if (fits()) return true;
+      }
+      if (!shrunk) return false;
+    }
   };
-  trimmed.competitors_implied = trimmed.competitors_implied.slice(0, 3);
-  trimmed.unique_angle = trimmed.unique_angle.slice(0, 160);
 
-  json = JSON.stringify(trimmed);
-  if (Buffer.byteLength(json, 'utf-8') <= MAX_KERNEL_BYTES) {
-    return trimmed;
+  if (shrinkLists(1)) return fitted;
+
+  for (const limit of [120, 60]) {
+    for (const [name, key] of FIT_TEXT) {
+      const value = key === 'positioning' ? fitted.pricing_cues.positioning : fitted[key];
+      if (value.length <= limit) continue;
+      const shortened = trimSentence(value, { ...STRATEGY_PROFILES.aggressive, sentenceChars: limit, firstSentence: false });
+      if (key === 'positioning') fitted.pricing_cues.positioning = shortened;
+      else fitted[key] = shortened;
+      truncated.add(name);
+      if (fits()) return fitted;
+    }
   }
 
-  const minimal = {
-    ...trimmed,
-    products: trimmed.products.slice(0, 3),
-    tone: trimmed.tone.slice(0, 3),
-    proof_points: {
-      customers: trimmed.proof_points.customers.slice(0, 2),
-      metrics: trimmed.proof_points.metrics.slice(0, 2),
-      certifications: trimmed.proof_points.certifications.slice(0, 1),
-    },
-    pricing_cues: {
-      tiers: trimmed.pricing_cues.tiers.slice(0, 2),
-      positioning: trimmed.pricing_cues.positioning.slice(0, 120),
-    },
-    competitors_implied: trimmed.competitors_implied.slice(0, 2),
-    unique_angle: trimmed.unique_angle.slice(0, 120),
-  };
+  if (Object.keys(fitted.citations).length > 0) {
+    fitted.citations = {};
+    truncated.add('citations');
+    if (fits()) return fitted;
+  }
 
-  return minimal;
+  shrinkLists(0);
+  return fitted;
 }
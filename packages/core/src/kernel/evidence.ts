@@ -0,0 +1,189 @@
+/**
+ * Evidence keys - resolve the keys ideas and copy cite against a kernel
+ *
+ * A key is a kernel field path (`audience`, `proof_points.metrics`) or a
+ * claim ID (`proof_points.metrics.1`), which also resolves to the claim's
+ * source when the kernel carries claims.
+ */
+
+import type { KernelClaim, KernelPayload } from './compressor';
+
+export interface ResolvedEvidence {
+  /**
+   * Canonical path, with aliases expanded (`proof.metrics` →
+   * `proof_points.metrics`)
+   */
+  key: string;
+  /**
+   * Top-level field or list the key points into
+   */
+  field: string;
+  value: unknown;
+  claim?: KernelClaim;
+}
+
+/** Fields a key may point into; bookkeeping fields are not evidence */
+const EVIDENCE_FIELDS = new Set([
+  'products',
+  'tone',
+  'audience',
+  'proof_points',
+  'pricing_cues',
+  'competitors_implied',
+  'unique_angle',
+  'visual_identity',
+]);
+
+/** Short forms the prompts and older outputs use */
+const KEY_ALIASES: Record<string, string> = {
+  proof: 'proof_points',
+  pricing: 'pricing_cues',
+  competitors: 'competitors_implied',
+  visual: 'visual_identity',
+};
+
+/**
+ * Resolve an evidence key, or null when it names nothing in the kernel or
+ * only an empty value
+ */
+export function resolveEvidenceKey(kernel: KernelPayload, key: string): ResolvedEvidence | null {
+  const segments = key.trim().split('.').filter(Boolean);
+  if (segments.length === 0) return null;
+  segments[0] = KEY_ALIASES[segments[0]] ?? segments[0];
+  if (!EVIDENCE_FIELDS.has(segments[0])) return null;
+
+  let value: unknown = kernel;
+  for (const segment of segments) {
+    if (Array.isArray(value)) {
+      if (!/^\d+$/.test(segment)) return null;
+      value = value[Number(segment)];
+    } else if (typeof value === 'object' && value !== null) {
+      value = (value as Record<string, unknown>)[segment];
+    } else {
+      return null;
+    }
+    if (value === undefined) return null;
+  }
+  if (isEmptyEvidence(value)) return null;
+
+  const canonical = segments.join('.');
+  const field = /^\d+$/.test(segments[segments.length - 1]) ? segments.slice(0, -1).join('.') : canonical;
+  const claim = kernel.claims?.[canonical];
+  return { key: canonical, field, value, ...(claim ? { claim } : {}) };
+}
+
+function isEmptyEvidence(value: unknown): boolean {
+  if (value === null || value === '' || value === 'Not specified') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.values(value).every(isEmptyEvidence);
+  return false;
+}
+
+export interface UnsupportedClaim {
+  kind: 'number' | 'percentage' | 'customer';
+  /**
+   * The figure or name as written in the generated text
+   */
+  text: string;
+}
+
+const FIGURE_PATTERN = /(?<![\w.])([$€£]\s?)?(\d[\d,]*(?:\.\d+)?)(\s?%|\s?[xX]\b|[kKmMbB]\b|\+)?/g;
+/** Ordinals, times, ratios such as 24/7, and clock or range notation */
+const NOT_A_QUANTITY = /^(?:st|nd|rd|th|am|pm|h\b|:\d|\/\d|-\d)/i;
+/** Nouns that make a plain number a customer or adoption count */
+const COUNT_NOUN =
+  /^\s+(?:[a-z-]+\s+)?(?:customers|clients|users|companies|businesses|brands|organizations|organisations|merchants|subscribers|members|downloads|installs|reviews)\b/i;
+const CUSTOMER_LEAD =
+  /\b(?:trusted by|used by|loved by|chosen by|relied on by|teams at|customers (?:like|including|such as)|clients (?:like|including|such as)|companies (?:like|including|such as))\s+/gi;
+const NAME = "[A-Z][\\w&'’-]*(?:\\s+[A-Z][\\w&'’-]*)*";
+const NAME_LIST = new RegExp(`^${NAME}(?:\\s*(?:,|\\band\\b|&)\\s*${NAME})*`);
+
+/**
+ * Figures and named customers in generated text that the kernel doesn't
+ * contain
+ *
+ * Only claim-shaped figures are checked: percentages, money, multipliers,
+ * k/m/b amounts, and counts of customers, users and the like ("500+
+ * customers"). Durations, times, ordinals and other bare numbers ("24/7
+ * support for 12 months") are not claims. Figures are compared by value,
+ * so "2k" matches "2,000" and "40 %" matches "40%"; names are checked
+ * case-insensitively after "trusted by", "customers like" and similar.
+ */
+export function findUnsupportedClaims(text: string, kernel: KernelPayload): UnsupportedClaim[] {
+  const corpus = kernelText(kernel);
+  const known = new Set(extractFigures(corpus).map((figure) => figure.value));
+  const lowerCorpus = corpus.toLowerCase();
+  const unsupported: UnsupportedClaim[] = [];
+  const seen = new Set<string>();
+  const flag = (claim: UnsupportedClaim) => {
+    const id = `${claim.kind}:${claim.text.toLowerCase()}`;
+    if (seen.has(id)) return;
+    seen.add(id);
+    unsupported.push(claim);
+  };
+
+  for (const figure of extractFigures(text)) {
+    if (figure.claim && !known.has(figure.value)) {
+      flag({ kind: figure.percentage ? 'percentage' : 'number', text: figure.text });
+    }
+  }
+
+  for (const lead of text.matchAll(CUSTOMER_LEAD)) {
+    const names = NAME_LIST.exec(text.slice((lead.index ?? 0) + lead[0].length))?.[0];
+    if (!names) continue;
+    for (const name of names.split(/\s*(?:,|\band\b|&)\s*/).map((part) => part.trim()).filter(Boolean)) {
+      if (!lowerCorpus.includes(name.toLowerCase())) flag({ kind: 'customer', text: name });
+    }
+  }
+
+  return unsupported;
+}
+
+interface Figure {
+  text: string;
+  value: string;
+  percentage: boolean;
+  /** Whether the figure reads as a factual claim rather than a plain number */
+  claim: boolean;
+}
+
+function extractFigures(text: string): Figure[] {
+  const figures: Figure[] = [];
+  for (const match of text.matchAll(FIGURE_PATTERN)) {
+    const [raw, currency, digits, unit = ''] = match;
+    const suffix = unit.trim().toLowerCase();
+    const amount = Number(digits.replace(/,/g, ''));
+    if (!Number.isFinite(amount)) continue;
+    const bare = !currency && !suffix;
+    if (bare && (amount < 10 || (/^\d{4}$/.test(digits) && amount >= 1900 && amount <= 2099))) continue;
+
+    const after = text.slice((match.index ?? 0) + raw.length);
+    const counted = (bare || suffix === '+') && COUNT_NOUN.test(after);
+    const claim =
+      !NOT_A_QUANTITY.test(after) && (Boolean(currency) || (suffix !== '' && suffix !== '+') || counted);
+
+    const multiplier = { k: 1e3, m: 1e6, b: 1e9 }[suffix] ?? 1;
+    const scaled = amount * multiplier;
+    const percentage = suffix === '%';
+    const value = percentage ? `${scaled}%` : suffix === 'x' ? `${scaled}x` : String(scaled);
+    figures.push({ text: raw.trim(), value, percentage, claim });
+  }
+  return figures;
+}
+
+/**
+ * Every evidence string in the kernel, plus the source quotes behind claims
+ */
+function kernelText(kernel: KernelPayload): string {
+  const parts: string[] = [];
+  const collect = (value: unknown) => {
+    if (typeof value === 'string') parts.push(value);
+    else if (Array.isArray(value)) value.forEach(collect);
+    else if (typeof value === 'object' && value !== null) Object.values(value).forEach(collect);
+  };
+  for (const field of EVIDENCE_FIELDS) {
+    collect((kernel as unknown as Record<string, unknown>)[field]);
+  }
+  Object.values(kernel.claims ?? {}).forEach((claim) => parts.push(claim.quote));
+  return parts.join('\n');
+}
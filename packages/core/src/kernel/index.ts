@@ -4,6 +4,14 @@
 
 export {
   compressKernel,
+  compressionOptionsFromGuard,
+  DEFAULT_COMPRESSION_OPTIONS,
+  resolveCompressionOptions,
+  kernelForPrompt,
+  CLAIM_FIELDS,
+  type CompressionStrategy,
+  type KernelClaim,
+  type KernelCompression,
   type KernelSource,
   type KernelInput,
   type KernelPayload,
@@ -11,3 +19,10 @@ export {
   type KernelStore,
 } from './compressor';
 
+
+export {
+  resolveEvidenceKey,
+  findUnsupportedClaims,
+  type ResolvedEvidence,
+  type UnsupportedClaim,
+} from './evidence';
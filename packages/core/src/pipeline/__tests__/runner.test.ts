@@ -0,0 +1,221 @@
+/**
+ * Pipeline Runner Tests
+ *
+ * Run state transitions, repository backends and stage-by-stage persistence
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { advanceRun, createRun, failRun, PIPELINE_STAGES, RunTransitionError } from '../state';
+import { JsonFileRunRepository, MemoryRunRepository } from '../store';
+import { PipelineStageError, runPipeline } from '../runner';
+import type { Artifact } from '../../types/outputs';
+
+const now = new Date('2025-01-01T00:00:00.000Z');
+
+function newRun() {
+  return createRun({ id: 'run-1', domain: 'acme.example.com', user_id: 'local', config_snapshot: {}, now });
+}
+
+describe('run state', () => {
+  it('should advance through every stage and complete after export', () => {
+    let run = newRun();
+    const stages: string[] = [run.stage];
+    while (run.status === 'in_progress') {
+      run = advanceRun(run, now);
+      stages.push(run.stage);
+    }
+
+    assert.deepStrictEqual(stages, [...PIPELINE_STAGES, 'completed']);
+    assert.strictEqual(run.status, 'completed');
+    assert.strictEqual(run.completed_at, now.toISOString());
+    assert.throws(() => advanceRun(run), RunTransitionError);
+  });
+
+  it('should fail a run with the stage in the message and refuse to advance it', () => {
+    const failed = failRun(advanceRun(newRun(), now), 'provider down', now);
+
+    assert.strictEqual(failed.stage, 'failed');
+    assert.strictEqual(failed.status, 'failed');
+    assert.strictEqual(failed.error_message, 'review: provider down');
+    assert.throws(() => advanceRun(failed), /cannot advance/);
+    assert.throws(() => failRun(failed, 'again'), RunTransitionError);
+  });
+});
+
+describe('run repositories', () => {
+  const artifact = (id: string, runId: string): Artifact => ({
+    id,
+    run_id: runId,
+    type: 'idea',
+    content: { headline: id },
+    metadata: {},
+    created_at: now.toISOString(),
+  });
+
+  it('should keep runs and artifacts in memory without sharing references', async () => {
+    const repository = new MemoryRunRepository();
+    const run = newRun();
+    await repository.saveRun(run);
+    await repository.addArtifacts([artifact('a', 'run-1'), artifact('b', 'run-2')]);
+
+    const stored = await repository.getRun('run-1');
+    stored!.stage = 'export';
+    assert.strictEqual((await repository.getRun('run-1'))?.stage, 'scrape');
+    assert.deepStrictEqual((await repository.listArtifacts('run-1')).map((a) => a.id), ['a']);
+    assert.strictEqual(await repository.getRun('missing'), null);
+  });
+
+  it('should persist runs and artifacts as files', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'brandpack-runs-'));
+    try {
+      const repository = new JsonFileRunRepository({ directory });
+      await repository.saveRun(newRun());
+      await repository.saveRun(advanceRun(newRun(), now));
+      await repository.addArtifacts([artifact('a', 'run-1')]);
+      await repository.addArtifacts([artifact('b', 'run-1')]);
+
+      const reopened = new JsonFileRunRepository({ directory });
+      assert.strictEqual((await reopened.getRun('run-1'))?.stage, 'review');
+      assert.deepStrictEqual((await reopened.listArtifacts('run-1')).map((a) => a.id), ['a', 'b']);
+      assert.deepStrictEqual(await reopened.listArtifacts('missing'), []);
+      assert.strictEqual(await reopened.getRun('missing'), null);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('runPipeline', () => {
+  it('should persist each stage, hand earlier artifacts on and total the cost', async () => {
+    const repository = new MemoryRunRepository();
+    const run = newRun();
+    await repository.saveRun(run);
+    const seen: string[] = [];
+
+    const finished = await runPipeline(
+      run,
+      {
+        scrape: async () => ({ artifacts: [{ type: 'kernel', content: { domain: 'acme.example.com' } }] }),
+        ideas: async ({ artifacts }) => {
+          seen.push(...artifacts.map((a) => `${a.metadata.stage}:${a.type}`));
+          return {
+            artifacts: [
+              { type: 'idea', content: { headline: 'Best' }, ranking_score: 80 },
+              { type: 'idea', content: { headline: 'Next' }, ranking_score: 60 },
+            ],
+            cost_usd: 0.02,
+          };
+        },
+        copy: async () => ({ artifacts: [{ type: 'copy', content: {} }], cost_usd: 0.01 }),
+      },
+      repository,
+      { now: () => now },
+    );
+
+    assert.deepStrictEqual(seen, ['scrape:kernel']);
+    assert.strictEqual(finished.status, 'completed');
+    assert.strictEqual(finished.stage, 'completed');
+    assert.strictEqual(Math.round(finished.total_cost_usd * 100), 3);
+    assert.deepStrictEqual(await repository.getRun(run.id), finished);
+
+    const artifacts = await repository.listArtifacts(run.id);
+    assert.deepStrictEqual(artifacts.map((a) => a.type), ['kernel', 'idea', 'idea', 'copy']);
+    assert.strictEqual(artifacts[1].ranking_score, 80);
+    assert.ok(artifacts.every((a) => a.run_id === run.id && a.id));
+  });
+
+  it('should fail the run at the failing stage and keep what it spent', async () => {
+    const repository = new MemoryRunRepository();
+    const run = newRun();
+
+    const finished = await runPipeline(
+      run,
+      {
+        scrape: async () => ({ artifacts: [{ type: 'kernel', content: {} }] }),
+        review: async () => {
+          throw new PipelineStageError('scrape.review_summarize failed: invalid JSON', 0.005);
+        },
+        ideas: async () => assert.fail('stages after a failure must not run'),
+      },
+      repository,
+      { now: () => now },
+    );
+
+    assert.strictEqual(finished.status, 'failed');
+    assert.strictEqual(finished.error_message, 'review: scrape.review_summarize failed: invalid JSON');
+    assert.strictEqual(finished.total_cost_usd, 0.005);
+    assert.deepStrictEqual(await repository.getRun(run.id), finished);
+    assert.strictEqual((await repository.listArtifacts(run.id)).length, 1);
+    await assert.rejects(runPipeline(finished, {}, repository), RunTransitionError);
+  });
+
+  it('should fail the run when its artifacts cannot be saved', async () => {
+    class FailingArtifacts extends MemoryRunRepository {
+      async addArtifacts(): Promise<void> {
+        throw new Error('disk full');
+      }
+    }
+    const repository = new FailingArtifacts();
+    const run = newRun();
+
+    const finished = await runPipeline(
+      run,
+      {
+        scrape: async () => ({ artifacts: [{ type: 'kernel', content: {} }], cost_usd: 0.01 }),
+        review: async () => assert.fail('stages after a failure must not run'),
+      },
+      repository,
+      { now: () => now },
+    );
+
+    assert.strictEqual(finished.status, 'failed');
+    assert.strictEqual(finished.error_message, 'scrape: could not save stage: disk full');
+    assert.strictEqual(finished.total_cost_usd, 0.01);
+    assert.deepStrictEqual(await repository.getRun(run.id), finished);
+  });
+
+  it('should resolve with the failed run even when it cannot be saved', async () => {
+    class FailingRepository extends MemoryRunRepository {
+      async saveRun(): Promise<void> {
+        throw new Error('read-only');
+      }
+    }
+
+    const finished = await runPipeline(
+      newRun(),
+      { scrape: async () => ({ artifacts: [] }) },
+      new FailingRepository(),
+      { now: () => now },
+    );
+
+    assert.strictEqual(finished.status, 'failed');
+    assert.strictEqual(finished.error_message, 'scrape: could not save stage: read-only');
+  });
+
+  it('should resume a run from its current stage', async () => {
+    const repository = new MemoryRunRepository();
+    const run = advanceRun(advanceRun(newRun(), now), now);
+    await repository.addArtifacts([
+      { id: 'k', run_id: run.id, type: 'kernel', content: {}, metadata: { stage: 'scrape' }, created_at: now.toISOString() },
+    ]);
+    const ran: string[] = [];
+
+    await runPipeline(
+      run,
+      {
+        scrape: async () => assert.fail('finished stages must not rerun'),
+        audience: async ({ artifacts }) => {
+          ran.push(`audience after ${artifacts.map((a) => a.id).join(',')}`);
+          return { artifacts: [] };
+        },
+      },
+      repository,
+    );
+
+    assert.deepStrictEqual(ran, ['audience after k']);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Pipeline - Server-side runs from scrape to export
+ */
+
+export {
+  PIPELINE_STAGES,
+  RunTransitionError,
+  createRun,
+  isPipelineStage,
+  nextStage,
+  advanceRun,
+  failRun,
+  recordStageUsage,
+  type PipelineStage,
+  type CreateRunInput,
+} from './state';
+
+export {
+  MemoryRunRepository,
+  JsonFileRunRepository,
+  type RunRepository,
+  type JsonFileRunRepositoryOptions,
+} from './store';
+
+export {
+  runPipeline,
+  PipelineStageError,
+  type ArtifactDraft,
+  type StageOutput,
+  type StageContext,
+  type StageHandler,
+  type StageHandlers,
+  type RunPipelineOptions,
+} from './runner';
@@ -0,0 +1,171 @@
+/**
+ * Pipeline Runner - Drive a run through its stages
+ *
+ * Each stage handler receives the run and the artifacts of earlier stages
+ * and returns new artifacts plus the spend it incurred. After every stage
+ * the artifacts are persisted, the run totals updated and the run advanced,
+ * so a run read mid-flight reflects everything finished so far. Stages
+ * without a handler advance without artifacts. Handlers should configure
+ * themselves from `run.config_snapshot`, so a run keeps the config it was
+ * started with.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { Artifact, ArtifactType, Run } from '../types/outputs';
+import {
+  advanceRun,
+  failRun,
+  isPipelineStage,
+  recordStageUsage,
+  RunTransitionError,
+  type PipelineStage,
+} from './state';
+import type { RunRepository } from './store';
+
+export interface ArtifactDraft {
+  type: ArtifactType;
+  content: unknown;
+  ranking_score?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface StageOutput {
+  artifacts: ArtifactDraft[];
+  /** Provider spend for the stage */
+  cost_usd?: number;
+}
+
+export interface StageContext {
+  run: Run;
+  stage: PipelineStage;
+  /** Artifacts persisted by earlier stages, oldest first */
+  artifacts: Artifact[];
+}
+
+export type StageHandler = (context: StageContext) => Promise<StageOutput>;
+
+export type StageHandlers = Partial<Record<PipelineStage, StageHandler>>;
+
+/**
+ * Thrown by stage handlers to fail the run while still charging what the
+ * stage spent
+ */
+export class PipelineStageError extends Error {
+  constructor(
+    message: string,
+    public readonly cost_usd: number = 0,
+  ) {
+    super(message);
+    this.name = 'PipelineStageError';
+  }
+}
+
+export interface RunPipelineOptions {
+  now?: () => Date;
+}
+
+/**
+ * Run every remaining stage of `run`, starting at its current stage
+ *
+ * Resolves with the final run (completed or failed); handler and
+ * repository errors fail the run rather than rejecting. Throws a
+ * RunTransitionError when the run has already finished.
+ */
+export async function runPipeline(
+  run: Run,
+  handlers: StageHandlers,
+  repository: RunRepository,
+  options: RunPipelineOptions = {},
+): Promise<Run> {
+  const now = options.now ?? (() => new Date());
+  if (run.status !== 'in_progress' || !isPipelineStage(run.stage)) {
+    throw new RunTransitionError(
+      `Run ${run.id} is ${run.status} at stage ${run.stage} and cannot run`,
+      run.id,
+      run.stage,
+      run.stage,
+    );
+  }
+
+  let current = run;
+  let artifacts: Artifact[];
+  try {
+    artifacts = await repository.listArtifacts(run.id);
+  } catch (error) {
+    return failAndSave(current, `could not load artifacts: ${messageOf(error)}`, repository, now);
+  }
+
+  while (current.status === 'in_progress' && isPipelineStage(current.stage)) {
+    const stage = current.stage;
+    const handler = handlers[stage];
+    const started = Date.now();
+
+    let output: StageOutput = { artifacts: [] };
+    let failure: { message: string; cost_usd: number } | null = null;
+    if (handler) {
+      try {
+        output = await handler({ run: current, stage, artifacts: [...artifacts] });
+      } catch (error) {
+        failure = {
+          message: messageOf(error),
+          cost_usd: error instanceof PipelineStageError ? error.cost_usd : 0,
+        };
+      }
+    }
+
+    current = recordStageUsage(
+      current,
+      { cost_usd: failure?.cost_usd ?? output.cost_usd ?? 0, duration_ms: Date.now() - started },
+      now(),
+    );
+
+    if (failure) {
+      return failAndSave(current, failure.message, repository, now);
+    }
+
+    const created_at = now().toISOString();
+    const persisted = output.artifacts.map<Artifact>((draft) => ({
+      id: randomUUID(),
+      run_id: current.id,
+      type: draft.type,
+      content: draft.content,
+      ranking_score: draft.ranking_score,
+      metadata: { ...draft.metadata, stage },
+      created_at,
+    }));
+    try {
+      await repository.addArtifacts(persisted);
+      artifacts.push(...persisted);
+      const advanced = advanceRun(current, now());
+      await repository.saveRun(advanced);
+      current = advanced;
+    } catch (error) {
+      return failAndSave(current, `could not save stage: ${messageOf(error)}`, repository, now);
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Fail the run and try to save it; when the repository itself is failing
+ * the failed run is still returned to the caller
+ */
+async function failAndSave(
+  run: Run,
+  message: string,
+  repository: RunRepository,
+  now: () => Date,
+): Promise<Run> {
+  const failed = failRun(run, message, now());
+  try {
+    await repository.saveRun(failed);
+  } catch {
+    // Best effort: the stored run may stay in_progress until a later save succeeds
+  }
+  return failed;
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,137 @@
+/**
+ * Run State Machine - Stage and status transitions for pipeline runs
+ *
+ * A run moves through PIPELINE_STAGES in order while `in_progress`, then
+ * lands on `completed` or `failed`. Every transition returns a new `Run`
+ * with `updated_at` bumped; nothing here touches storage.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { Run, RunStage } from '../types/outputs';
+
+/** Stages a run works through, in order */
+export type PipelineStage = Exclude<RunStage, 'completed' | 'failed'>;
+
+export const PIPELINE_STAGES: readonly PipelineStage[] = [
+  'scrape',
+  'review',
+  'audience',
+  'ideas',
+  'copy',
+  'image_brief',
+  'image_render',
+  'export',
+];
+
+export class RunTransitionError extends Error {
+  constructor(
+    message: string,
+    public readonly runId: string,
+    public readonly from: RunStage,
+    public readonly to: RunStage,
+  ) {
+    super(message);
+    this.name = 'RunTransitionError';
+  }
+}
+
+export interface CreateRunInput {
+  domain: string;
+  user_id: string;
+  config_snapshot: Record<string, unknown>;
+  /** Defaults to a random UUID, matching the `runs` table */
+  id?: string;
+  now?: Date;
+}
+
+export function createRun(input: CreateRunInput): Run {
+  const timestamp = (input.now ?? new Date()).toISOString();
+  return {
+    id: input.id ?? randomUUID(),
+    user_id: input.user_id,
+    domain: input.domain,
+    stage: PIPELINE_STAGES[0],
+    status: 'in_progress',
+    config_snapshot: input.config_snapshot,
+    total_cost_usd: 0,
+    total_duration_ms: 0,
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+}
+
+export function isPipelineStage(stage: RunStage): stage is PipelineStage {
+  return (PIPELINE_STAGES as readonly RunStage[]).includes(stage);
+}
+
+/**
+ * Stage after `stage`; `completed` after the last one
+ */
+export function nextStage(stage: PipelineStage): RunStage {
+  const index = PIPELINE_STAGES.indexOf(stage);
+  return PIPELINE_STAGES[index + 1] ?? 'completed';
+}
+
+/**
+ * Move a run to its next stage, completing it after `export`
+ *
+ * Throws a RunTransitionError when the run has already finished.
+ */
+export function advanceRun(run: Run, now: Date = new Date()): Run {
+  if (run.status !== 'in_progress' || !isPipelineStage(run.stage)) {
+    const to = isPipelineStage(run.stage) ? nextStage(run.stage) : run.stage;
+    throw new RunTransitionError(
+      `Run ${run.id} is ${run.status} at stage ${run.stage} and cannot advance`,
+      run.id,
+      run.stage,
+      to,
+    );
+  }
+
+  const stage = nextStage(run.stage);
+  const timestamp = now.toISOString();
+  if (stage === 'completed') {
+    return { ...run, stage, status: 'completed', updated_at: timestamp, completed_at: timestamp };
+  }
+  return { ...run, stage, updated_at: timestamp };
+}
+
+/**
+ * Mark a run failed; the stage it failed at is kept in `error_message`
+ */
+export function failRun(run: Run, message: string, now: Date = new Date()): Run {
+  if (run.status !== 'in_progress') {
+    throw new RunTransitionError(
+      `Run ${run.id} is ${run.status} and cannot fail`,
+      run.id,
+      run.stage,
+      'failed',
+    );
+  }
+
+  const timestamp = now.toISOString();
+  return {
+    ...run,
+    stage: 'failed',
+    status: 'failed',
+    error_message: `${run.stage}: ${message}`,
+    updated_at: timestamp,
+    completed_at: timestamp,
+  };
+}
+
+/**
+ * Add one stage's spend and wall time to the run totals
+ */
+export function recordStageUsage(
+  run: Run,
+  usage: { cost_usd: number; duration_ms: number },
+  now: Date = new Date(),
+): Run {
+  return {
+    ...run,
+    total_cost_usd: run.total_cost_usd + usage.cost_usd,
+    total_duration_ms: run.total_duration_ms + usage.duration_ms,
+    updated_at: now.toISOString(),
+  };
+}
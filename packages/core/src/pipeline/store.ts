@@ -0,0 +1,139 @@
+/**
+ * Run Repository - Persistence for runs and their artifacts
+ *
+ * Records follow the `runs` and `artifacts` tables so the same data can
+ * be written to Supabase later. The JSON-file backend keeps each run in
+ * `<run_id>.json` and its artifacts in `<run_id>.artifacts.jsonl`, and
+ * works fully offline.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { Artifact, Run } from '../types/outputs';
+
+export interface RunRepository {
+  /** Insert or replace a run */
+  saveRun(run: Run): Promise<void>;
+  getRun(id: string): Promise<Run | null>;
+  addArtifacts(artifacts: Artifact[]): Promise<void>;
+  listArtifacts(runId: string): Promise<Artifact[]>;
+}
+
+/**
+ * In-memory repository (tests, local scripts)
+ */
+export class MemoryRunRepository implements RunRepository {
+  private readonly runs = new Map<string, Run>();
+  private readonly artifacts = new Map<string, Artifact[]>();
+
+  async saveRun(run: Run): Promise<void> {
+    this.runs.set(run.id, structuredClone(run));
+  }
+
+  async getRun(id: string): Promise<Run | null> {
+    const run = this.runs.get(id);
+    return run ? structuredClone(run) : null;
+  }
+
+  async addArtifacts(artifacts: Artifact[]): Promise<void> {
+    for (const artifact of artifacts) {
+      const existing = this.artifacts.get(artifact.run_id) ?? [];
+      existing.push(structuredClone(artifact));
+      this.artifacts.set(artifact.run_id, existing);
+    }
+  }
+
+  async listArtifacts(runId: string): Promise<Artifact[]> {
+    return (this.artifacts.get(runId) ?? []).map((artifact) => structuredClone(artifact));
+  }
+
+  clear(): void {
+    this.runs.clear();
+    this.artifacts.clear();
+  }
+}
+
+export interface JsonFileRunRepositoryOptions {
+  /** Directory that holds the run and artifact files */
+  directory: string;
+}
+
+/**
+ * JSON file repository, one run file and one artifact log per run
+ */
+export class JsonFileRunRepository implements RunRepository {
+  private readonly directory: string;
+
+  constructor(options: JsonFileRunRepositoryOptions) {
+    this.directory = path.resolve(options.directory);
+  }
+
+  async saveRun(run: Run): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = this.fileFor(run.id, '.json');
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(run), 'utf-8');
+    await fs.rename(temp, file);
+  }
+
+  async getRun(id: string): Promise<Run | null> {
+    const contents = await readIfExists(this.fileFor(id, '.json'));
+    if (contents === null) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(contents) as Run;
+    } catch {
+      // partially written run; treat as missing
+      return null;
+    }
+  }
+
+  async addArtifacts(artifacts: Artifact[]): Promise<void> {
+    if (artifacts.length === 0) return;
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const byRun = new Map<string, string>();
+    for (const artifact of artifacts) {
+      byRun.set(artifact.run_id, `${byRun.get(artifact.run_id) ?? ''}${JSON.stringify(artifact)}\n`);
+    }
+    for (const [runId, lines] of byRun) {
+      await fs.appendFile(this.fileFor(runId, '.artifacts.jsonl'), lines, 'utf-8');
+    }
+  }
+
+  async listArtifacts(runId: string): Promise<Artifact[]> {
+    const contents = await readIfExists(this.fileFor(runId, '.artifacts.jsonl'));
+    if (contents === null) {
+      return [];
+    }
+
+    const artifacts: Artifact[] = [];
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        artifacts.push(JSON.parse(line) as Artifact);
+      } catch {
+        // skip partially written lines
+      }
+    }
+    return artifacts;
+  }
+
+  private fileFor(runId: string, suffix: string): string {
+    const safeId = runId.replace(/[^a-zA-Z0-9_.-]/g, '_');
+    return path.join(this.directory, `${safeId}${suffix}`);
+  }
+}
+
+async function readIfExists(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * JSON Schema Tests
+ *
+ * Path-level validation errors, schema checks, root wrapping and runTask enforcement
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { checkJsonSchema, toObjectSchema, validateJsonSchema, type JsonSchema } from '../schema';
+import { runTask } from '../../runner/orchestrator';
+import type { PromptsConfig } from '../../types/config';
+import type { LLMSpec } from '../../types/spec';
+
+const copySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    hook: { $ref: '#/$defs/block' },
+    cta: { $ref: '#/$defs/block' },
+  },
+  required: ['hook', 'cta'],
+  additionalProperties: false,
+  $defs: {
+    block: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', minLength: 1 },
+        character_count: { type: 'integer', minimum: 0 },
+        evidence_keys: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+      },
+      required: ['text', 'evidence_keys'],
+    },
+  },
+};
+
+describe('validateJsonSchema', () => {
+  it('should accept a conforming value', () => {
+    const errors = validateJsonSchema(
+      {
+        hook: { text: 'Ship faster', character_count: 11, evidence_keys: ['products'] },
+        cta: { text: 'Start now', evidence_keys: [] },
+      },
+      copySchema,
+    );
+    assert.deepStrictEqual(errors, []);
+  });
+
+  it('should report every violation with its path', () => {
+    const errors = validateJsonSchema(
+      {
+        hook: { text: '', character_count: 1.5, evidence_keys: ['a', 7, 'a'] },
+        extra: true,
+      },
+      copySchema,
+    );
+
+    assert.deepStrictEqual(errors, [
+      { path: '$', message: 'missing required property "cta"' },
+      { path: '$.hook.text', message: 'must be at least 1 characters (got 0)' },
+      { path: '$.hook.character_count', message: 'expected integer, got number' },
+      { path: '$.hook.evidence_keys[2]', message: 'duplicates an earlier item' },
+      { path: '$.hook.evidence_keys[1]', message: 'expected string, got number' },
+      { path: '$', message: 'unexpected property "extra"' },
+    ]);
+  });
+
+  it('should support enum, const, numeric bounds, prefixItems and combinators', () => {
+    const schema: JsonSchema = {
+      type: 'array',
+      prefixItems: [{ const: '4:5' }, { enum: ['top', 'bottom'] }],
+      items: { type: 'number', exclusiveMinimum: 0, maximum: 1, multipleOf: 0.05 },
+      maxItems: 4,
+    };
+
+    assert.deepStrictEqual(validateJsonSchema(['4:5', 'top', 0.15, 1], schema), []);
+    assert.deepStrictEqual(
+      validateJsonSchema(['1:1', 'left', 0, 0.33, 2], schema).map((error) => `${error.path} ${error.message}`),
+      [
+        '$ must have at most 4 items (got 5)',
+        '$[0] must equal "4:5"',
+        '$[1] must be one of "top", "bottom"',
+        '$[2] must be > 0',
+        '$[3] must be a multiple of 0.05',
+        '$[4] must be <= 1',
+      ],
+    );
+
+    const either: JsonSchema = { oneOf: [{ type: 'string' }, { type: 'integer' }], not: { const: 'none' } };
+    assert.deepStrictEqual(validateJsonSchema(3, either), []);
+    assert.deepStrictEqual(
+      validateJsonSchema('none', either).map((error) => error.message),
+      ['must not match the schema in not'],
+    );
+    assert.deepStrictEqual(
+      validateJsonSchema(null, either).map((error) => error.message),
+      ['must match exactly one schema in oneOf (matched 0)'],
+    );
+  });
+
+  it('should follow recursive refs into the value but stop at cycles that never descend', () => {
+    const tree: JsonSchema = {
+      type: 'object',
+      properties: { children: { type: 'array', items: { $ref: '#' } } },
+    };
+    assert.deepStrictEqual(validateJsonSchema({ children: [{ children: [] }] }, tree), []);
+    assert.deepStrictEqual(
+      validateJsonSchema({ children: [{ children: 'none' }] }, tree).map((error) => `${error.path} ${error.message}`),
+      ['$.children[0].children expected array, got string'],
+    );
+
+    assert.deepStrictEqual(validateJsonSchema('x', { $ref: '#' }), [{ path: '$', message: 'circular $ref #' }]);
+    assert.deepStrictEqual(
+      validateJsonSchema('x', {
+        $defs: { a: { $ref: '#/$defs/b' }, b: { allOf: [{ $ref: '#/$defs/a' }] } },
+        $ref: '#/$defs/a',
+      }).map((error) => error.message),
+      ['circular $ref #/$defs/a'],
+    );
+  });
+
+  it('should not count inherited properties as present', () => {
+    assert.deepStrictEqual(
+      validateJsonSchema({}, { type: 'object', required: ['toString'] }).map((error) => error.message),
+      ['missing required property "toString"'],
+    );
+  });
+});
+
+describe('checkJsonSchema', () => {
+  it('should flag unknown types, unsupported keywords and dangling refs', () => {
+    assert.deepStrictEqual(checkJsonSchema(copySchema), []);
+    assert.deepStrictEqual(
+      checkJsonSchema({
+        type: 'object',
+        properties: {
+          id: { type: 'uuid' },
+          tags: { type: 'array', contains: { type: 'string' } },
+          block: { $ref: '#/$defs/missing' },
+        },
+        required: 'id',
+      }),
+      [
+        '$.properties.id.type: unknown type "uuid"',
+        '$.properties.tags.contains: unsupported keyword',
+        '$.properties.block.$ref: does not resolve to a local definition',
+        '$.required: must be an array of strings',
+      ],
+    );
+  });
+});
+
+describe('toObjectSchema', () => {
+  it('should wrap non-object roots and keep their definitions resolvable', () => {
+    const schema: JsonSchema = { type: 'array', items: { $ref: '#/$defs/idea' }, $defs: { idea: { type: 'string' } } };
+    const { schema: wrapped, wrapped: isWrapped } = toObjectSchema(schema);
+
+    assert.strictEqual(isWrapped, true);
+    assert.deepStrictEqual(validateJsonSchema({ outputs: ['a'] }, wrapped), []);
+    assert.deepStrictEqual(
+      validateJsonSchema({ outputs: [1] }, wrapped).map((error) => error.path),
+      ['$.outputs[0]'],
+    );
+    assert.strictEqual(toObjectSchema(copySchema).wrapped, false);
+  });
+});
+
+describe('runTask schema enforcement', () => {
+  const config: PromptsConfig = {
+    version: '2.0.0',
+    updated_at: '2025-01-01T00:00:00Z',
+    global: { provider: 'anthropic', log_level: 'info', cache_enabled: false },
+    calls: {
+      'copy.generate': {
+        model: { provider: 'anthropic', name: 'claude', temperature: 0.7, max_tokens: 2000 },
+        prompt: { system: 'System', user_template: '{kernel}', variables: ['kernel'], outputs_expected: 1 },
+        runtime: { timeout_ms: 1000, max_retries: 0, cost_usd_limit: 1 },
+      },
+    },
+  };
+  const spec: LLMSpec = {
+    task_id: 'copy.generate',
+    system_prompt: 'System',
+    user_prompt: 'Write copy',
+    response_format: 'structured',
+    schema: copySchema,
+    constraints: {},
+  };
+  const executor = (output: unknown) => async () => ({
+    outputs: [JSON.stringify(output)],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    provider: 'anthropic',
+    model: 'claude',
+    cost_usd: 0.01,
+    duration_ms: 1,
+    raw_response: null,
+  });
+
+  it('should fail outputs that break the schema, ahead of validator errors', async () => {
+    const result = await runTask(
+      spec,
+      config,
+      executor({ hook: { text: 'Hi', evidence_keys: 'products' } }),
+      () => ({ passed: false, errors: ['Validator error'], warnings: [] }),
+    );
+
+    assert.strictEqual(result.success, false);
+    assert.deepStrictEqual(result.validation.errors, [
+      'Schema violation at $: missing required property "cta"',
+      'Schema violation at $.hook.evidence_keys: expected array, got string',
+      'Validator error',
+    ]);
+  });
+
+  it('should enforce the schema even without a task validator', async () => {
+    const valid = { hook: { text: 'Hi', evidence_keys: [] }, cta: { text: 'Go', evidence_keys: [] } };
+
+    const passed = await runTask(spec, config, executor(valid));
+    assert.strictEqual(passed.success, true);
+    assert.deepStrictEqual(passed.outputs, [valid]);
+
+    const failed = await runTask(spec, config, executor({ ...valid, cta: null }));
+    assert.strictEqual(failed.success, false);
+    assert.deepStrictEqual(failed.validation.errors, ['Schema violation at $.cta: expected object, got null']);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Prompt Template Tests
+ *
+ * Rendering paths, loops, conditionals, defaults and escapes, and variable checks
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { checkTemplate, renderTemplate, TemplateError } from '../template';
+import { checkPromptTemplate } from '../tasks';
+
+const kernel = {
+  domain: 'acme.example.com',
+  tone: ['bold', 'human'],
+  products: ['Widget Pro', 'Widget Max'],
+  audience: '',
+  proof_points: { metrics: ['10x faster'] },
+};
+
+describe('renderTemplate', () => {
+  it('should render every occurrence, nested paths and objects as JSON', () => {
+    const output = renderTemplate('{kernel.domain} / {kernel.tone.0} / {kernel.domain}\n{kernel.proof_points}', { kernel });
+
+    assert.strictEqual(
+      output,
+      'acme.example.com / bold / acme.example.com\n{\n  "metrics": [\n    "10x faster"\n  ]\n}',
+    );
+  });
+
+  it('should loop with this and @index, and render else for empty lists', () => {
+    const template = '{#each kernel.products}{@index}. {this}\n{else}No products{/each}';
+
+    assert.strictEqual(renderTemplate(template, { kernel }), '0. Widget Pro\n1. Widget Max\n');
+    assert.strictEqual(renderTemplate(template, { kernel: { products: [] } }), 'No products');
+  });
+
+  it('should branch on conditionals and fall back to defaults', () => {
+    const template = '{#if kernel.audience}For {kernel.audience}{else}For {kernel.audience|everyone}{/if}{#if kernel.tone}, {kernel.tone.1}{/if}';
+
+    assert.strictEqual(renderTemplate(template, { kernel }), 'For everyone, human');
+  });
+
+  it('should keep JSON braces literal and honour escaped placeholders', () => {
+    const template = 'Return:\n{\n  "tone": ["string"]\n}\n[{"id": "idea-01"}] \\{kernel} {kernel.domain}';
+
+    assert.strictEqual(
+      renderTemplate(template, { kernel }),
+      'Return:\n{\n  "tone": ["string"]\n}\n[{"id": "idea-01"}] {kernel} acme.example.com',
+    );
+  });
+
+  it('should throw on unsupplied variables and malformed blocks', () => {
+    assert.throws(() => renderTemplate('{idea}', { kernel }), /\{idea\} uses variable "idea", which was not supplied/);
+    assert.throws(() => renderTemplate('{#each kernel.products}{this}', { kernel }), TemplateError);
+    assert.throws(() => renderTemplate('{#if kernel.tone}x{/each}', { kernel }), /Unexpected \{\/each\}/);
+  });
+});
+
+describe('checkTemplate', () => {
+  it('should flag undeclared placeholders and loop values outside loops', () => {
+    assert.deepStrictEqual(checkTemplate('{kernel}\n{#each kernel.products}{this}{/each}', ['kernel']), []);
+    assert.deepStrictEqual(checkTemplate('{kernal.tone} {this} {#if idea}x{/if}', ['kernel']), [
+      '{kernal.tone} uses undeclared variable "kernal"',
+      '{this} is only available inside {#each}',
+      '{#if idea} uses undeclared variable "idea"',
+    ]);
+    assert.deepStrictEqual(checkTemplate('{#if kernel}', ['kernel']), ['Unclosed {#if kernel}']);
+  });
+
+  it('should flag declared variables the task builder does not supply', () => {
+    assert.deepStrictEqual(
+      checkPromptTemplate('ideas.generate', { user_template: '{kernel} {idea}', variables: ['kernel', 'idea'] }),
+      ['variable "idea" is declared but ideas.generate does not supply it'],
+    );
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * Prompts - Template rendering, output schemas and task variables
+ *
+ * Shared by config (which checks templates and schemas on load) and the
+ * runner (which renders templates and enforces schemas).
+ */
+
+export { renderTemplate, checkTemplate, TemplateError } from './template';
+
+export { TASK_VARIABLES, checkPromptTemplate } from './tasks';
+
+export {
+  validateJsonSchema,
+  checkJsonSchema,
+  toObjectSchema,
+  WRAPPED_OUTPUT_KEY,
+  type JsonSchema,
+  type SchemaError,
+} from './schema';
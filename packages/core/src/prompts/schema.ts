@@ -0,0 +1,393 @@
+/**
+ * JSON Schema - validate outputs against a task's declared schema
+ *
+ * Supports the draft 2020-12 keywords structured outputs need: type, enum,
+ * const, properties, required, additionalProperties, items, prefixItems,
+ * min/maxItems, uniqueItems, min/maxLength, pattern, the numeric bounds,
+ * multipleOf, allOf/anyOf/oneOf/not and local `$ref`s into `$defs`.
+ * Annotations (title, description, format, ...) are accepted and ignored.
+ * A `$ref` chain that returns to itself without descending into the value
+ * (e.g. `{"$ref": "#"}`) is reported as an error rather than followed.
+ * Errors carry a path into the value, e.g. `$.hook.text` or `$[3].headline`.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Property that holds the real output when a schema had to be wrapped in
+ * an object (see `toObjectSchema`)
+ */
+export const WRAPPED_OUTPUT_KEY = 'outputs';
+
+const TYPES = new Set(['string', 'number', 'integer', 'boolean', 'object', 'array', 'null']);
+
+const KEYWORDS = new Set([
+  'type', 'enum', 'const', 'properties', 'required', 'additionalProperties', 'items', 'prefixItems',
+  'minItems', 'maxItems', 'uniqueItems', 'minLength', 'maxLength', 'pattern', 'minimum', 'maximum',
+  'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf', 'allOf', 'anyOf', 'oneOf', 'not', '$ref',
+  '$defs', 'definitions',
+]);
+
+const ANNOTATIONS = new Set([
+  '$schema', '$id', '$comment', 'title', 'description', 'default', 'examples', 'format',
+  'deprecated', 'readOnly', 'writeOnly',
+]);
+
+/**
+ * Validate a value, returning every violation (empty when it conforms)
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): SchemaError[] {
+  const errors: SchemaError[] = [];
+  validateNode(value, schema, path, schema, errors);
+  return errors;
+}
+
+/**
+ * Problems with a schema itself: unknown keywords or types, malformed
+ * keyword values and `$ref`s that don't resolve
+ */
+export function checkJsonSchema(schema: unknown, path = '$'): string[] {
+  const problems: string[] = [];
+  if (!isObject(schema)) {
+    return [`${path}: schema must be an object`];
+  }
+  checkNode(schema, path, schema, problems);
+  return problems;
+}
+
+/**
+ * Providers only accept object schemas at the root; other schemas are
+ * wrapped as the `outputs` property of an object
+ */
+export function toObjectSchema(schema: JsonSchema): { schema: JsonSchema; wrapped: boolean } {
+  if (schema.type === 'object') {
+    return { schema, wrapped: false };
+  }
+  const { $defs, definitions, ...inner } = schema;
+  return {
+    schema: {
+      type: 'object',
+      properties: { [WRAPPED_OUTPUT_KEY]: inner },
+      required: [WRAPPED_OUTPUT_KEY],
+      additionalProperties: false,
+      ...($defs !== undefined ? { $defs } : {}),
+      ...(definitions !== undefined ? { definitions } : {}),
+    },
+    wrapped: true,
+  };
+}
+
+function validateNode(
+  value: unknown,
+  schema: unknown,
+  path: string,
+  root: JsonSchema,
+  errors: SchemaError[],
+  refs: ReadonlySet<string> = new Set(),
+): void {
+  if (schema === true) return;
+  if (schema === false) {
+    errors.push({ path, message: 'is not allowed' });
+    return;
+  }
+  if (!isObject(schema)) return;
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(root, schema.$ref);
+    if (target === undefined) {
+      errors.push({ path, message: `unresolved $ref ${schema.$ref}` });
+    } else if (refs.has(schema.$ref)) {
+      // Refs followed at this path so far; descending into the value resets them
+      errors.push({ path, message: `circular $ref ${schema.$ref}` });
+    } else {
+      validateNode(value, target, path, root, errors, new Set([...refs, schema.$ref]));
+    }
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push({ path, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` });
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, value))) {
+    errors.push({ path, message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}` });
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    errors.push({ path, message: `must equal ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'string') validateString(value, schema, path, errors);
+  if (typeof value === 'number') validateNumber(value, schema, path, errors);
+  if (Array.isArray(value)) validateArray(value, schema, path, root, errors);
+  if (isObject(value)) validateObject(value, schema, path, root, errors);
+
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((sub) => validateNode(value, sub, path, root, errors, refs));
+  }
+  if (Array.isArray(schema.anyOf)) {
+    if (!schema.anyOf.some((sub) => validateJsonSchemaAt(value, sub, path, root, refs).length === 0)) {
+      errors.push({ path, message: 'must match at least one schema in anyOf' });
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter((sub) => validateJsonSchemaAt(value, sub, path, root, refs).length === 0).length;
+    if (matches !== 1) {
+      errors.push({ path, message: `must match exactly one schema in oneOf (matched ${matches})` });
+    }
+  }
+  if (schema.not !== undefined && validateJsonSchemaAt(value, schema.not, path, root, refs).length === 0) {
+    errors.push({ path, message: 'must not match the schema in not' });
+  }
+}
+
+function validateJsonSchemaAt(
+  value: unknown,
+  schema: unknown,
+  path: string,
+  root: JsonSchema,
+  refs: ReadonlySet<string>,
+): SchemaError[] {
+  const errors: SchemaError[] = [];
+  validateNode(value, schema, path, root, errors, refs);
+  return errors;
+}
+
+function validateString(value: string, schema: JsonSchema, path: string, errors: SchemaError[]): void {
+  // Lengths count code points, as the spec requires
+  const length = Array.from(value).length;
+  if (typeof schema.minLength === 'number' && length < schema.minLength) {
+    errors.push({ path, message: `must be at least ${schema.minLength} characters (got ${length})` });
+  }
+  if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+    errors.push({ path, message: `must be at most ${schema.maxLength} characters (got ${length})` });
+  }
+  if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(value)) {
+    errors.push({ path, message: `must match pattern ${schema.pattern}` });
+  }
+}
+
+function validateNumber(value: number, schema: JsonSchema, path: string, errors: SchemaError[]): void {
+  if (typeof schema.minimum === 'number' && value < schema.minimum) {
+    errors.push({ path, message: `must be >= ${schema.minimum}` });
+  }
+  if (typeof schema.maximum === 'number' && value > schema.maximum) {
+    errors.push({ path, message: `must be <= ${schema.maximum}` });
+  }
+  if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+    errors.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+    errors.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+  }
+  if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+    const quotient = value / schema.multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      errors.push({ path, message: `must be a multiple of ${schema.multipleOf}` });
+    }
+  }
+}
+
+function validateArray(
+  value: unknown[],
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: SchemaError[],
+): void {
+  if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+    errors.push({ path, message: `must have at least ${schema.minItems} items (got ${value.length})` });
+  }
+  if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+    errors.push({ path, message: `must have at most ${schema.maxItems} items (got ${value.length})` });
+  }
+  if (schema.uniqueItems === true) {
+    const duplicate = value.findIndex((item, index) => value.slice(0, index).some((other) => deepEqual(other, item)));
+    if (duplicate !== -1) {
+      errors.push({ path: `${path}[${duplicate}]`, message: 'duplicates an earlier item' });
+    }
+  }
+
+  const prefix = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+  value.forEach((item, index) => {
+    if (index < prefix.length) {
+      validateNode(item, prefix[index], `${path}[${index}]`, root, errors);
+    } else if (schema.items !== undefined) {
+      validateNode(item, schema.items, `${path}[${index}]`, root, errors);
+    }
+  });
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: SchemaError[],
+): void {
+  const properties = isObject(schema.properties) ? schema.properties : {};
+  if (Array.isArray(schema.required)) {
+    for (const key of schema.required as string[]) {
+      if (!hasOwn(value, key)) {
+        errors.push({ path, message: `missing required property "${key}"` });
+      }
+    }
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    const childPath = /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+    if (hasOwn(properties, key)) {
+      validateNode(item, properties[key], childPath, root, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path, message: `unexpected property "${key}"` });
+    } else if (isObject(schema.additionalProperties)) {
+      validateNode(item, schema.additionalProperties, childPath, root, errors);
+    }
+  }
+}
+
+function checkNode(schema: unknown, path: string, root: JsonSchema, problems: string[]): void {
+  if (typeof schema === 'boolean') return;
+  if (!isObject(schema)) {
+    problems.push(`${path}: schema must be an object or boolean`);
+    return;
+  }
+
+  for (const [keyword, value] of Object.entries(schema)) {
+    const at = `${path}.${keyword}`;
+    if (!KEYWORDS.has(keyword) && !ANNOTATIONS.has(keyword)) {
+      problems.push(`${at}: unsupported keyword`);
+      continue;
+    }
+    switch (keyword) {
+      case 'type': {
+        const types = Array.isArray(value) ? value : [value];
+        types.filter((type) => !TYPES.has(type as string)).forEach((type) => {
+          problems.push(`${at}: unknown type ${JSON.stringify(type)}`);
+        });
+        break;
+      }
+      case 'enum':
+        if (!Array.isArray(value)) problems.push(`${at}: must be an array`);
+        break;
+      case 'required':
+        if (!Array.isArray(value) || !value.every((key) => typeof key === 'string')) {
+          problems.push(`${at}: must be an array of strings`);
+        }
+        break;
+      case 'properties':
+      case '$defs':
+      case 'definitions':
+        if (!isObject(value)) {
+          problems.push(`${at}: must be an object`);
+        } else {
+          Object.entries(value).forEach(([name, sub]) => checkNode(sub, `${at}.${name}`, root, problems));
+        }
+        break;
+      case 'items':
+      case 'additionalProperties':
+      case 'not':
+        checkNode(value, at, root, problems);
+        break;
+      case 'prefixItems':
+      case 'allOf':
+      case 'anyOf':
+      case 'oneOf':
+        if (!Array.isArray(value) || value.length === 0) {
+          problems.push(`${at}: must be a non-empty array`);
+        } else {
+          value.forEach((sub, index) => checkNode(sub, `${at}[${index}]`, root, problems));
+        }
+        break;
+      case 'minItems':
+      case 'maxItems':
+      case 'minLength':
+      case 'maxLength':
+        if (!Number.isInteger(value) || (value as number) < 0) problems.push(`${at}: must be a non-negative integer`);
+        break;
+      case 'minimum':
+      case 'maximum':
+      case 'exclusiveMinimum':
+      case 'exclusiveMaximum':
+        if (typeof value !== 'number') problems.push(`${at}: must be a number`);
+        break;
+      case 'multipleOf':
+        if (typeof value !== 'number' || value <= 0) problems.push(`${at}: must be a positive number`);
+        break;
+      case 'uniqueItems':
+        if (typeof value !== 'boolean') problems.push(`${at}: must be a boolean`);
+        break;
+      case 'pattern':
+        try {
+          new RegExp(value as string, 'u');
+        } catch {
+          problems.push(`${at}: invalid regular expression`);
+        }
+        break;
+      case '$ref':
+        if (typeof value !== 'string' || resolveRef(root, value) === undefined) {
+          problems.push(`${at}: does not resolve to a local definition`);
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Resolve a local JSON pointer such as `#/$defs/idea`
+ */
+function resolveRef(root: JsonSchema, ref: string): unknown {
+  if (ref === '#') return root;
+  if (!ref.startsWith('#/')) return undefined;
+  let target: unknown = root;
+  for (const raw of ref.slice(2).split('/')) {
+    const segment = decodeURIComponent(raw).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (!isObject(target) || !hasOwn(target, segment)) return undefined;
+    target = target[segment];
+  }
+  return target;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => hasOwn(b, key) && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function hasOwn(value: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,38 @@
+/**
+ * Task Variables - what each task builder supplies to its user template
+ *
+ * Lives beside the template checker so the config loader and validator
+ * can reject templates that ask for values their builder never passes.
+ */
+
+import { checkTemplate } from './template';
+
+/**
+ * Variables each builder supplies to its call's user template
+ */
+export const TASK_VARIABLES: Record<string, string[]> = {
+  'scrape.review_summarize': ['kernel'],
+  'ideas.generate': ['kernel'],
+  'copy.generate': ['kernel', 'idea'],
+  'image.brief_generate': ['kernel', 'idea'],
+};
+
+/**
+ * Problems with a call's user template: syntax errors, placeholders not
+ * declared in `variables`, and declared variables the builder doesn't supply
+ */
+export function checkPromptTemplate(
+  callId: string,
+  prompt: { user_template: string; variables: string[] }
+): string[] {
+  const problems = checkTemplate(prompt.user_template, prompt.variables);
+  const supplied = TASK_VARIABLES[callId];
+  if (supplied) {
+    prompt.variables
+      .filter((variable) => !supplied.includes(variable))
+      .forEach((variable) => {
+        problems.push(`variable "${variable}" is declared but ${callId} does not supply it`);
+      });
+  }
+  return problems;
+}
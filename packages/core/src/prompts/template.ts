@@ -0,0 +1,209 @@
+/**
+ * Prompt Templates - render `user_template` strings from prompts.json
+ *
+ * Syntax:
+ * - `{kernel}`, `{kernel.tone}`, `{kernel.products.0}`: values by path;
+ *   objects and arrays render as indented JSON
+ * - `{kernel.audience|unknown}`: default when the value is missing or empty
+ * - `{#each kernel.products}- {this}{/each}`: loops, with `{this}`,
+ *   `{this.name}` and `{@index}` for the current item; `{else}` renders
+ *   when the list is empty
+ * - `{#if kernel.pricing_cues}...{else}...{/if}`: conditionals; empty
+ *   strings, arrays and objects are false
+ * - `\{` renders a literal brace
+ *
+ * Any other brace, such as the JSON examples in the templates, is left as is.
+ */
+
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly problems: string[] = [message],
+  ) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string[]; fallback?: string; tag: string }
+  | { kind: 'each'; path: string[]; body: TemplateNode[]; otherwise: TemplateNode[]; tag: string }
+  | { kind: 'if'; path: string[]; body: TemplateNode[]; otherwise: TemplateNode[]; tag: string };
+
+interface Scope {
+  item: unknown;
+  index: number;
+}
+
+const PATH = '[A-Za-z_@][\\w]*(?:\\.[\\w]+)*';
+const TOKEN = new RegExp(
+  `\\\\\\{|\\{#(each|if)\\s+(${PATH})\\}|\\{(/each|/if|else)\\}|\\{(${PATH})(?:\\|([^{}\\n]*))?\\}`,
+  'g',
+);
+
+/** Path roots that refer to the current loop item rather than a variable */
+const LOOP_ROOTS = new Set(['this', '@index']);
+
+/**
+ * Render a template with the given variables
+ *
+ * Throws a TemplateError on malformed templates and on placeholders whose
+ * variable was not supplied; missing nested values render as their default
+ * or as nothing.
+ */
+export function renderTemplate(template: string, values: Record<string, unknown>): string {
+  return renderNodes(parseTemplate(template), values, []);
+}
+
+/**
+ * Problems with a template: syntax errors, placeholders for variables not
+ * in `variables`, and loop placeholders outside a loop
+ */
+export function checkTemplate(template: string, variables: string[]): string[] {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(template);
+  } catch (error) {
+    return error instanceof TemplateError ? error.problems : [(error as Error).message];
+  }
+
+  const problems: string[] = [];
+  const declared = new Set(variables);
+  const visit = (list: TemplateNode[], depth: number) => {
+    for (const node of list) {
+      if (node.kind === 'text') continue;
+      const root = node.path[0];
+      if (LOOP_ROOTS.has(root)) {
+        if (depth === 0) problems.push(`${node.tag} is only available inside {#each}`);
+      } else if (!declared.has(root)) {
+        problems.push(`${node.tag} uses undeclared variable "${root}"`);
+      }
+      if (node.kind === 'each') {
+        visit(node.body, depth + 1);
+        visit(node.otherwise, depth);
+      } else if (node.kind === 'if') {
+        visit(node.body, depth);
+        visit(node.otherwise, depth);
+      }
+    }
+  };
+  visit(nodes, 0);
+  return problems;
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last; `target` is where nodes currently go
+  const stack: Array<{ node: Extract<TemplateNode, { kind: 'each' | 'if' }>; target: TemplateNode[] }> = [];
+  let target = root;
+  let last = 0;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const previous = target[target.length - 1];
+    if (previous?.kind === 'text') previous.text += text;
+    else target.push({ kind: 'text', text });
+  };
+
+  for (const match of template.matchAll(TOKEN)) {
+    const [tag, block, blockPath, close, valuePath, fallback] = match;
+    pushText(template.slice(last, match.index));
+    last = (match.index ?? 0) + tag.length;
+
+    if (tag === '\\{') {
+      pushText('{');
+    } else if (block) {
+      const node = { kind: block as 'each' | 'if', path: blockPath.split('.'), body: [], otherwise: [], tag };
+      target.push(node);
+      stack.push({ node, target });
+      target = node.body;
+    } else if (close === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || target !== open.node.body) {
+        throw new TemplateError('{else} outside {#if} or {#each}');
+      }
+      target = open.node.otherwise;
+    } else if (close) {
+      const open = stack.pop();
+      if (!open || `/${open.node.kind}` !== close) {
+        throw new TemplateError(`Unexpected {${close}}${open ? ` while ${open.node.tag} is open` : ''}`);
+      }
+      target = open.target;
+    } else {
+      target.push({ kind: 'value', path: valuePath.split('.'), fallback, tag });
+    }
+  }
+  pushText(template.slice(last));
+
+  if (stack.length > 0) {
+    throw new TemplateError(`Unclosed ${stack[stack.length - 1].node.tag}`);
+  }
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], values: Record<string, unknown>, scopes: Scope[]): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.kind) {
+      case 'text':
+        output += node.text;
+        break;
+      case 'value': {
+        const value = resolvePath(node.path, node.tag, values, scopes);
+        output += isEmpty(value) && node.fallback !== undefined ? node.fallback : formatValue(value);
+        break;
+      }
+      case 'each': {
+        const list = resolvePath(node.path, node.tag, values, scopes);
+        if (Array.isArray(list) && list.length > 0) {
+          list.forEach((item, index) => {
+            output += renderNodes(node.body, values, [...scopes, { item, index }]);
+          });
+        } else {
+          output += renderNodes(node.otherwise, values, scopes);
+        }
+        break;
+      }
+      case 'if': {
+        const value = resolvePath(node.path, node.tag, values, scopes);
+        output += renderNodes(isEmpty(value) || value === false ? node.otherwise : node.body, values, scopes);
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+function resolvePath(path: string[], tag: string, values: Record<string, unknown>, scopes: Scope[]): unknown {
+  const [root, ...rest] = path;
+  const scope = scopes[scopes.length - 1];
+  let value: unknown;
+  if (LOOP_ROOTS.has(root)) {
+    if (!scope) throw new TemplateError(`${tag} is only available inside {#each}`);
+    value = root === 'this' ? scope.item : scope.index;
+  } else if (root in values) {
+    value = values[root];
+  } else {
+    throw new TemplateError(`${tag} uses variable "${root}", which was not supplied`);
+  }
+
+  for (const segment of rest) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value as object).length === 0;
+  return false;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+}
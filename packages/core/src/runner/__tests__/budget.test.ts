@@ -0,0 +1,139 @@
+/**
+ * Budget Tests
+ *
+ * Ledger limits, alert events and enforcement inside runTask
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { BudgetLedger, resolveBudgetLimits, type BudgetAlertEvent } from '../budget';
+import { runTask } from '../orchestrator';
+import { AdapterError, AdapterErrorCode } from '../../types/adapter';
+import type { AdapterResponse } from '../../types/adapter';
+import type { PromptsConfig } from '../../types/config';
+import type { LLMSpec } from '../../types/spec';
+
+const config: PromptsConfig = {
+  version: '2.0.0',
+  updated_at: '2025-01-01T00:00:00Z',
+  global: { provider: 'anthropic', log_level: 'info', cache_enabled: false },
+  calls: {
+    'ideas.generate': {
+      model: { provider: 'anthropic', name: 'claude', temperature: 0.7, max_tokens: 2000 },
+      prompt: { system: 'System', user_template: '{kernel}', variables: ['kernel'], outputs_expected: 1 },
+      runtime: { timeout_ms: 1000, max_retries: 0, cost_usd_limit: 0.5 },
+    },
+  },
+  budgets: {
+    max_cost_per_run: 1,
+    max_tokens_per_run: 10000,
+    alert_threshold_usd: 0.6,
+    per_stage: {
+      'ideas.generate': { max_cost: 0.9, max_tokens: 5000 },
+    },
+  },
+};
+
+const spec: LLMSpec = {
+  task_id: 'ideas.generate',
+  system_prompt: 'System',
+  user_prompt: 'Generate ideas',
+  response_format: 'text',
+  constraints: {},
+};
+
+function respond(cost: number): AdapterResponse {
+  return {
+    outputs: ['ok'],
+    usage: { prompt_tokens: 10, completion_tokens: 10, total_tokens: 20 },
+    provider: 'anthropic',
+    model: 'claude',
+    cost_usd: cost,
+    duration_ms: 1,
+    raw_response: null,
+  };
+}
+
+describe('budget', () => {
+  it('should resolve run, stage and call limits from config', () => {
+    const limits = resolveBudgetLimits(config, 'ideas.generate');
+
+    assert.strictEqual(limits.max_cost_per_run, 1);
+    assert.strictEqual(limits.stage_max_cost, 0.9);
+    assert.strictEqual(limits.call_max_cost, 0.5);
+    assert.strictEqual(resolveBudgetLimits(config, 'copy.generate').stage_max_cost, 0);
+  });
+
+  it('should refuse estimates that exceed any limit with BUDGET_EXCEEDED', () => {
+    const ledger = new BudgetLedger();
+    const limits = resolveBudgetLimits(config, 'ideas.generate');
+
+    ledger.record('run-1', 'ideas.generate', { cost_usd: 0.45, total_tokens: 100 }, limits);
+    ledger.check('run-1', 'ideas.generate', { cost_usd: 0.4, total_tokens: 100 }, limits);
+
+    assert.throws(
+      () => ledger.check('run-1', 'ideas.generate', { cost_usd: 0.5, total_tokens: 100 }, limits),
+      (error: unknown) =>
+        error instanceof AdapterError &&
+        error.code === AdapterErrorCode.BUDGET_EXCEEDED &&
+        error.message.includes('stage "ideas.generate"')
+    );
+    assert.throws(
+      () => ledger.check('run-2', 'ideas.generate', { cost_usd: 0.6, total_tokens: 0 }, limits),
+      /call limit/
+    );
+  });
+
+  it('should emit the alert event once when the threshold is crossed', () => {
+    const events: BudgetAlertEvent[] = [];
+    const ledger = new BudgetLedger({ onAlert: (event) => events.push(event) });
+    const limits = resolveBudgetLimits(config, 'ideas.generate');
+
+    ledger.record('run-1', 'ideas.generate', { cost_usd: 0.4, total_tokens: 10 }, limits);
+    ledger.record('run-1', 'ideas.generate', { cost_usd: 0.3, total_tokens: 10 }, limits);
+    ledger.record('run-1', 'ideas.generate', { cost_usd: 0.1, total_tokens: 10 }, limits);
+
+    assert.strictEqual(events.length, 1);
+    assert.strictEqual(events[0].run_id, 'run-1');
+    assert.strictEqual(events[0].threshold_usd, 0.6);
+    assert.strictEqual(ledger.getUsage('run-1').stages['ideas.generate'].calls, 3);
+  });
+
+  it('should drop the runs that recorded spend least recently beyond maxRuns', () => {
+    const ledger = new BudgetLedger({ maxRuns: 2 });
+    const limits = resolveBudgetLimits(config, 'ideas.generate');
+
+    ledger.record('run-1', 'ideas.generate', { cost_usd: 0.1, total_tokens: 10 }, limits);
+    ledger.record('run-2', 'ideas.generate', { cost_usd: 0.1, total_tokens: 10 }, limits);
+    ledger.record('run-1', 'ideas.generate', { cost_usd: 0.1, total_tokens: 10 }, limits);
+    ledger.record('run-3', 'ideas.generate', { cost_usd: 0.1, total_tokens: 10 }, limits);
+
+    assert.strictEqual(ledger.getUsage('run-1').cost_usd, 0.2);
+    assert.strictEqual(ledger.getUsage('run-2').cost_usd, 0);
+    assert.strictEqual(ledger.getUsage('run-3').cost_usd, 0.1);
+  });
+
+  it('should record spend in runTask and refuse calls once the run is over budget', async () => {
+    const ledger = new BudgetLedger();
+    let calls = 0;
+    const executor = async () => {
+      calls++;
+      return respond(0.45);
+    };
+    const options = {
+      runId: 'run-budget',
+      budget: { ledger, estimateCost: () => 0.3 },
+    };
+
+    const first = await runTask(spec, config, executor, undefined, options);
+    const second = await runTask(spec, config, executor, undefined, options);
+    const third = await runTask(spec, config, executor, undefined, options);
+
+    assert.strictEqual(first.success, true);
+    assert.strictEqual(second.success, true);
+    assert.strictEqual(third.success, false);
+    assert.strictEqual(third.error?.code, AdapterErrorCode.BUDGET_EXCEEDED);
+    assert.strictEqual(calls, 2);
+    assert.strictEqual(ledger.getUsage('run-budget').cost_usd, 0.9);
+  });
+});
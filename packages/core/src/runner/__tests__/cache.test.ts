@@ -0,0 +1,193 @@
+/**
+ * LLM Cache Tests
+ *
+ * Backends, TTL expiry and cache hits inside runTask
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { MemoryLLMCache, FileLLMCache, withCache } from '../cache';
+import { runTask } from '../orchestrator';
+import type { AdapterResponse } from '../../types/adapter';
+import type { PromptsConfig } from '../../types/config';
+import type { LLMSpec } from '../../types/spec';
+
+const config: PromptsConfig = {
+  version: '2.0.0',
+  updated_at: '2025-01-01T00:00:00Z',
+  global: { provider: 'anthropic', log_level: 'info', cache_enabled: true },
+  calls: {
+    'ideas.generate': {
+      model: { provider: 'anthropic', name: 'claude', temperature: 0.7, max_tokens: 2000 },
+      prompt: { system: 'System', user_template: '{kernel}', variables: ['kernel'], outputs_expected: 1 },
+      runtime: { timeout_ms: 1000, max_retries: 0, cost_usd_limit: 1 },
+    },
+  },
+};
+
+const spec: LLMSpec = {
+  task_id: 'ideas.generate',
+  system_prompt: 'System',
+  user_prompt: 'Generate ideas',
+  response_format: 'text',
+  constraints: { max_tokens: 2000 },
+};
+
+const response: AdapterResponse = {
+  outputs: ['idea'],
+  usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+  provider: 'anthropic',
+  model: 'claude',
+  cost_usd: 0.03,
+  duration_ms: 40,
+  raw_response: { id: 'msg_1' },
+};
+
+function countingExecutor() {
+  const state = { calls: 0 };
+  const executor = async () => {
+    state.calls++;
+    return response;
+  };
+  return { state, executor };
+}
+
+describe('llm cache', () => {
+  it('should serve repeated requests from cache with zero cost', async () => {
+    const { state, executor } = countingExecutor();
+    const cached = withCache(executor, new MemoryLLMCache(), { enabled: true, ttlSeconds: 60 });
+
+    const first = await runTask(spec, config, cached, undefined, { runId: 'run-a' });
+    const second = await runTask(spec, config, cached, undefined, { runId: 'run-b' });
+
+    assert.strictEqual(state.calls, 1);
+    assert.strictEqual(first.audit.cached, undefined);
+    assert.strictEqual(first.audit.cost_usd, 0.03);
+    assert.strictEqual(second.audit.cached, true);
+    assert.strictEqual(second.audit.cost_usd, 0);
+    assert.deepStrictEqual(second.outputs, ['idea']);
+  });
+
+  it('should not cache responses served by a fallback provider', async () => {
+    let calls = 0;
+    const executor = async () => {
+      calls++;
+      return {
+        ...response,
+        provider: 'openai',
+        metadata: {
+          served_by: 'openai',
+          skipped_providers: [{ provider: 'anthropic', reason: 'retryable_error' as const, error_code: 'RATE_LIMIT', message: 'overloaded' }],
+        },
+      };
+    };
+    const cached = withCache(executor, new MemoryLLMCache(), { enabled: true, ttlSeconds: 60 });
+
+    await cached(spec, 'anthropic', ['openai']);
+    const second = await cached(spec, 'anthropic', ['openai']);
+
+    assert.strictEqual(calls, 2);
+    assert.strictEqual(second.metadata?.cached, undefined);
+  });
+
+  it('should miss when the configured model changes', async () => {
+    const { state, executor } = countingExecutor();
+    const cache = new MemoryLLMCache();
+    const switched: PromptsConfig = {
+      ...config,
+      calls: {
+        'ideas.generate': {
+          ...config.calls['ideas.generate'],
+          model: { ...config.calls['ideas.generate'].model, name: 'claude-next' },
+        },
+      },
+    };
+
+    await withCache(executor, cache, { enabled: true, ttlSeconds: 60, config })(spec, 'anthropic', []);
+    await withCache(executor, cache, { enabled: true, ttlSeconds: 60, config: switched })(spec, 'anthropic', []);
+    await withCache(executor, cache, { enabled: true, ttlSeconds: 60, config })(spec, 'anthropic', []);
+
+    assert.strictEqual(state.calls, 2);
+  });
+
+  it('should evict responses whose outputs fail validation', async () => {
+    const { state, executor } = countingExecutor();
+    const cache = new MemoryLLMCache();
+    const cached = withCache(executor, cache, { enabled: true, ttlSeconds: 60 });
+    const reject = () => ({ passed: false, errors: ['Banned phrase: idea'], warnings: [] });
+
+    const first = await runTask(spec, config, cached, reject, { runId: 'run-a', cache });
+    const second = await runTask(spec, config, cached, undefined, { runId: 'run-b', cache });
+    const third = await runTask(spec, config, cached, undefined, { runId: 'run-c', cache });
+
+    assert.strictEqual(first.success, false);
+    assert.strictEqual(state.calls, 2);
+    assert.strictEqual(second.audit.cached, undefined);
+    assert.strictEqual(third.audit.cached, true);
+  });
+
+  it('should miss when prompts or constraints change', async () => {
+    const { state, executor } = countingExecutor();
+    const cached = withCache(executor, new MemoryLLMCache(), { enabled: true, ttlSeconds: 60 });
+
+    await cached(spec, 'anthropic', []);
+    await cached({ ...spec, user_prompt: 'Generate better ideas' }, 'anthropic', []);
+    await cached({ ...spec, constraints: { max_tokens: 1000 } }, 'anthropic', []);
+    await cached(spec, 'openai', []);
+
+    assert.strictEqual(state.calls, 4);
+  });
+
+  it('should expire entries after the TTL', async () => {
+    let now = 1_000_000;
+    const clock = () => now;
+    const { state, executor } = countingExecutor();
+    const cached = withCache(executor, new MemoryLLMCache({ now: clock }), {
+      enabled: true,
+      ttlSeconds: 10,
+      now: clock,
+    });
+
+    await cached(spec, 'anthropic', []);
+    now += 9_000;
+    await cached(spec, 'anthropic', []);
+    now += 2_000;
+    await cached(spec, 'anthropic', []);
+
+    assert.strictEqual(state.calls, 2);
+  });
+
+  it('should pass straight through when caching is disabled', async () => {
+    const { state, executor } = countingExecutor();
+    const cached = withCache(executor, new MemoryLLMCache(), { enabled: false, ttlSeconds: 60 });
+
+    await cached(spec, 'anthropic', []);
+    await cached(spec, 'anthropic', []);
+
+    assert.strictEqual(state.calls, 2);
+  });
+
+  it('should persist entries across instances of the file cache', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'brandpack-cache-'));
+    try {
+      const { state, executor } = countingExecutor();
+      const options = { enabled: true, ttlSeconds: 60 };
+
+      await withCache(executor, new FileLLMCache({ directory }), options)(spec, 'anthropic', []);
+      const hit = await withCache(executor, new FileLLMCache({ directory }), options)(
+        spec,
+        'anthropic',
+        []
+      );
+
+      assert.strictEqual(state.calls, 1);
+      assert.strictEqual(hit.metadata?.cached, true);
+      assert.strictEqual(hit.raw_response, null);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
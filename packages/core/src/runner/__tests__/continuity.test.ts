@@ -0,0 +1,97 @@
+/**
+ * Continuity Tests
+ *
+ * Tone and fact drift between copy blocks
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { checkContinuity } from '../continuity';
+import type { KernelPayload } from '../../kernel/compressor';
+
+const kernel = { tone: ['professional', 'trusted'], products: ['Widget Pro', 'Widget Lite'] } as KernelPayload;
+const thresholds = { tone_shift: 0.25, fact_drift: 0.2 };
+
+const blocks: Array<[string, string]> = [
+  ['hook', 'Ship campaigns 10x faster with Widget Pro, without adding headcount.'],
+  ['context', 'Growing marketing teams lose days to handoffs between writers, designers and reviewers.'],
+  ['proof', 'Teams using Widget Pro ship 10x faster, with a secure, certified workflow for every approval.'],
+  ['objection', 'Worried about switching? Import your existing assets in one click.'],
+  ['cta', 'Start your free trial of Widget Pro today.'],
+];
+
+describe('checkContinuity', () => {
+  it('should pass consistent copy and score every block pair', () => {
+    const report = checkContinuity(blocks, thresholds, kernel);
+
+    assert.strictEqual(report.passed, true);
+    assert.strictEqual(report.pairs.length, 10);
+    assert.deepStrictEqual(report.pairs[0], {
+      blocks: ['hook', 'context'],
+      tone_shift: 0,
+      fact_drift: 0,
+      conflicts: [],
+      passed: true,
+    });
+  });
+
+  it('should pass realistic on-brand copy that uses everyday copy words', () => {
+    const onBrand: Array<[string, string]> = [
+      ['hook', 'New: see real results from your data in days, not months.'],
+      ['context', 'Most teams still track campaign performance in spreadsheets that never stay up to date.'],
+      ['proof', 'Over 2,000 companies trust our secure platform to measure what matters, and 94% renew every year.'],
+      ['objection', 'Worried about setup? It is simple: connect your tools and we handle the rest, always with your data kept safe.'],
+      ['cta', 'Get results faster. Start your free trial today.'],
+    ];
+    const report = checkContinuity(onBrand, thresholds, {
+      tone: ['professional', 'trusted', 'analytical'],
+      products: [],
+    } as unknown as KernelPayload);
+
+    assert.strictEqual(report.passed, true, JSON.stringify(report.pairs));
+  });
+
+  it('should flag a block written in a plainly different register', () => {
+    const hype = blocks.map(([name, text]): [string, string] =>
+      name === 'objection'
+        ? [name, 'Never settle for less. Crush the competition and dominate your market with the ultimate, unbeatable platform.']
+        : [name, text],
+    );
+    const report = checkContinuity(hype, thresholds, kernel);
+    const failing = report.pairs.filter((pair) => !pair.passed);
+
+    assert.strictEqual(report.passed, false);
+    assert.ok(failing.length > 0 && failing.every((pair) => pair.blocks.includes('objection')));
+    assert.ok(failing.every((pair) => pair.tone_shift > thresholds.tone_shift && pair.fact_drift === 0));
+  });
+
+  it('should flag an off-brand block and figures or product names that change', () => {
+    const drifting = blocks.map(([name, text]): [string, string] =>
+      name === 'proof' ? [name, 'Wow, teams on Widget Max ship 5x faster! Yay, awesome party vibes, lol.'] : [name, text],
+    );
+    const report = checkContinuity(drifting, thresholds, kernel);
+    const hookProof = report.pairs.find((pair) => pair.blocks.join() === 'hook,proof');
+
+    assert.strictEqual(report.passed, false);
+    assert.deepStrictEqual(hookProof, {
+      blocks: ['hook', 'proof'],
+      tone_shift: 1,
+      fact_drift: 1,
+      conflicts: ['10x vs 5x', 'Widget Pro vs Widget Max'],
+      passed: false,
+    });
+    assert.strictEqual(report.pairs.find((pair) => pair.blocks.join() === 'hook,context')?.passed, true);
+  });
+
+  it('should treat 2k and 2,000 as the same figure and skip tone without kernel tones', () => {
+    const report = checkContinuity(
+      [
+        ['hook', 'Join 2k teams today!!! Wow!'],
+        ['proof', 'More than 2,000 teams rely on us.'],
+      ],
+      thresholds,
+    );
+
+    assert.deepStrictEqual(report.pairs.map((pair) => [pair.tone_shift, pair.fact_drift]), [[0, 0]]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Repair Tests
+ *
+ * Validation-driven repair rounds inside runTask
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { buildRepairSpec, resolveRepairRounds, MAX_REPAIR_ROUNDS } from '../repair';
+import { runTask } from '../orchestrator';
+import type { AdapterResponse } from '../../types/adapter';
+import type { PromptsConfig } from '../../types/config';
+import type { LLMSpec } from '../../types/spec';
+
+const config: PromptsConfig = {
+  version: '2.0.0',
+  updated_at: '2025-01-01T00:00:00Z',
+  global: { provider: 'anthropic', log_level: 'info', cache_enabled: false },
+  calls: {
+    'ideas.generate': {
+      model: { provider: 'anthropic', name: 'claude', temperature: 0.7, max_tokens: 2000 },
+      prompt: { system: 'System', user_template: '{kernel}', variables: ['kernel'], outputs_expected: 2 },
+      runtime: { timeout_ms: 1000, max_retries: 0, cost_usd_limit: 0.05 },
+    },
+  },
+};
+
+const spec: LLMSpec = {
+  task_id: 'ideas.generate',
+  system_prompt: 'System',
+  user_prompt: 'Generate ideas',
+  response_format: 'json',
+  constraints: {},
+};
+
+function respond(outputs: string[], cost = 0.01): AdapterResponse {
+  return {
+    outputs,
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    provider: 'anthropic',
+    model: 'claude',
+    cost_usd: cost,
+    duration_ms: 1,
+    raw_response: null,
+  };
+}
+
+const countValidator = (_taskId: string, outputs: unknown[]) =>
+  outputs.length === 2
+    ? { passed: true, errors: [], warnings: [] }
+    : { passed: false, errors: [`Expected 2 ideas, got ${outputs.length}`], warnings: [] };
+
+describe('repair', () => {
+  it('should only allow rounds for enabled, structured tasks', () => {
+    assert.strictEqual(resolveRepairRounds(spec), 0);
+    assert.strictEqual(resolveRepairRounds(spec, { enabled: true }), 1);
+    assert.strictEqual(resolveRepairRounds(spec, { enabled: true, maxRounds: 10 }), MAX_REPAIR_ROUNDS);
+    assert.strictEqual(
+      resolveRepairRounds({ ...spec, response_format: 'text' }, { enabled: true }),
+      0
+    );
+  });
+
+  it('should include the previous output and errors in the follow-up prompt', () => {
+    const repaired = buildRepairSpec(spec, ['[{"id":1}]'], ['Expected 2 ideas, got 1'], 1);
+
+    assert.ok(repaired.user_prompt.startsWith('Generate ideas'));
+    assert.ok(repaired.user_prompt.includes('[{"id":1}]'));
+    assert.ok(repaired.user_prompt.includes('- Expected 2 ideas, got 1'));
+    assert.strictEqual(repaired.metadata?.repair_round, 1);
+  });
+
+  it('should leave failures untouched when repair is not enabled', async () => {
+    let calls = 0;
+    const result = await runTask(
+      spec,
+      config,
+      async () => {
+        calls++;
+        return respond(['[{"id":1}]']);
+      },
+      countValidator
+    );
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(calls, 1);
+    assert.strictEqual(result.audit.repairs, undefined);
+  });
+
+  it('should repair a failing output and record the fixed errors', async () => {
+    const prompts: string[] = [];
+    const result = await runTask(
+      spec,
+      config,
+      async (s) => {
+        prompts.push(s.user_prompt);
+        return respond(prompts.length === 1 ? ['[{"id":1}]'] : ['[{"id":1},{"id":2}]']);
+      },
+      countValidator,
+      { repair: { enabled: true } }
+    );
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.outputs.length, 2);
+    assert.ok(prompts[1].includes('Expected 2 ideas, got 1'));
+    assert.strictEqual(result.audit.repairs?.length, 1);
+    assert.deepStrictEqual(result.audit.repairs?.[0].errors_fixed, ['Expected 2 ideas, got 1']);
+    assert.strictEqual(result.audit.cost_usd, 0.02);
+    assert.strictEqual(result.audit.usage.total_tokens, 30);
+  });
+
+  it('should repair outputs that are not valid JSON', async () => {
+    let calls = 0;
+    const result = await runTask(
+      spec,
+      config,
+      async () => {
+        calls++;
+        return respond(calls === 1 ? ['not json'] : ['[{"id":1},{"id":2}]']);
+      },
+      countValidator,
+      { repair: { enabled: true } }
+    );
+
+    assert.strictEqual(result.success, true);
+    assert.ok(result.audit.repairs?.[0].errors[0].startsWith('Failed to parse outputs'));
+  });
+
+  it('should stop before a round would exceed cost_usd_limit', async () => {
+    let calls = 0;
+    const result = await runTask(
+      spec,
+      config,
+      async () => {
+        calls++;
+        return respond(['[{"id":1}]'], 0.02);
+      },
+      countValidator,
+      { repair: { enabled: true, maxRounds: 3 } }
+    );
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(calls, 2);
+    assert.strictEqual(result.audit.repairs?.length, 1);
+    assert.deepStrictEqual(result.audit.repairs?.[0].remaining_errors, ['Expected 2 ideas, got 1']);
+    assert.ok(result.validation.warnings.some((w) => w.includes('cost_usd_limit')));
+  });
+});
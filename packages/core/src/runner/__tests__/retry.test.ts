@@ -0,0 +1,155 @@
+/**
+ * Retry Tests
+ *
+ * Backoff math and retry behaviour inside runTask
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { computeBackoffDelay, withDeadline } from '../retry';
+import { runTask } from '../orchestrator';
+import { AdapterError, AdapterErrorCode } from '../../types/adapter';
+import type { AdapterResponse } from '../../types/adapter';
+import type { PromptsConfig } from '../../types/config';
+import type { LLMSpec } from '../../types/spec';
+
+const config: PromptsConfig = {
+  version: '2.0.0',
+  updated_at: '2025-01-01T00:00:00Z',
+  global: { provider: 'anthropic', log_level: 'info', cache_enabled: false },
+  calls: {
+    'scrape.review_summarize': {
+      model: { provider: 'anthropic', name: 'claude', temperature: 0.1, max_tokens: 500 },
+      prompt: { system: 'System', user_template: '{kernel}', variables: ['kernel'], outputs_expected: 1 },
+      runtime: { timeout_ms: 200, max_retries: 2, cost_usd_limit: 1 },
+    },
+  },
+};
+
+const spec: LLMSpec = {
+  task_id: 'scrape.review_summarize',
+  system_prompt: 'System',
+  user_prompt: 'Kernel',
+  response_format: 'text',
+  constraints: {},
+};
+
+const response: AdapterResponse = {
+  outputs: ['ok'],
+  usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+  provider: 'anthropic',
+  model: 'claude',
+  cost_usd: 0,
+  duration_ms: 1,
+  raw_response: null,
+};
+
+const noSleep = { sleep: async () => undefined };
+
+describe('retry', () => {
+  describe('computeBackoffDelay', () => {
+    it('should grow exponentially and respect the cap', () => {
+      const policy = { baseDelayMs: 100, maxDelayMs: 350, jitter: 0 };
+
+      assert.strictEqual(computeBackoffDelay(1, policy), 100);
+      assert.strictEqual(computeBackoffDelay(2, policy), 200);
+      assert.strictEqual(computeBackoffDelay(3, policy), 350);
+    });
+
+    it('should randomize within the jitter fraction', () => {
+      const policy = { baseDelayMs: 1000, maxDelayMs: 8000, jitter: 0.5 };
+
+      assert.strictEqual(computeBackoffDelay(1, policy, () => 0), 1000);
+      assert.strictEqual(computeBackoffDelay(1, policy, () => 1), 500);
+    });
+  });
+
+  describe('withDeadline', () => {
+    it('should reject with a TIMEOUT AdapterError and abort the call', async () => {
+      let seen: AbortSignal | undefined;
+      await assert.rejects(
+        withDeadline((signal) => {
+          seen = signal;
+          return new Promise(() => undefined);
+        }, 10, 'anthropic'),
+        (error: unknown) =>
+          error instanceof AdapterError && error.code === AdapterErrorCode.TIMEOUT
+      );
+      assert.strictEqual(seen?.aborted, true);
+      assert.ok(seen?.reason instanceof AdapterError);
+    });
+
+    it('should leave the signal alone when the call finishes in time', async () => {
+      let seen: AbortSignal | undefined;
+      const value = await withDeadline(async (signal) => {
+        seen = signal;
+        return 'done';
+      }, 50, 'anthropic');
+      assert.strictEqual(value, 'done');
+      assert.strictEqual(seen?.aborted, false);
+    });
+  });
+
+  describe('runTask', () => {
+    it('should retry retryable errors and record every attempt', async () => {
+      let calls = 0;
+      const result = await runTask(
+        spec,
+        config,
+        async () => {
+          calls++;
+          if (calls < 3) {
+            throw new AdapterError('slow down', 'anthropic', AdapterErrorCode.RATE_LIMITED);
+          }
+          return response;
+        },
+        undefined,
+        { retry: noSleep }
+      );
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(calls, 3);
+      assert.deepStrictEqual(
+        result.audit.attempts.map((a) => a.error_code),
+        [AdapterErrorCode.RATE_LIMITED, AdapterErrorCode.RATE_LIMITED, undefined]
+      );
+    });
+
+    it('should not retry authentication failures', async () => {
+      let calls = 0;
+      const result = await runTask(
+        spec,
+        config,
+        async () => {
+          calls++;
+          throw new AdapterError('bad key', 'anthropic', AdapterErrorCode.AUTHENTICATION_FAILED);
+        },
+        undefined,
+        { retry: noSleep }
+      );
+
+      assert.strictEqual(result.success, false);
+      assert.strictEqual(calls, 1);
+      assert.strictEqual(result.audit.attempts.length, 1);
+    });
+
+    it('should give up after max_retries and time out hung calls', async () => {
+      let calls = 0;
+      const result = await runTask(
+        spec,
+        config,
+        async () => {
+          calls++;
+          return new Promise<AdapterResponse>(() => undefined);
+        },
+        undefined,
+        { retry: noSleep }
+      );
+
+      assert.strictEqual(result.success, false);
+      assert.strictEqual(calls, 3);
+      assert.ok(result.audit.attempts.every((a) => a.error_code === AdapterErrorCode.TIMEOUT));
+      assert.ok(result.validation.errors[0].includes('deadline'));
+    });
+  });
+});
@@ -133,6 +133,25 @@ describe('task-builder', () => {
       assert.strictEqual(spec.metadata?.domain, 'example.com');
     });
 
+    it('should request structured output when the call declares a schema', () => {
+      const schema = { type: 'array', items: { type: 'object' }, minItems: 20 };
+      const config: PromptsConfig = {
+        ...mockConfig,
+        calls: {
+          ...mockConfig.calls,
+          'ideas.generate': {
+            ...mockConfig.calls['ideas.generate'],
+            prompt: { ...mockConfig.calls['ideas.generate'].prompt, schema },
+          },
+        },
+      };
+
+      const spec = buildIdeasGenerateSpec(config, mockKernel);
+
+      assert.strictEqual(spec.response_format, 'structured');
+      assert.deepStrictEqual(spec.schema, schema);
+    });
+
     it('should interpolate kernel into user prompt', () => {
       const spec = buildIdeasGenerateSpec(mockConfig, mockKernel);
 
@@ -216,6 +235,25 @@ describe('task-builder', () => {
       assert.strictEqual(ideasConfig.provider, 'anthropic');
       assert.strictEqual(imageConfig.provider, 'openai');
     });
+
+    it('should return fallback providers, defaulting to none', () => {
+      const config: PromptsConfig = {
+        ...mockConfig,
+        calls: {
+          ...mockConfig.calls,
+          'ideas.generate': {
+            ...mockConfig.calls['ideas.generate'],
+            model: {
+              ...mockConfig.calls['ideas.generate'].model,
+              fallback_providers: ['openai', 'noop-llm'],
+            },
+          },
+        },
+      };
+
+      assert.deepStrictEqual(getCallConfig(config, 'ideas.generate').fallbackProviders, ['openai', 'noop-llm']);
+      assert.deepStrictEqual(getCallConfig(mockConfig, 'image.brief_generate').fallbackProviders, []);
+    });
   });
 });
 
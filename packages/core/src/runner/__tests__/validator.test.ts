@@ -13,6 +13,7 @@ import {
   validateTaskOutput,
 } from '../validator';
 import type { PromptsConfig } from '../../types/config';
+import { compressKernel } from '../../kernel/compressor';
 
 // Mock config with validation rules
 const mockConfig: PromptsConfig = {
@@ -424,5 +425,180 @@ describe('validator', () => {
       assert.ok(result.warnings.some(w => w.includes('No validator defined')));
     });
   });
-});
 
+  describe('length limits', () => {
+    const blocks = (texts: Record<string, string>) => [
+      Object.fromEntries(
+        Object.entries(texts).map(([name, text]) => [name, { text, character_count: 0, evidence_keys: [] }]),
+      ),
+    ];
+    const copy = blocks({
+      hook: 'Ship reviews in minutes',
+      context: 'X'.repeat(110),
+      proof: 'X'.repeat(110),
+      objection: 'X'.repeat(90),
+      cta: 'X'.repeat(40),
+    });
+
+    it('should read per-slot ranges and fall back to min_chars/max_chars', () => {
+      const config: PromptsConfig = {
+        ...mockConfig,
+        validation: {
+          ...mockConfig.validation,
+          length: { min_chars: 100, max_chars: 105, per_slot: { hook: { min: 10, max: 30 }, cta: { min: 10, max: 30 } } },
+        },
+      };
+
+      const result = validateCopy(copy, config);
+
+      assert.deepStrictEqual(
+        result.warnings.filter((w) => w.includes('too ')),
+        [
+          'Block context too long: 110 chars (max: 105)',
+          'Block proof too long: 110 chars (max: 105)',
+          'Block objection too short: 90 chars (min: 100)',
+          'Block cta too long: 40 chars (max: 30)',
+        ],
+      );
+    });
+
+    it('should prefer limits from the validation context', () => {
+      const result = validateCopy(copy, mockConfig, {
+        length: { min_chars: 0, max_chars: 1000, per_slot: { hook: { min: 1, max: 3 } } },
+      });
+
+      assert.deepStrictEqual(
+        result.warnings.filter((w) => w.includes('too ')),
+        ['Block hook too long: 23 chars (max: 3)'],
+      );
+    });
+
+    it('should count words and grapheme clusters', () => {
+      const emojiAndCjk = blocks({
+        hook: '🚀👩‍💻 出荷',
+        context: 'X'.repeat(110),
+        proof: 'X'.repeat(110),
+        objection: 'X'.repeat(90),
+        cta: 'Start your free trial today',
+      });
+
+      const result = validateCopy(emojiAndCjk, mockConfig, {
+        length: {
+          min_chars: 0,
+          max_chars: 1000,
+          per_slot: {
+            hook: { min: 6, max: 10, unit: 'graphemes' },
+            cta: { min: 6, max: 10, unit: 'words' },
+          },
+        },
+      });
+
+      assert.deepStrictEqual(
+        result.warnings.filter((w) => w.includes('too ')),
+        ['Block hook too short: 5 graphemes (min: 6)', 'Block cta too short: 5 words (min: 6)'],
+      );
+    });
+  });
+
+  describe('continuity', () => {
+    it('should attach per-pair scores and fail pairs above the thresholds', () => {
+      const text = (base: string) => `${base} ${'Teams keep every review in one place.'.repeat(2)}`;
+      const copy = [
+        {
+          hook: { text: text('Ship 10x faster.'), character_count: 0, evidence_keys: ['products'] },
+          context: { text: text('Handoffs slow teams down.'), character_count: 0, evidence_keys: ['products'] },
+          proof: { text: text('Teams ship 4x faster.'), character_count: 0, evidence_keys: ['products'] },
+          objection: { text: text('Switching takes one click.'), character_count: 0, evidence_keys: ['products'] },
+          cta: { text: text('Start today.'), character_count: 0, evidence_keys: ['products'] },
+        },
+      ];
+      const config: PromptsConfig = {
+        ...mockConfig,
+        validation: {
+          ...mockConfig.validation,
+          continuity: { enabled: true, thresholds: { tone_shift: 0.25, fact_drift: 0.2 } },
+        },
+      };
+
+      const result = validateCopy(copy, config);
+
+      assert.strictEqual(result.passed, false);
+      assert.strictEqual(result.continuity?.pairs.length, 10);
+      assert.deepStrictEqual(result.errors, [
+        'Blocks hook and proof lose continuity: fact_drift 1 > 0.2 (10x vs 4x)',
+      ]);
+      assert.strictEqual(validateCopy(copy, mockConfig).continuity, undefined);
+    });
+  });
+
+  describe('evidence policy', () => {
+    const kernel = compressKernel({
+      domain: 'acme.example.com',
+      sources: [
+        {
+          url: 'https://acme.example.com/',
+          content: 'Built for growing marketing teams.\nShips 10x faster.\nTrusted by teams at Globex and Initech since 2015.',
+          content_type: 'homepage',
+        },
+      ],
+    });
+    const strictConfig: PromptsConfig = {
+      ...mockConfig,
+      validation: {
+        ...mockConfig.validation,
+        evidence_policy: { required_for: ['ideas', 'copy'], allow_empty: false },
+      },
+    };
+    const block = (text: string, evidence_keys: string[]) => ({
+      text,
+      character_count: text.length,
+      evidence_keys,
+    });
+    const copyWith = (proof: ReturnType<typeof block>) => [
+      {
+        hook: block('Ship campaigns 10x faster without adding headcount to the team.', ['proof_points.metrics.0']),
+        context: block('Growing marketing teams juggle too many tools and lose days to handoffs.', ['audience']),
+        proof,
+        objection: block('Worried about switching? Import your existing assets in one click.', []),
+        cta: block('Start shipping faster with Acme today.', ['unique_angle']),
+      },
+    ];
+
+    it('should fail unknown keys and invented figures for required outputs', () => {
+      const result = validateCopy(
+        copyWith(block('Trusted by Globex, Hooli and Initech, teams cut review time by 40%.', ['mock.evidence.1'])),
+        strictConfig,
+        { kernel },
+      );
+
+      assert.strictEqual(result.passed, false);
+      assert.ok(result.errors.includes('Block proof cites evidence keys missing from the kernel: mock.evidence.1'));
+      assert.ok(result.errors.includes('Block proof makes claims not found in the kernel: 40% (percentage), Hooli (customer)'));
+      assert.ok(result.errors.includes('Block objection has empty evidence keys (no evidence keys cited)'));
+      assert.ok(!result.errors.some((error) => error.startsWith('Block hook')));
+    });
+
+    it('should pass supported claims and downgrade to warnings outside required_for', () => {
+      const supported = copyWith(block('Trusted by Globex and Initech to ship 10x faster.', ['proof.metrics', 'proof_points.customers']));
+      const lenient: PromptsConfig = {
+        ...strictConfig,
+        validation: { ...strictConfig.validation, evidence_policy: { required_for: ['copy'], allow_empty: true } },
+      };
+
+      const result = validateCopy(supported, lenient, { kernel });
+      assert.deepStrictEqual(result.errors, []);
+      assert.ok(result.warnings.includes('Block objection has empty evidence keys (no evidence keys cited)'));
+
+      const ideas = Array.from({ length: 20 }, () => ({
+        headline: 'Cut costs by 75%',
+        angle: 'savings',
+        audience: 'marketers',
+        format: 'social',
+        supporting_evidence_keys: ['competitors_implied'],
+      }));
+      const ideasResult = validateIdeas(ideas, lenient, { kernel });
+      assert.strictEqual(ideasResult.passed, true);
+      assert.ok(ideasResult.warnings.includes('Idea 1 makes claims not found in the kernel: 75% (percentage)'));
+    });
+  });
+});
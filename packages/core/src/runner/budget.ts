@@ -0,0 +1,229 @@
+/**
+ * Budget - Per-run and per-stage spend tracking
+ *
+ * The ledger keeps actual cost and token usage per run ID. Before each call
+ * the orchestrator checks the estimated cost against the budgets block and
+ * the call's cost_usd_limit; calls that would exceed a limit are refused
+ * with AdapterErrorCode.BUDGET_EXCEEDED.
+ */
+
+import { AdapterError, AdapterErrorCode } from '../types/adapter';
+import type { PromptsConfig } from '../types/config';
+import type { LLMSpec } from '../types/spec';
+
+/**
+ * Limits that apply to one call. Zero or missing means unlimited.
+ */
+export interface BudgetLimits {
+  max_cost_per_run: number;
+  max_tokens_per_run: number;
+  alert_threshold_usd: number;
+  stage_max_cost: number;
+  stage_max_tokens: number;
+  call_max_cost: number;
+}
+
+export interface BudgetEstimate {
+  cost_usd: number;
+  total_tokens: number;
+}
+
+export interface StageUsage {
+  calls: number;
+  cost_usd: number;
+  total_tokens: number;
+}
+
+export interface RunBudgetUsage {
+  run_id: string;
+  cost_usd: number;
+  total_tokens: number;
+  stages: Record<string, StageUsage>;
+  alerted: boolean;
+}
+
+/**
+ * Emitted once per run when spend crosses alert_threshold_usd
+ */
+export interface BudgetAlertEvent {
+  type: 'budget.alert_threshold';
+  run_id: string;
+  stage: string;
+  spent_usd: number;
+  threshold_usd: number;
+  max_cost_per_run: number;
+  timestamp: string;
+}
+
+export interface BudgetLedgerOptions {
+  onAlert?: (event: BudgetAlertEvent) => void;
+  /** Runs that recorded spend least recently are dropped beyond this many (default 1000) */
+  maxRuns?: number;
+}
+
+/**
+ * Cost estimator injected by the caller (adapters know pricing)
+ */
+export type CostEstimator = (spec: LLMSpec, provider: string) => number;
+
+/**
+ * Resolve the limits for a task from the prompts config
+ */
+export function resolveBudgetLimits(config: PromptsConfig, taskId: string): BudgetLimits {
+  const budgets = config.budgets;
+  const stage = budgets?.per_stage?.[taskId];
+
+  return {
+    max_cost_per_run: budgets?.max_cost_per_run ?? 0,
+    max_tokens_per_run: budgets?.max_tokens_per_run ?? 0,
+    alert_threshold_usd: budgets?.alert_threshold_usd ?? 0,
+    stage_max_cost: stage?.max_cost ?? 0,
+    stage_max_tokens: stage?.max_tokens ?? 0,
+    call_max_cost: config.calls[taskId]?.runtime.cost_usd_limit ?? 0,
+  };
+}
+
+/**
+ * Rough prompt token count (4 chars per token), used for token limits
+ */
+export function estimatePromptTokens(spec: LLMSpec): number {
+  return Math.ceil((spec.system_prompt.length + spec.user_prompt.length) / 4);
+}
+
+function exceeds(limit: number, value: number): boolean {
+  return limit > 0 && value > limit;
+}
+
+export class BudgetLedger {
+  private readonly runs = new Map<string, RunBudgetUsage>();
+  private readonly onAlert?: (event: BudgetAlertEvent) => void;
+  private readonly maxRuns: number;
+
+  constructor(options: BudgetLedgerOptions = {}) {
+    this.onAlert = options.onAlert;
+    this.maxRuns = options.maxRuns ?? 1000;
+  }
+
+  /**
+   * Throw BUDGET_EXCEEDED if the estimated call would break any limit
+   */
+  check(
+    runId: string,
+    stage: string,
+    estimate: BudgetEstimate,
+    limits: BudgetLimits,
+    provider = 'unknown'
+  ): void {
+    const usage = this.getUsage(runId);
+    const stageUsage = usage.stages[stage] ?? { calls: 0, cost_usd: 0, total_tokens: 0 };
+
+    const violations: string[] = [];
+    if (exceeds(limits.call_max_cost, estimate.cost_usd)) {
+      violations.push(
+        `estimated $${estimate.cost_usd.toFixed(4)} exceeds the call limit of $${limits.call_max_cost.toFixed(2)}`
+      );
+    }
+    if (exceeds(limits.stage_max_cost, stageUsage.cost_usd + estimate.cost_usd)) {
+      violations.push(
+        `stage "${stage}" would spend $${(stageUsage.cost_usd + estimate.cost_usd).toFixed(4)} of $${limits.stage_max_cost.toFixed(2)}`
+      );
+    }
+    if (exceeds(limits.stage_max_tokens, stageUsage.total_tokens + estimate.total_tokens)) {
+      violations.push(
+        `stage "${stage}" would use ${stageUsage.total_tokens + estimate.total_tokens} of ${limits.stage_max_tokens} tokens`
+      );
+    }
+    if (exceeds(limits.max_cost_per_run, usage.cost_usd + estimate.cost_usd)) {
+      violations.push(
+        `run would spend $${(usage.cost_usd + estimate.cost_usd).toFixed(4)} of $${limits.max_cost_per_run.toFixed(2)}`
+      );
+    }
+    if (exceeds(limits.max_tokens_per_run, usage.total_tokens + estimate.total_tokens)) {
+      violations.push(
+        `run would use ${usage.total_tokens + estimate.total_tokens} of ${limits.max_tokens_per_run} tokens`
+      );
+    }
+
+    if (violations.length > 0) {
+      throw new AdapterError(
+        `Budget exceeded: ${violations.join('; ')}`,
+        provider,
+        AdapterErrorCode.BUDGET_EXCEEDED,
+        { run_id: runId, stage, estimate, usage, limits }
+      );
+    }
+  }
+
+  /**
+   * Record actual spend and fire the alert once the threshold is crossed
+   */
+  record(runId: string, stage: string, actual: BudgetEstimate, limits: BudgetLimits): RunBudgetUsage {
+    const usage = this.ensureRun(runId);
+    const stageUsage = (usage.stages[stage] ??= { calls: 0, cost_usd: 0, total_tokens: 0 });
+
+    stageUsage.calls += 1;
+    stageUsage.cost_usd += actual.cost_usd;
+    stageUsage.total_tokens += actual.total_tokens;
+    usage.cost_usd += actual.cost_usd;
+    usage.total_tokens += actual.total_tokens;
+
+    if (
+      !usage.alerted &&
+      limits.alert_threshold_usd > 0 &&
+      usage.cost_usd >= limits.alert_threshold_usd
+    ) {
+      usage.alerted = true;
+      this.onAlert?.({
+        type: 'budget.alert_threshold',
+        run_id: runId,
+        stage,
+        spent_usd: usage.cost_usd,
+        threshold_usd: limits.alert_threshold_usd,
+        max_cost_per_run: limits.max_cost_per_run,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return this.snapshot(usage);
+  }
+
+  getUsage(runId: string): RunBudgetUsage {
+    const usage = this.runs.get(runId);
+    return usage
+      ? this.snapshot(usage)
+      : { run_id: runId, cost_usd: 0, total_tokens: 0, stages: {}, alerted: false };
+  }
+
+  reset(runId?: string): void {
+    if (runId) {
+      this.runs.delete(runId);
+    } else {
+      this.runs.clear();
+    }
+  }
+
+  private ensureRun(runId: string): RunBudgetUsage {
+    const usage = this.runs.get(runId) ?? {
+      run_id: runId,
+      cost_usd: 0,
+      total_tokens: 0,
+      stages: {},
+      alerted: false,
+    };
+    this.runs.delete(runId);
+    this.runs.set(runId, usage);
+    while (this.runs.size > this.maxRuns) {
+      const oldest = this.runs.keys().next().value as string;
+      this.runs.delete(oldest);
+    }
+    return usage;
+  }
+
+  private snapshot(usage: RunBudgetUsage): RunBudgetUsage {
+    const stages: Record<string, StageUsage> = {};
+    for (const [stage, value] of Object.entries(usage.stages)) {
+      stages[stage] = { ...value };
+    }
+    return { ...usage, stages };
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * LLM Cache - Content-addressed adapter response cache
+ *
+ * Responses are keyed by computeRequestHash(spec, provider, model), so
+ * identical prompts, constraints, model and provider share an entry
+ * regardless of run. Wrap the executor passed to runTask with `withCache`;
+ * hits come back with `metadata.cached: true` and `cost_usd: 0`. Responses
+ * served by a fallback provider are not cached, so a later hit always
+ * comes from the provider the key names. Responses carry their key in
+ * `metadata.cache_key`; pass the same cache to runTask (`options.cache`)
+ * so entries whose outputs fail validation are evicted.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { AdapterResponse } from '../types/adapter';
+import type { PromptsConfig } from '../types/config';
+import type { TaskExecutor } from './orchestrator';
+import { computeRequestHash } from './request-hash';
+
+export interface LLMCacheEntry {
+  key: string;
+  response: AdapterResponse;
+  created_at: number;
+  expires_at: number;
+}
+
+export interface LLMCache {
+  get(key: string): Promise<LLMCacheEntry | undefined>;
+  set(entry: LLMCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface MemoryLLMCacheOptions {
+  /** Oldest entries are evicted beyond this size (default 500) */
+  maxEntries?: number;
+  now?: () => number;
+}
+
+/**
+ * In-process cache (tests, single server instance)
+ */
+export class MemoryLLMCache implements LLMCache {
+  private readonly entries = new Map<string, LLMCacheEntry>();
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  constructor(options: MemoryLLMCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 500;
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(key: string): Promise<LLMCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expires_at <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set(entry: LLMCacheEntry): Promise<void> {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export interface FileLLMCacheOptions {
+  /** Directory that holds one `<key>.json` file per entry */
+  directory: string;
+  now?: () => number;
+}
+
+/**
+ * On-disk cache, one JSON file per request hash
+ */
+export class FileLLMCache implements LLMCache {
+  private readonly directory: string;
+  private readonly now: () => number;
+
+  constructor(options: FileLLMCacheOptions) {
+    this.directory = path.resolve(options.directory);
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(key: string): Promise<LLMCacheEntry | undefined> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.fileFor(key), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    let entry: LLMCacheEntry;
+    try {
+      entry = JSON.parse(contents) as LLMCacheEntry;
+    } catch {
+      // partially written entry
+      await this.delete(key);
+      return undefined;
+    }
+
+    if (entry.expires_at <= this.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set(entry: LLMCacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = this.fileFor(entry.key);
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(entry), 'utf-8');
+    await fs.rename(temp, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  private fileFor(key: string): string {
+    const safeKey = key.replace(/[^a-zA-Z0-9_.-]/g, '_');
+    return path.join(this.directory, `${safeKey}.json`);
+  }
+}
+
+export interface WithCacheOptions {
+  /** Mirrors global.cache_enabled */
+  enabled: boolean;
+
+  /** Mirrors global.cache_ttl_seconds.llm; 0 disables caching */
+  ttlSeconds: number;
+
+  /**
+   * Config the calls' model names are read from, so changing a call's
+   * model misses the cache
+   */
+  config?: PromptsConfig;
+
+  now?: () => number;
+}
+
+/**
+ * Wrap a task executor with a response cache
+ *
+ * Cache read/write failures are logged and fall through to the executor.
+ */
+export function withCache(
+  executor: TaskExecutor,
+  cache: LLMCache,
+  options: WithCacheOptions
+): TaskExecutor {
+  if (!options.enabled || options.ttlSeconds <= 0) {
+    return executor;
+  }
+
+  const now = options.now ?? Date.now;
+
+  return async (spec, provider, fallbackProviders, signal) => {
+    const key = computeRequestHash(spec, provider, options.config?.calls[spec.task_id]?.model.name);
+    const start = now();
+
+    try {
+      const hit = await cache.get(key);
+      if (hit) {
+        return {
+          ...hit.response,
+          cost_usd: 0,
+          duration_ms: now() - start,
+          metadata: { ...hit.response.metadata, cached: true, cache_key: key },
+        };
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('[CACHE] Read failed:', (error as Error).message);
+    }
+
+    const response = await executor(spec, provider, fallbackProviders, signal);
+
+    // A fallback answered; caching it under the primary's key would replay it as the primary's
+    if ((response.metadata?.skipped_providers?.length ?? 0) > 0) {
+      return response;
+    }
+
+    try {
+      const createdAt = now();
+      await cache.set({
+        key,
+        response: { ...response, raw_response: null },
+        created_at: createdAt,
+        expires_at: createdAt + options.ttlSeconds * 1000,
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('[CACHE] Write failed:', (error as Error).message);
+      return response;
+    }
+
+    return { ...response, metadata: { ...response.metadata, cache_key: key } };
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Continuity - tone and fact drift across the five copy blocks
+ *
+ * Every pair of blocks gets two scores in [0, 1]:
+ * - tone_shift: the difference in how far each block leans away from the
+ *   kernel's tone list, towards cue words of other tones (0 when the
+ *   kernel names no known tone)
+ * - fact_drift: the share of facts both blocks state that disagree, e.g.
+ *   "10x faster" in the hook and "5x faster" in the proof, or a product
+ *   called "Widget Max" where another block says "Widget Pro"
+ */
+
+import type { KernelPayload } from '../kernel/compressor';
+
+export interface ContinuityThresholds {
+  tone_shift: number;
+  fact_drift: number;
+}
+
+export interface ContinuityPair {
+  blocks: [string, string];
+  tone_shift: number;
+  fact_drift: number;
+  /**
+   * Disagreeing facts, as "<block a value> vs <block b value>"
+   */
+  conflicts: string[];
+  passed: boolean;
+}
+
+export interface ContinuityReport {
+  passed: boolean;
+  thresholds: ContinuityThresholds;
+  pairs: ContinuityPair[];
+}
+
+/**
+ * Cue words per tone descriptor; the descriptors match the ones the
+ * kernel compressor detects. Presence is measured as cue density, so an
+ * everyday word such as "new" or "results" in on-brand copy only reads as
+ * a light lean, while a block built on another register stands out.
+ */
+const TONE_CUES: Record<string, string[]> = {
+  professional: ['ensure', 'solution', 'solutions', 'efficient', 'efficiency', 'deliver', 'streamline', 'comprehensive', 'optimize', 'workflow', 'enterprise', 'stakeholders', 'leverage'],
+  friendly: ['hey', 'hi', 'happy', 'love', 'glad', 'welcome', 'enjoy', 'thanks', 'friends', 'hello', 'folks', 'cheers'],
+  expert: ['proven', 'research', 'insight', 'insights', 'methodology', 'specialist', 'specialists', 'expertise', 'experts', 'benchmark', 'framework'],
+  playful: ['wow', 'oops', 'yay', 'lol', 'awesome', 'super', 'magic', 'fun', 'party', 'cool', 'epic', 'vibes'],
+  bold: ['never', 'unstoppable', 'dare', 'radically', 'ultimate', 'fearless', 'relentless', 'dominate', 'crush', 'boldly', 'game-changing', 'unbeatable'],
+  analytical: ['measure', 'metrics', 'percent', 'compare', 'data', 'analysis', 'track', 'rate', 'average', 'results', 'roi', 'forecast'],
+  innovative: ['new', 'first', 'reimagine', 'breakthrough', 'ai', 'next-generation', 'modern', 'pioneering', 'cutting-edge', 'innovative', 'revolutionary', 'future'],
+  trusted: ['trusted', 'trust', 'secure', 'security', 'reliable', 'certified', 'compliant', 'guarantee', 'guaranteed', 'safe', 'privacy', 'uptime'],
+  human: ['people', 'together', 'story', 'stories', 'real', 'feel', 'care', 'human', 'community', 'everyone', 'family'],
+  approachable: ['simple', 'easy', 'anyone', 'effortless', 'painless', 'straightforward', 'jargon', 'plain', 'beginner', 'hassle-free'],
+};
+
+/** Tones that exclamation marks count towards */
+const EXCLAIMING_TONES = new Set(['playful', 'bold', 'friendly']);
+
+/**
+ * A tone is fully present at one cue per ten words, and never at fewer
+ * than four cues, so a single cue word in a short CTA stays a light lean
+ */
+const FULL_PRESENCE_DENSITY = 0.1;
+const FULL_PRESENCE_MIN_CUES = 4;
+
+const FIGURE = /(?<![\w.])([$€£]\s?)?(\d[\d,]*(?:\.\d+)?)(\s?%|\s?[xX]\b|[kKmMbB]\b|\+)?\s*([A-Za-z][\w-]*)?/g;
+const SUFFIX_MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+/**
+ * Score every pair of blocks, in block order
+ */
+export function checkContinuity(
+  blocks: Array<[name: string, text: string]>,
+  thresholds: ContinuityThresholds,
+  kernel?: KernelPayload,
+): ContinuityReport {
+  const brandTones = (kernel?.tone ?? []).map((tone) => tone.toLowerCase()).filter((tone) => tone in TONE_CUES);
+  const productNames = kernelProductNames(kernel);
+  const profiles = blocks.map(([, text]) => ({
+    lean: offBrandLean(text, brandTones),
+    facts: extractFacts(text, productNames),
+  }));
+
+  const pairs: ContinuityPair[] = [];
+  for (let i = 0; i < blocks.length; i++) {
+    for (let j = i + 1; j < blocks.length; j++) {
+      const toneShift = round(Math.abs(profiles[i].lean - profiles[j].lean));
+      const { drift, conflicts } = compareFacts(profiles[i].facts, profiles[j].facts);
+      const factDrift = round(drift);
+      pairs.push({
+        blocks: [blocks[i][0], blocks[j][0]],
+        tone_shift: toneShift,
+        fact_drift: factDrift,
+        conflicts,
+        passed: toneShift <= thresholds.tone_shift && factDrift <= thresholds.fact_drift,
+      });
+    }
+  }
+
+  return { passed: pairs.every((pair) => pair.passed), thresholds, pairs };
+}
+
+/**
+ * How strongly a block leans towards tones outside the brand's: the
+ * strongest other tone minus the average brand tone, in [0, 1], with
+ * presence measured as cue density rather than raw counts
+ */
+function offBrandLean(text: string, brandTones: string[]): number {
+  if (brandTones.length === 0) return 0;
+  const words = text.toLowerCase().match(/[a-z][a-z'-]*/g) ?? [];
+  const exclamations = (text.match(/!/g) ?? []).length;
+  const fullPresence = Math.max(FULL_PRESENCE_MIN_CUES, words.length * FULL_PRESENCE_DENSITY);
+  const presence = (tone: string) => {
+    const cues = TONE_CUES[tone];
+    const hits = words.filter((word) => cues.includes(word)).length;
+    return Math.min(1, (hits + (EXCLAIMING_TONES.has(tone) ? exclamations / 2 : 0)) / fullPresence);
+  };
+
+  const brand = brandTones.reduce((sum, tone) => sum + presence(tone), 0) / brandTones.length;
+  const other = Math.max(
+    0,
+    ...Object.keys(TONE_CUES).filter((tone) => !brandTones.includes(tone)).map(presence),
+  );
+  return Math.max(0, Math.min(1, other - brand));
+}
+
+/**
+ * Product-like names from the kernel: short product entries, as structured
+ * data yields them
+ */
+function kernelProductNames(kernel?: KernelPayload): string[] {
+  return (kernel?.products ?? []).filter((product) => product.split(/\s+/).length <= 4);
+}
+
+interface Facts {
+  /** Figure keyed by unit and the word after it, e.g. "x:faster" → "10" */
+  figures: Map<string, string>;
+  /** Product names as written, keyed by their lowercased first word */
+  products: Map<string, string[]>;
+}
+
+function extractFacts(text: string, productNames: string[]): Facts {
+  const figures = new Map<string, string>();
+  for (const match of text.matchAll(FIGURE)) {
+    const [raw, currency = '', digits, unit = '', word = ''] = match;
+    const suffix = unit.trim().toLowerCase();
+    const amount = Number(digits.replace(/,/g, ''));
+    if (!Number.isFinite(amount) || (!currency && !suffix && amount < 10)) continue;
+    if (raw.trim() === digits && /^(?:19|20)\d\d$/.test(digits)) continue;
+    const key = `${currency.trim() || suffix.replace(/[kmb]/, '')}:${word.toLowerCase()}`;
+    if (!figures.has(key)) {
+      figures.set(key, `${currency.trim()}${amount * (SUFFIX_MULTIPLIERS[suffix] ?? 1)}${suffix === '%' || suffix === 'x' ? suffix : ''}`);
+    }
+  }
+
+  const products = new Map<string, string[]>();
+  const lower = text.toLowerCase();
+  const families = new Set(productNames.map((name) => name.split(/\s+/)[0]));
+  for (const family of families) {
+    const named = productNames.filter(
+      (name) => name.split(/\s+/)[0] === family && lower.includes(name.toLowerCase()),
+    );
+    // Otherwise look for a variant: the family's first word with a different suffix
+    const variants = named.length > 0
+      ? named
+      : Array.from(text.matchAll(new RegExp(`\\b${escapeRegExp(family)}(?:\\s+[A-Z0-9][\\w-]*)+`, 'g')), (match) => match[0]);
+    if (variants.length > 0) products.set(family.toLowerCase(), variants);
+  }
+
+  return { figures, products };
+}
+
+/**
+ * Share of the facts both blocks state that disagree
+ */
+function compareFacts(a: Facts, b: Facts): { drift: number; conflicts: string[] } {
+  let shared = 0;
+  const conflicts: string[] = [];
+  for (const [key, value] of a.figures) {
+    const other = b.figures.get(key);
+    if (other === undefined) continue;
+    shared++;
+    if (other !== value) conflicts.push(`${value} vs ${other}`);
+  }
+  for (const [family, names] of a.products) {
+    const others = b.products.get(family);
+    if (!others) continue;
+    shared++;
+    const lowered = others.map((name) => name.toLowerCase());
+    if (!names.some((name) => lowered.includes(name.toLowerCase()))) {
+      conflicts.push(`${names.join(', ')} vs ${others.join(', ')}`);
+    }
+  }
+  return { drift: shared === 0 ? 0 : conflicts.length / shared, conflicts };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(3));
+}
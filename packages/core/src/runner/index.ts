@@ -12,20 +12,95 @@ export {
   getCallConfig,
 } from './task-builder';
 
+// Templates and schemas live in prompts/ so config can check them without the runner
+export {
+  renderTemplate,
+  checkTemplate,
+  TemplateError,
+  checkPromptTemplate,
+  TASK_VARIABLES,
+  validateJsonSchema,
+  checkJsonSchema,
+  toObjectSchema,
+  WRAPPED_OUTPUT_KEY,
+  type JsonSchema,
+  type SchemaError,
+} from '../prompts';
+
 export {
   runTask,
   runTaskBatch,
+  toAuditLogEntry,
   type TaskResult,
   type RunTaskOptions,
   type TaskExecutor,
   type TaskValidator,
 } from './orchestrator';
 
+export { computeRequestHash } from './request-hash';
+
+export {
+  withCache,
+  MemoryLLMCache,
+  FileLLMCache,
+  type LLMCache,
+  type LLMCacheEntry,
+  type MemoryLLMCacheOptions,
+  type FileLLMCacheOptions,
+  type WithCacheOptions,
+} from './cache';
+
+export {
+  retryWithBackoff,
+  computeBackoffDelay,
+  withDeadline,
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy,
+  type RetryOptions,
+  type TaskAttempt,
+} from './retry';
+
+export {
+  buildRepairSpec,
+  resolveRepairRounds,
+  MAX_REPAIR_ROUNDS,
+  type RepairOptions,
+  type RepairRound,
+} from './repair';
+
+export {
+  BudgetLedger,
+  resolveBudgetLimits,
+  estimatePromptTokens,
+  type BudgetLimits,
+  type BudgetEstimate,
+  type BudgetAlertEvent,
+  type BudgetLedgerOptions,
+  type RunBudgetUsage,
+  type StageUsage,
+  type CostEstimator,
+} from './budget';
+
 export {
   validateTaskOutput,
   validateIdeas,
   validateCopy,
   validateImageBrief,
   type ValidationResult,
+  type ValidationContext,
 } from './validator';
 
+export {
+  measureLength,
+  resolveSlotLength,
+  DEFAULT_SLOT_LENGTHS,
+  type SlotLengthLimits,
+} from './length';
+
+export {
+  checkContinuity,
+  type ContinuityReport,
+  type ContinuityPair,
+  type ContinuityThresholds,
+} from './continuity';
+
@@ -0,0 +1,80 @@
+/**
+ * Copy length - per-slot limits and the units they are counted in
+ *
+ * Limits come from `validation.length` in the effective config: a slot's
+ * `per_slot` entry wins, then the global `min_chars`/`max_chars`. Counting
+ * in graphemes keeps an emoji or a combined CJK character at one; counting
+ * in words splits CJK text into words rather than whitespace runs.
+ */
+
+import type { LengthUnit, LengthValidation } from '../config/validator';
+
+export interface SlotLengthLimits {
+  min: number;
+  max: number;
+  unit: LengthUnit;
+}
+
+/**
+ * Ranges used when the config has no `validation.length` section
+ */
+export const DEFAULT_SLOT_LENGTHS: Record<string, { min: number; max: number }> = {
+  hook: { min: 50, max: 200 },
+  context: { min: 100, max: 400 },
+  proof: { min: 100, max: 500 },
+  objection: { min: 80, max: 350 },
+  cta: { min: 30, max: 150 },
+};
+
+/**
+ * The parts of `Intl.Segmenter` used here; lib is ES2020, which predates
+ * its type definitions
+ */
+interface Segmenter {
+  segment(input: string): Iterable<{ segment: string; isWordLike?: boolean }>;
+}
+
+type SegmenterConstructor = new (
+  locales?: string | string[],
+  options?: { granularity: 'grapheme' | 'word' },
+) => Segmenter;
+
+const SegmenterImpl = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+const graphemeSegmenter = SegmenterImpl ? new SegmenterImpl(undefined, { granularity: 'grapheme' }) : null;
+const wordSegmenter = SegmenterImpl ? new SegmenterImpl(undefined, { granularity: 'word' }) : null;
+
+/**
+ * Limits for one copy slot, or null when nothing constrains it
+ */
+export function resolveSlotLength(slot: string, length?: LengthValidation): SlotLengthLimits | null {
+  if (!length) {
+    const range = DEFAULT_SLOT_LENGTHS[slot];
+    return range ? { ...range, unit: 'chars' } : null;
+  }
+  const perSlot = length.per_slot?.[slot];
+  if (perSlot) {
+    return { min: perSlot.min, max: perSlot.max, unit: perSlot.unit ?? length.unit ?? 'chars' };
+  }
+  return { min: length.min_chars, max: length.max_chars, unit: length.unit ?? 'chars' };
+}
+
+/**
+ * Length of text in the given unit
+ *
+ * Without `Intl.Segmenter`, graphemes fall back to code points and words to
+ * whitespace-separated runs.
+ */
+export function measureLength(text: string, unit: LengthUnit): number {
+  switch (unit) {
+    case 'graphemes':
+      return graphemeSegmenter
+        ? Array.from(graphemeSegmenter.segment(text)).length
+        : Array.from(text).length;
+    case 'words':
+      return wordSegmenter
+        ? Array.from(wordSegmenter.segment(text)).filter((part) => part.isWordLike).length
+        : text.split(/\s+/).filter(Boolean).length;
+    default:
+      return text.length;
+  }
+}
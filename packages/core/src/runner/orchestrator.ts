@@ -5,14 +5,34 @@
  * - Loads config
  * - Builds LLMSpecs
  * - Routes through adapters
- * - Validates outputs
+ * - Validates outputs (against the spec's JSON schema, then the task validator)
  * - Logs audit trail
  */
 
+import { randomUUID } from 'node:crypto';
 import type { LLMSpec } from '../types/spec';
-import type { AdapterResponse } from '../types/adapter';
+import { AdapterError, AdapterErrorCode, type AdapterResponse } from '../types/adapter';
 import type { PromptsConfig } from '../types/config';
+import type { AuditLogEntry } from '../types/outputs';
+import type { AuditStore } from '../audit/store';
+import type { LLMCache } from './cache';
+import type { ContinuityReport } from './continuity';
 import { getCallConfig } from './task-builder';
+import { computeRequestHash } from './request-hash';
+import { validateJsonSchema } from '../prompts';
+import { retryWithBackoff, type RetryPolicy, type TaskAttempt } from './retry';
+import {
+  buildRepairSpec,
+  resolveRepairRounds,
+  type RepairOptions,
+  type RepairRound,
+} from './repair';
+import {
+  estimatePromptTokens,
+  resolveBudgetLimits,
+  type BudgetLedger,
+  type CostEstimator,
+} from './budget';
 
 /**
  * Task execution result
@@ -24,6 +44,7 @@ export interface TaskResult {
     passed: boolean;
     errors: string[];
     warnings: string[];
+    continuity?: ContinuityReport;
   };
   audit: {
     task_id: string;
@@ -38,9 +59,20 @@ export interface TaskResult {
     cost_usd: number;
     duration_ms: number;
     cached?: boolean;
+    request_hash?: string;
+    error_message?: string;
+    /** Every executor attempt, including retried failures */
+    attempts: TaskAttempt[];
+    /** Self-repair rounds, present only when repair ran */
+    repairs?: RepairRound[];
     timestamp: string;
   };
   raw_response?: AdapterResponse;
+  /** Set when execution failed with an error (not a validation failure) */
+  error?: {
+    code: string;
+    message: string;
+  };
 }
 
 /**
@@ -56,17 +88,50 @@ export interface RunTaskOptions {
   /** Override model from config */
   modelOverride?: string;
   
-  /** Skip validation gates */
+  /** Skip validation gates, including the schema check */
   skipValidation?: boolean;
   
   /** Additional metadata */
   metadata?: Record<string, unknown>;
+
+  /** Persist an audit_log entry for this call */
+  auditStore?: AuditStore;
+
+  /**
+   * Cache the executor was wrapped with (`withCache`); responses whose
+   * outputs fail validation are evicted so they are not replayed
+   */
+  cache?: LLMCache;
+
+  /** Backoff tuning for retries (attempt count comes from runtime.max_retries) */
+  retry?: Partial<RetryPolicy> & {
+    sleep?: (ms: number) => Promise<void>;
+  };
+
+  /** Opt-in self-repair of outputs that fail validation */
+  repair?: RepairOptions;
+
+  /** Enforce budgets from config against a per-run ledger */
+  budget?: {
+    ledger: BudgetLedger;
+    estimateCost?: CostEstimator;
+  };
 }
 
 /**
  * Task executor type - executes a spec through an adapter
+ *
+ * `fallbackProviders` lists the call's configured fallbacks, in order, for
+ * executors that support provider chains (empty when the provider is overridden).
+ * `signal` is aborted when the attempt passes its deadline; pass it on to
+ * the adapter so the request stops.
  */
-export type TaskExecutor = (spec: LLMSpec, provider: string) => Promise<AdapterResponse>;
+export type TaskExecutor = (
+  spec: LLMSpec,
+  provider: string,
+  fallbackProviders: string[],
+  signal?: AbortSignal
+) => Promise<AdapterResponse>;
 
 /**
  * Validation function type
@@ -75,16 +140,17 @@ export type TaskValidator = (
   taskId: string,
   outputs: unknown[],
   config: PromptsConfig
-) => { passed: boolean; errors: string[]; warnings: string[] };
+) => { passed: boolean; errors: string[]; warnings: string[]; continuity?: ContinuityReport };
 
 /**
  * Run a task with full orchestration
  * 
  * This is the main controller that:
  * 1. Gets task config
- * 2. Executes through adapter
- * 3. Validates outputs
+ * 2. Executes through adapter, retrying transient failures
+ * 3. Validates outputs, optionally asking the model to repair failures
  * 4. Returns structured result with audit
+ * 5. Persists the audit entry when an audit store is supplied
  * 
  * @param spec - The LLM spec to execute
  * @param config - Prompts configuration
@@ -98,100 +164,179 @@ export async function runTask(
   executor: TaskExecutor,
   validator?: TaskValidator,
   options: RunTaskOptions = {}
+): Promise<TaskResult> {
+  const runId =
+    options.runId ||
+    (typeof spec.metadata?.run_id === 'string' ? spec.metadata.run_id : undefined) ||
+    `run_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+  const result = await executeTask(spec, config, executor, validator, options, runId);
+
+  if (options.auditStore) {
+    try {
+      await options.auditStore.append(toAuditLogEntry(result));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('[ORCHESTRATOR] Failed to persist audit entry:', (error as Error).message);
+    }
+  }
+
+  return result;
+}
+
+async function executeTask(
+  spec: LLMSpec,
+  config: PromptsConfig,
+  executor: TaskExecutor,
+  validator: TaskValidator | undefined,
+  options: RunTaskOptions,
+  runId: string
 ): Promise<TaskResult> {
   const startTime = Date.now();
-  const runId = options.runId || `run_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+  let provider = options.providerOverride || 'unknown';
+  let requestHash: string | undefined;
+  const attempts: TaskAttempt[] = [];
   
   try {
     // Get task configuration
     const callConfig = getCallConfig(config, spec.task_id);
-    const provider = options.providerOverride || callConfig.provider;
-    
-    // Execute through adapter
-    const response = await executor(spec, provider);
+    const resolvedProvider = options.providerOverride || callConfig.provider;
+    provider = resolvedProvider;
+    const fallbackProviders = options.providerOverride
+      ? []
+      : callConfig.fallbackProviders.filter((p) => p !== resolvedProvider);
+    requestHash = computeRequestHash(spec, resolvedProvider, callConfig.model);
+
+    // Refuse calls that would exceed the run, stage or call budget
+    const budgetLimits = resolveBudgetLimits(config, spec.task_id);
+    const checkBudget = (target: LLMSpec, pendingCost: number, pendingTokens: number) => {
+      if (!options.budget) return;
+      options.budget.ledger.check(
+        runId,
+        spec.task_id,
+        {
+          cost_usd: pendingCost + (options.budget.estimateCost?.(target, resolvedProvider) ?? 0),
+          total_tokens: pendingTokens + estimatePromptTokens(target),
+        },
+        budgetLimits,
+        resolvedProvider
+      );
+    };
+    checkBudget(spec, 0, 0);
     
-    // Parse outputs
-    let outputs: unknown[] = [];
-    try {
-      if (spec.response_format === 'json') {
-        outputs = response.outputs.map(out => JSON.parse(out));
-        
-        // If we expect multiple outputs and got 1 output that's an array, unwrap it
-        // This handles LLMs that return a single JSON array of multiple items
-        if (outputs.length === 1 && Array.isArray(outputs[0])) {
-          const callConfig = config.calls[spec.task_id];
-          const expectedCount = callConfig?.prompt.outputs_expected || 1;
-          if (expectedCount > 1) {
-            outputs = outputs[0] as unknown[];
-          }
+    // Execute through adapter, retrying transient failures
+    const execute = (target: LLMSpec) =>
+      retryWithBackoff(
+        (_attempt, signal) => executor(target, resolvedProvider, fallbackProviders, signal),
+        {
+          provider: resolvedProvider,
+          maxRetries: callConfig.runtime.max_retries,
+          timeoutMs: callConfig.runtime.timeout_ms,
+          policy: options.retry,
+          sleep: options.retry?.sleep,
+          onAttempt: (attempt) => attempts.push(attempt),
         }
-      } else {
-        outputs = response.outputs;
+      );
+
+    let response = await execute(spec);
+    let parsed = parseOutputs(spec, config, response);
+    let validation = parsed.error
+      ? failedValidation(`Failed to parse outputs: ${parsed.error}`)
+      : validateOutputs(spec, parsed, config, validator, options);
+    if (!validation.passed) {
+      await evictCached(response, options.cache);
+    }
+
+    // Optional self-repair: feed validation errors back to the model
+    const usage = { ...response.usage };
+    let costUsd = response.cost_usd;
+    const repairs: RepairRound[] = [];
+    const maxRounds = resolveRepairRounds(spec, options.repair);
+
+    while (!validation.passed && repairs.length < maxRounds) {
+      const limit = callConfig.runtime.cost_usd_limit;
+      if (limit > 0 && costUsd + response.cost_usd > limit) {
+        validation.warnings.push(
+          `Repair stopped: another round would exceed cost_usd_limit of $${limit.toFixed(2)}`
+        );
+        break;
       }
 
-      // Detailed logging for debugging / traces
+      const round = repairs.length + 1;
+      const repairSpec = buildRepairSpec(spec, response.outputs, validation.errors, round);
       try {
-        // eslint-disable-next-line no-console
-        console.log('─────────────────────────────────────────────────');
-        // eslint-disable-next-line no-console
-        console.log(`[ORCHESTRATOR] Task: ${spec.task_id}`);
-        // eslint-disable-next-line no-console
-        console.log(`[ORCHESTRATOR] Provider: ${response.provider} | Model: ${response.model}`);
-        // eslint-disable-next-line no-console
-        console.log(`[ORCHESTRATOR] Duration: ${response.duration_ms}ms | Cost: $${response.cost_usd.toFixed(4)}`);
-        // eslint-disable-next-line no-console
-        console.log(`[ORCHESTRATOR] Outputs parsed: ${outputs.length} item(s)`);
-        const preview = JSON.stringify(outputs, null, 2);
-        // eslint-disable-next-line no-console
-        console.log(`[ORCHESTRATOR] Output preview: ${preview.length > 800 ? preview.slice(0, 800) + ' …' : preview}`);
-        // eslint-disable-next-line no-console
-        console.log('─────────────────────────────────────────────────');
-      } catch {}
-    } catch (error) {
+        checkBudget(repairSpec, costUsd, usage.total_tokens);
+      } catch (error) {
+        validation.warnings.push(`Repair stopped: ${(error as Error).message}`);
+        break;
+      }
+
+      const repairStart = Date.now();
+      let repairResponse: AdapterResponse;
+      try {
+        repairResponse = await execute(repairSpec);
+      } catch (error) {
+        repairs.push({
+          round,
+          errors: validation.errors,
+          errors_fixed: [],
+          remaining_errors: validation.errors,
+          cost_usd: 0,
+          duration_ms: Date.now() - repairStart,
+          error_message: (error as Error).message,
+        });
+        break;
+      }
+
+      usage.prompt_tokens += repairResponse.usage.prompt_tokens;
+      usage.completion_tokens += repairResponse.usage.completion_tokens;
+      usage.total_tokens += repairResponse.usage.total_tokens;
+      costUsd += repairResponse.cost_usd;
+
+      const repairParsed = parseOutputs(spec, config, repairResponse);
+      const repairValidation = repairParsed.error
+        ? failedValidation(`Failed to parse outputs: ${repairParsed.error}`)
+        : validateOutputs(spec, repairParsed, config, validator, options);
+      if (!repairValidation.passed) {
+        await evictCached(repairResponse, options.cache);
+      }
+
+      repairs.push({
+        round,
+        errors: validation.errors,
+        errors_fixed: validation.errors.filter((e) => !repairValidation.errors.includes(e)),
+        remaining_errors: repairValidation.errors,
+        cost_usd: repairResponse.cost_usd,
+        duration_ms: Date.now() - repairStart,
+      });
+
+      response = repairResponse;
+      parsed = repairParsed;
+      validation = repairValidation;
+    }
+
+    const billed: AdapterResponse = { ...response, usage, cost_usd: costUsd };
+    options.budget?.ledger.record(
+      runId,
+      spec.task_id,
+      { cost_usd: costUsd, total_tokens: usage.total_tokens },
+      budgetLimits
+    );
+
+    if (parsed.error) {
       return {
         success: false,
         outputs: [],
-        validation: {
-          passed: false,
-          errors: [`Failed to parse outputs: ${(error as Error).message}`],
-          warnings: [],
-        },
-        audit: buildAudit(spec, response, runId, startTime),
+        validation,
+        audit: buildAudit(spec, billed, runId, startTime, requestHash, attempts, repairs),
       };
     }
     
-    // Validate outputs
-    let validation = {
-      passed: true,
-      errors: [] as string[],
-      warnings: [] as string[],
-    };
-    
-    if (!options.skipValidation && validator) {
-      validation = validator(spec.task_id, outputs, config);
-      try {
-        // eslint-disable-next-line no-console
-        console.log(`[VALIDATOR] Task: ${spec.task_id}`);
-        // eslint-disable-next-line no-console
-        console.log(`[VALIDATOR] Passed: ${validation.passed}`);
-        if (validation.errors.length > 0) {
-          // eslint-disable-next-line no-console
-          console.error('[VALIDATOR] Errors:', validation.errors);
-        }
-        if (validation.warnings.length > 0) {
-          // eslint-disable-next-line no-console
-          console.warn('[VALIDATOR] Warnings:', validation.warnings);
-        }
-        // eslint-disable-next-line no-console
-        console.log('─────────────────────────────────────────────────');
-      } catch {}
-    }
-    
     return {
       success: validation.passed,
-      outputs,
+      outputs: parsed.outputs,
       validation,
-      audit: buildAudit(spec, response, runId, startTime),
+      audit: buildAudit(spec, billed, runId, startTime, requestHash, attempts, repairs),
       raw_response: response,
     };
     
@@ -208,7 +353,7 @@ export async function runTask(
       audit: {
         task_id: spec.task_id,
         run_id: runId,
-        provider: 'unknown',
+        provider,
         model: 'unknown',
         usage: {
           prompt_tokens: 0,
@@ -217,12 +362,33 @@ export async function runTask(
         },
         cost_usd: 0,
         duration_ms: duration,
+        request_hash: requestHash,
+        error_message: (error as Error).message,
+        attempts,
         timestamp: new Date().toISOString(),
       },
+      error: {
+        code: error instanceof AdapterError ? error.code : AdapterErrorCode.UNKNOWN_ERROR,
+        message: (error as Error).message,
+      },
     };
   }
 }
 
+/**
+ * Drop the cache entry behind a response whose outputs failed validation
+ */
+async function evictCached(response: AdapterResponse, cache?: LLMCache): Promise<void> {
+  const key = response.metadata?.cache_key;
+  if (!cache || typeof key !== 'string') return;
+  try {
+    await cache.delete(key);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.warn('[ORCHESTRATOR] Failed to evict cached response:', (error as Error).message);
+  }
+}
+
 /**
  * Build audit record from response
  */
@@ -230,7 +396,10 @@ function buildAudit(
   spec: LLMSpec,
   response: AdapterResponse,
   runId: string,
-  startTime: number
+  startTime: number,
+  requestHash: string | undefined,
+  attempts: TaskAttempt[],
+  repairs: RepairRound[] = []
 ): TaskResult['audit'] {
   return {
     task_id: spec.task_id,
@@ -241,10 +410,155 @@ function buildAudit(
     cost_usd: response.cost_usd,
     duration_ms: Date.now() - startTime,
     cached: response.metadata?.cached,
+    request_hash: requestHash,
+    attempts,
+    repairs: repairs.length > 0 ? repairs : undefined,
     timestamp: new Date().toISOString(),
   };
 }
 
+/**
+ * Parse adapter outputs according to the spec's response format
+ */
+function parseOutputs(
+  spec: LLMSpec,
+  config: PromptsConfig,
+  response: AdapterResponse
+): { outputs: unknown[]; schemaErrors: string[]; error?: string } {
+  let outputs: unknown[] = [];
+  const schemaErrors: string[] = [];
+  try {
+    if (spec.response_format !== 'text') {
+      outputs = response.outputs.map(out => JSON.parse(out));
+
+      // Check each response against the schema before any unwrapping
+      if (spec.schema) {
+        outputs.forEach((output, index) => {
+          const root = outputs.length > 1 ? `$[${index}]` : '$';
+          validateJsonSchema(output, spec.schema!, root).forEach((error) => {
+            schemaErrors.push(`Schema violation at ${error.path}: ${error.message}`);
+          });
+        });
+      }
+      
+      // If we expect multiple outputs and got 1 output that's an array, unwrap it
+      // This handles LLMs that return a single JSON array of multiple items
+      if (outputs.length === 1 && Array.isArray(outputs[0])) {
+        const callConfig = config.calls[spec.task_id];
+        const expectedCount = callConfig?.prompt.outputs_expected || 1;
+        if (expectedCount > 1) {
+          outputs = outputs[0] as unknown[];
+        }
+      }
+    } else {
+      outputs = response.outputs;
+    }
+  } catch (error) {
+    return { outputs: [], schemaErrors: [], error: (error as Error).message };
+  }
+
+  // Detailed logging for debugging / traces
+  try {
+    // eslint-disable-next-line no-console
+    console.log('─────────────────────────────────────────────────');
+    // eslint-disable-next-line no-console
+    console.log(`[ORCHESTRATOR] Task: ${spec.task_id}`);
+    // eslint-disable-next-line no-console
+    console.log(`[ORCHESTRATOR] Provider: ${response.provider} | Model: ${response.model}`);
+    // eslint-disable-next-line no-console
+    console.log(`[ORCHESTRATOR] Duration: ${response.duration_ms}ms | Cost: $${response.cost_usd.toFixed(4)}`);
+    // eslint-disable-next-line no-console
+    console.log(`[ORCHESTRATOR] Outputs parsed: ${outputs.length} item(s)`);
+    const preview = JSON.stringify(outputs, null, 2);
+    // eslint-disable-next-line no-console
+    console.log(`[ORCHESTRATOR] Output preview: ${preview.length > 800 ? preview.slice(0, 800) + ' …' : preview}`);
+    // eslint-disable-next-line no-console
+    console.log('─────────────────────────────────────────────────');
+  } catch {}
+
+  return { outputs, schemaErrors };
+}
+
+/**
+ * Combine schema violations with the validator's verdict (unless skipped)
+ * and log the outcome
+ */
+function validateOutputs(
+  spec: LLMSpec,
+  parsed: { outputs: unknown[]; schemaErrors: string[] },
+  config: PromptsConfig,
+  validator: TaskValidator | undefined,
+  options: RunTaskOptions
+): TaskResult['validation'] {
+  if (options.skipValidation || (!validator && !spec.schema)) {
+    return { passed: true, errors: [], warnings: [] };
+  }
+
+  const verdict: ReturnType<TaskValidator> = validator
+    ? validator(spec.task_id, parsed.outputs, config)
+    : { passed: true, errors: [], warnings: [] };
+  const validation = {
+    ...verdict,
+    passed: verdict.passed && parsed.schemaErrors.length === 0,
+    errors: [...parsed.schemaErrors, ...verdict.errors],
+  };
+  try {
+    // eslint-disable-next-line no-console
+    console.log(`[VALIDATOR] Task: ${spec.task_id}`);
+    // eslint-disable-next-line no-console
+    console.log(`[VALIDATOR] Passed: ${validation.passed}`);
+    if (validation.errors.length > 0) {
+      // eslint-disable-next-line no-console
+      console.error('[VALIDATOR] Errors:', validation.errors);
+    }
+    if (validation.warnings.length > 0) {
+      // eslint-disable-next-line no-console
+      console.warn('[VALIDATOR] Warnings:', validation.warnings);
+    }
+    // eslint-disable-next-line no-console
+    console.log('─────────────────────────────────────────────────');
+  } catch {}
+
+  return {
+    passed: validation.passed,
+    errors: [...validation.errors],
+    warnings: [...validation.warnings],
+    ...(validation.continuity ? { continuity: validation.continuity } : {}),
+  };
+}
+
+function failedValidation(message: string): TaskResult['validation'] {
+  return { passed: false, errors: [message], warnings: [] };
+}
+
+/**
+ * Convert a task result into an audit_log row
+ */
+export function toAuditLogEntry(result: TaskResult): AuditLogEntry {
+  const { audit, validation } = result;
+  const status = validation.passed ? 'validation_passed' : 'validation_failed';
+
+  return {
+    id: randomUUID(),
+    run_id: audit.run_id ?? 'unknown',
+    call_type: audit.task_id,
+    provider: audit.provider,
+    model: audit.model,
+    prompt_tokens: audit.usage.prompt_tokens,
+    completion_tokens: audit.usage.completion_tokens,
+    total_tokens: audit.usage.total_tokens,
+    cost_usd: audit.cost_usd,
+    duration_ms: audit.duration_ms,
+    cache_hit: audit.cached ?? false,
+    error_message: audit.error_message,
+    request_hash: audit.request_hash ?? '',
+    validation_passed: validation.passed,
+    validation_flags: [status, ...validation.errors, ...validation.warnings],
+    artifact_count: result.outputs.length,
+    created_at: audit.timestamp,
+  };
+}
+
 /**
  * Batch run multiple tasks sequentially
  */
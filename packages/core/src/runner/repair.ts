@@ -0,0 +1,90 @@
+/**
+ * Repair - Validation-driven follow-up prompts
+ *
+ * When outputs fail validation, the orchestrator can send the previous
+ * output and the validator's errors back to the model and ask for a
+ * corrected version. Rounds are capped and billed to the call.
+ */
+
+import type { LLMSpec } from '../types/spec';
+
+/** Hard ceiling regardless of what callers request */
+export const MAX_REPAIR_ROUNDS = 3;
+
+/** Previous output is truncated to keep follow-up prompts bounded */
+const MAX_PREVIOUS_OUTPUT_CHARS = 12000;
+
+export interface RepairOptions {
+  /** Repair is opt-in */
+  enabled?: boolean;
+
+  /** Rounds to attempt (default 1, capped at MAX_REPAIR_ROUNDS) */
+  maxRounds?: number;
+}
+
+/**
+ * One repair round as recorded in the task audit
+ */
+export interface RepairRound {
+  round: number;
+  /** Errors sent to the model for this round */
+  errors: string[];
+  /** Errors no longer reported after this round */
+  errors_fixed: string[];
+  /** Errors still reported after this round */
+  remaining_errors: string[];
+  cost_usd: number;
+  duration_ms: number;
+  /** Set when the repair call itself failed */
+  error_message?: string;
+}
+
+/**
+ * Number of repair rounds allowed for a spec
+ *
+ * Text outputs are never repaired; only structured (JSON) tasks qualify.
+ */
+export function resolveRepairRounds(spec: LLMSpec, options?: RepairOptions): number {
+  if (!options?.enabled || spec.response_format === 'text') {
+    return 0;
+  }
+
+  const requested = options.maxRounds ?? 1;
+  return Math.max(0, Math.min(MAX_REPAIR_ROUNDS, Math.floor(requested)));
+}
+
+/**
+ * Build the follow-up spec for a repair round
+ */
+export function buildRepairSpec(
+  spec: LLMSpec,
+  previousOutputs: string[],
+  errors: string[],
+  round: number
+): LLMSpec {
+  let previous = previousOutputs.join('\n');
+  if (previous.length > MAX_PREVIOUS_OUTPUT_CHARS) {
+    previous = previous.slice(0, MAX_PREVIOUS_OUTPUT_CHARS) + '\n…';
+  }
+
+  const repairPrompt = [
+    spec.user_prompt,
+    '',
+    'Your previous response was:',
+    previous,
+    '',
+    'It failed validation with these errors:',
+    ...errors.map((error) => `- ${error}`),
+    '',
+    'Return the complete corrected response as valid JSON only, fixing every error above. Do not add commentary.',
+  ].join('\n');
+
+  return {
+    ...spec,
+    user_prompt: repairPrompt,
+    metadata: {
+      ...spec.metadata,
+      repair_round: round,
+    },
+  };
+}
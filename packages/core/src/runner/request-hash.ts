@@ -0,0 +1,52 @@
+/**
+ * Request Hash - Stable fingerprint for an LLM request
+ *
+ * Used for the audit_log.request_hash column and as a cache key.
+ */
+
+import { createHash } from 'node:crypto';
+import type { LLMSpec } from '../types/spec';
+
+/**
+ * Hash everything that influences the model output: prompts, format,
+ * schema, sampling constraints, model and provider. Run metadata is
+ * deliberately excluded so identical requests from different runs match.
+ *
+ * `model` is the call's configured model name (`calls.<id>.model.name`);
+ * without it the spec's metadata model, if any, is used.
+ */
+export function computeRequestHash(spec: LLMSpec, provider: string, model?: string): string {
+  const payload = {
+    task_id: spec.task_id,
+    provider,
+    model: model ?? spec.metadata?.model ?? spec.metadata?.provider_model ?? null,
+    system_prompt: spec.system_prompt,
+    user_prompt: spec.user_prompt,
+    response_format: spec.response_format,
+    schema: spec.schema ?? null,
+    constraints: spec.constraints,
+  };
+
+  return createHash('sha256').update(stableStringify(payload)).digest('hex');
+}
+
+function stableStringify(value: unknown): string {
+  if (value === undefined) {
+    return 'null';
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+
+  return `{${entries.join(',')}}`;
+}
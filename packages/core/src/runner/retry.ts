@@ -0,0 +1,148 @@
+/**
+ * Retry - Exponential backoff with jitter for adapter calls
+ *
+ * Only transient AdapterErrorCodes (rate limits, timeouts, network errors)
+ * are retried. Every attempt is bounded by the call's timeout_ms, and its
+ * AbortSignal is aborted when the deadline passes so the call stops too.
+ */
+
+import { setTimeout as delay } from 'node:timers/promises';
+import { AdapterError, AdapterErrorCode, isRetryableError } from '../types/adapter';
+
+export interface RetryPolicy {
+  /** Delay before the first retry */
+  baseDelayMs: number;
+
+  /** Upper bound for any single backoff delay */
+  maxDelayMs: number;
+
+  /** Fraction (0-1) of each delay that is randomized */
+  jitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: 0.5,
+};
+
+/**
+ * One executor attempt as recorded in the task audit
+ */
+export interface TaskAttempt {
+  attempt: number;
+  provider: string;
+  started_at: string;
+  duration_ms: number;
+  /** Backoff waited before this attempt started */
+  delay_ms: number;
+  error_code?: string;
+  error_message?: string;
+}
+
+export interface RetryOptions {
+  provider: string;
+  maxRetries: number;
+  timeoutMs: number;
+  policy?: Partial<RetryPolicy>;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+  onAttempt?: (attempt: TaskAttempt) => void;
+}
+
+/**
+ * Backoff delay before retry number `retry` (1-based)
+ */
+export function computeBackoffDelay(
+  retry: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random: () => number = Math.random
+): number {
+  const exponential = policy.baseDelayMs * 2 ** Math.max(0, retry - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+  return Math.round(capped * (1 - jitter * random()));
+}
+
+/**
+ * Reject with a TIMEOUT AdapterError if the operation does not settle in
+ * time, aborting the signal it was given
+ */
+export async function withDeadline<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  provider: string
+): Promise<T> {
+  const controller = new AbortController();
+  if (!timeoutMs || timeoutMs <= 0) {
+    return operation(controller.signal);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new AdapterError(
+        `Call exceeded deadline of ${timeoutMs}ms.`,
+        provider,
+        AdapterErrorCode.TIMEOUT
+      );
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([operation(controller.signal), deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run an operation, retrying transient failures with backoff
+ */
+export async function retryWithBackoff<T>(
+  operation: (attempt: number, signal: AbortSignal) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...options.policy };
+  const sleep = options.sleep ?? ((ms: number) => delay(ms).then(() => undefined));
+  const maxAttempts = Math.max(0, options.maxRetries) + 1;
+  let waitMs = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+    try {
+      const result = await withDeadline(
+        (signal) => operation(attempt, signal),
+        options.timeoutMs,
+        options.provider
+      );
+      options.onAttempt?.({
+        attempt,
+        provider: options.provider,
+        started_at: new Date(startedAt).toISOString(),
+        duration_ms: Date.now() - startedAt,
+        delay_ms: waitMs,
+      });
+      return result;
+    } catch (error) {
+      options.onAttempt?.({
+        attempt,
+        provider: options.provider,
+        started_at: new Date(startedAt).toISOString(),
+        duration_ms: Date.now() - startedAt,
+        delay_ms: waitMs,
+        error_code: error instanceof AdapterError ? error.code : AdapterErrorCode.UNKNOWN_ERROR,
+        error_message: (error as Error).message,
+      });
+
+      if (attempt >= maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      waitMs = computeBackoffDelay(attempt, policy, options.random);
+      await sleep(waitMs);
+    }
+  }
+}
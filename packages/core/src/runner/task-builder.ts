@@ -2,12 +2,15 @@
  * Task Builder - Creates LLMSpecs from config for each task
  * 
  * Reads prompts.json and builds provider-agnostic LLMSpecs
- * that can be executed through any adapter.
+ * that can be executed through any adapter. Calls that declare
+ * `prompt.schema` get structured output constrained by that schema.
+ * User templates are rendered by `renderTemplate` (see prompts/template.ts).
  */
 
 import type { LLMSpec } from '../types/spec';
 import type { PromptsConfig } from '../types/config';
-import type { KernelPayload } from '../kernel/compressor';
+import { kernelForPrompt, type KernelPayload } from '../kernel/compressor';
+import { checkPromptTemplate, renderTemplate, TemplateError } from '../prompts';
 
 /**
  * Build a spec for scrape.review_summarize
@@ -23,14 +26,15 @@ export function buildScrapeReviewSpec(
     throw new Error('scrape.review_summarize not found in config');
   }
 
-  const kernelJson = JSON.stringify(kernel, null, 2);
-  const userPrompt = call.prompt.user_template.replace('{kernel}', kernelJson);
+  const userPrompt = renderUserPrompt('scrape.review_summarize', call, {
+    kernel: kernelForPrompt(kernel),
+  });
 
   return {
     task_id: 'scrape.review_summarize',
     system_prompt: call.prompt.system,
     user_prompt: userPrompt,
-    response_format: 'json',
+    ...outputFormat(call),
     constraints: {
       max_tokens: call.model.max_tokens,
       temperature: call.model.temperature,
@@ -59,14 +63,15 @@ export function buildIdeasGenerateSpec(
     throw new Error('ideas.generate not found in config');
   }
 
-  const kernelJson = JSON.stringify(kernel, null, 2);
-  const userPrompt = call.prompt.user_template.replace('{kernel}', kernelJson);
+  const userPrompt = renderUserPrompt('ideas.generate', call, {
+    kernel: kernelForPrompt(kernel),
+  });
 
   return {
     task_id: 'ideas.generate',
     system_prompt: call.prompt.system,
     user_prompt: userPrompt,
-    response_format: 'json',
+    ...outputFormat(call),
     constraints: {
       max_tokens: call.model.max_tokens,
       temperature: call.model.temperature,
@@ -96,18 +101,16 @@ export function buildCopyGenerateSpec(
     throw new Error('copy.generate not found in config');
   }
 
-  const kernelJson = JSON.stringify(kernel, null, 2);
-  const ideaJson = JSON.stringify(idea, null, 2);
-  
-  let userPrompt = call.prompt.user_template;
-  userPrompt = userPrompt.replace('{kernel}', kernelJson);
-  userPrompt = userPrompt.replace('{idea}', ideaJson);
+  const userPrompt = renderUserPrompt('copy.generate', call, {
+    kernel: kernelForPrompt(kernel),
+    idea,
+  });
 
   return {
     task_id: 'copy.generate',
     system_prompt: call.prompt.system,
     user_prompt: userPrompt,
-    response_format: 'json',
+    ...outputFormat(call),
     constraints: {
       max_tokens: call.model.max_tokens,
       temperature: call.model.temperature,
@@ -137,18 +140,16 @@ export function buildImageBriefSpec(
     throw new Error('image.brief_generate not found in config');
   }
 
-  const kernelJson = JSON.stringify(kernel, null, 2);
-  const ideaJson = JSON.stringify(idea, null, 2);
-  
-  let userPrompt = call.prompt.user_template;
-  userPrompt = userPrompt.replace('{kernel}', kernelJson);
-  userPrompt = userPrompt.replace('{idea}', ideaJson);
+  const userPrompt = renderUserPrompt('image.brief_generate', call, {
+    kernel: kernelForPrompt(kernel),
+    idea,
+  });
 
   return {
     task_id: 'image.brief_generate',
     system_prompt: call.prompt.system,
     user_prompt: userPrompt,
-    response_format: 'json',
+    ...outputFormat(call),
     constraints: {
       max_tokens: call.model.max_tokens,
       temperature: call.model.temperature,
@@ -163,6 +164,28 @@ export function buildImageBriefSpec(
   };
 }
 
+function renderUserPrompt(
+  callId: string,
+  call: PromptsConfig['calls'][string],
+  values: Record<string, unknown>
+): string {
+  const problems = checkPromptTemplate(callId, call.prompt);
+  if (problems.length > 0) {
+    throw new TemplateError(`Invalid ${callId} user_template: ${problems.join('; ')}`, problems);
+  }
+  return renderTemplate(call.prompt.user_template, values);
+}
+
+/**
+ * Structured output when the call declares a schema in prompts.json,
+ * plain JSON otherwise
+ */
+function outputFormat(call: PromptsConfig['calls'][string]): Pick<LLMSpec, 'response_format' | 'schema'> {
+  return call.prompt.schema
+    ? { response_format: 'structured', schema: call.prompt.schema }
+    : { response_format: 'json' };
+}
+
 /**
  * Get provider and model from config for a specific call
  */
@@ -174,6 +197,7 @@ export function getCallConfig(config: PromptsConfig, callId: string) {
 
   return {
     provider: call.model.provider,
+    fallbackProviders: call.model.fallback_providers ?? [],
     model: call.model.name,
     runtime: call.runtime,
   };
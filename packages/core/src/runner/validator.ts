@@ -3,19 +3,90 @@
  * 
  * Enforces rules from PROJECT_SPEC.md:
  * - Ideas: exactly 20 outputs
- * - Copy: 5 blocks with length constraints
+ * - Copy: 5 blocks with per-slot length limits from validation.length
  * - Image: 4:5 aspect ratio with safe zones
  * - Banned phrase detection
- * - Evidence citation checks
+ * - Evidence citation checks: keys must resolve against the kernel, and
+ *   figures or customer names in the text must appear in it
  */
 
 import type { PromptsConfig } from '../types/config';
+import type { LengthValidation } from '../config/validator';
+import type { KernelPayload } from '../kernel/compressor';
+import { findUnsupportedClaims, resolveEvidenceKey } from '../kernel/evidence';
 import { detectSlop } from '../ranker/slop';
+import { checkContinuity, type ContinuityReport } from './continuity';
+import { measureLength, resolveSlotLength } from './length';
 
 export interface ValidationResult {
   passed: boolean;
   errors: string[];
   warnings: string[];
+  /**
+   * Per-block-pair tone and fact drift, when continuity checks are enabled
+   */
+  continuity?: ContinuityReport;
+}
+
+export interface ValidationContext {
+  /**
+   * Kernel the outputs were generated from; without it evidence keys are
+   * only checked for presence
+   */
+  kernel?: KernelPayload;
+  /**
+   * Copy length limits from the effective config (preset and per-run
+   * overrides applied); defaults to `config.validation.length`
+   */
+  length?: LengthValidation;
+}
+
+/** Output kinds named in `validation.evidence_policy.required_for` */
+type EvidenceSubject = 'ideas' | 'copy' | 'image_brief';
+
+/**
+ * Check one output's evidence keys and claims
+ *
+ * Subjects listed in `evidence_policy.required_for` get errors (empty keys
+ * only when `allow_empty` is false); everything else gets warnings.
+ */
+function checkEvidence(
+  subject: EvidenceSubject,
+  label: string,
+  keys: unknown,
+  texts: string[],
+  config: PromptsConfig,
+  context: ValidationContext,
+  errors: string[],
+  warnings: string[],
+): void {
+  const policy = config.validation?.evidence_policy;
+  const required = policy?.required_for.includes(subject) ?? false;
+  const report = (message: string, strict: boolean) => (strict ? errors : warnings).push(message);
+
+  if (!Array.isArray(keys)) {
+    report(`${label} has no evidence keys array`, required);
+    return;
+  }
+  if (keys.length === 0) {
+    report(`${label} has empty evidence keys (no evidence keys cited)`, required && !policy?.allow_empty);
+  }
+
+  const { kernel } = context;
+  if (!kernel) return;
+
+  const unresolved = keys.filter((key) => typeof key !== 'string' || !resolveEvidenceKey(kernel, key));
+  if (unresolved.length > 0) {
+    report(`${label} cites evidence keys missing from the kernel: ${unresolved.map(String).join(', ')}`, required);
+  }
+
+  const unsupported = texts.flatMap((text) => findUnsupportedClaims(text, kernel));
+  if (unsupported.length > 0) {
+    report(
+      `${label} makes claims not found in the kernel: ${unsupported.map((claim) => `${claim.text} (${claim.kind})`).join(', ')}`,
+      required,
+    );
+  }
 }
 
 /**
@@ -28,7 +99,8 @@ export interface ValidationResult {
  */
 export function validateIdeas(
   outputs: unknown[],
-  config: PromptsConfig
+  config: PromptsConfig,
+  context: ValidationContext = {}
 ): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
@@ -64,12 +136,17 @@ export function validateIdeas(
       }
     });
     
-    // Check evidence keys
-    if (!Array.isArray(ideaObj.supporting_evidence_keys)) {
-      warnings.push(`Idea ${index + 1} has no evidence keys array`);
-    } else if (ideaObj.supporting_evidence_keys.length === 0) {
-      warnings.push(`Idea ${index + 1} has empty evidence keys`);
-    }
+    // Check evidence keys and claims
+    checkEvidence(
+      'ideas',
+      `Idea ${index + 1}`,
+      ideaObj.supporting_evidence_keys,
+      [String(ideaObj.headline ?? ''), String(ideaObj.angle ?? '')],
+      config,
+      context,
+      errors,
+      warnings
+    );
     
     // Check for banned phrases
     const headline = String(ideaObj.headline || '');
@@ -96,13 +173,15 @@ export function validateIdeas(
  * Requirements:
  * - 5 blocks: hook, context, proof, objection, cta
  * - Each block has character count within min/max
- * - Evidence keys cited
+ * - Evidence keys cited and resolvable
  * - No banned phrases
- * - Narrative continuity (checked via continuity flag)
+ * - Narrative continuity: tone_shift and fact_drift per block pair within
+ *   `validation.continuity.thresholds`
  */
 export function validateCopy(
   outputs: unknown[],
-  config: PromptsConfig
+  config: PromptsConfig,
+  context: ValidationContext = {}
 ): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
@@ -143,31 +222,30 @@ export function validateCopy(
     }
     
     const text = block.text as string;
-    const charCount = text.length;
     
-    // Length validation (basic ranges from spec)
-    const lengthRanges: Record<string, { min: number; max: number }> = {
-      hook: { min: 50, max: 200 },
-      context: { min: 100, max: 400 },
-      proof: { min: 100, max: 500 },
-      objection: { min: 80, max: 350 },
-      cta: { min: 30, max: 150 },
-    };
-    
-    const range = lengthRanges[blockName];
+    // Length validation against the slot's configured range
+    const range = resolveSlotLength(blockName, context.length ?? config.validation?.length);
     if (range) {
-      if (charCount < range.min) {
-        warnings.push(`Block ${blockName} too short: ${charCount} chars (min: ${range.min})`);
+      const count = measureLength(text, range.unit);
+      if (count < range.min) {
+        warnings.push(`Block ${blockName} too short: ${count} ${range.unit} (min: ${range.min})`);
       }
-      if (charCount > range.max) {
-        warnings.push(`Block ${blockName} too long: ${charCount} chars (max: ${range.max})`);
+      if (count > range.max) {
+        warnings.push(`Block ${blockName} too long: ${count} ${range.unit} (max: ${range.max})`);
       }
     }
     
-    // Check for evidence keys
-    if (!Array.isArray(block.evidence_keys) || block.evidence_keys.length === 0) {
-      warnings.push(`Block ${blockName} has no evidence keys`);
-    }
+    // Check evidence keys and claims
+    checkEvidence(
+      'copy',
+      `Block ${blockName}`,
+      block.evidence_keys,
+      [text],
+      config,
+      context,
+      errors,
+      warnings
+    );
     
     // Banned phrase check
     const slopCheck = detectSlop(text, {
@@ -184,11 +262,34 @@ export function validateCopy(
   if ('continuity_flag' in copyOutput && copyOutput.continuity_flag === true) {
     warnings.push('Narrative continuity flag triggered - blocks may not flow together');
   }
+
+  // Score tone and fact drift between every pair of blocks
+  let continuity: ContinuityReport | undefined;
+  const continuityConfig = config.validation?.continuity;
+  if (continuityConfig?.enabled) {
+    const texts = requiredBlocks
+      .map((name) => [name, (copyOutput[name] as Record<string, unknown> | null)?.text] as const)
+      .filter((entry): entry is readonly [string, string] => typeof entry[1] === 'string')
+      .map(([name, text]): [string, string] => [name, text]);
+    continuity = checkContinuity(texts, continuityConfig.thresholds, context.kernel);
+
+    for (const pair of continuity.pairs.filter((entry) => !entry.passed)) {
+      const reasons: string[] = [];
+      if (pair.tone_shift > continuity.thresholds.tone_shift) {
+        reasons.push(`tone_shift ${pair.tone_shift} > ${continuity.thresholds.tone_shift}`);
+      }
+      if (pair.fact_drift > continuity.thresholds.fact_drift) {
+        reasons.push(`fact_drift ${pair.fact_drift} > ${continuity.thresholds.fact_drift} (${pair.conflicts.join('; ')})`);
+      }
+      errors.push(`Blocks ${pair.blocks[0]} and ${pair.blocks[1]} lose continuity: ${reasons.join(', ')}`);
+    }
+  }
   
   return {
     passed: errors.length === 0,
     errors,
     warnings,
+    ...(continuity ? { continuity } : {}),
   };
 }
 
@@ -203,7 +304,8 @@ export function validateCopy(
  */
 export function validateImageBrief(
   outputs: unknown[],
-  _config: PromptsConfig
+  config: PromptsConfig,
+  context: ValidationContext = {}
 ): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
@@ -241,9 +343,7 @@ export function validateImageBrief(
   });
   
   // Check evidence keys
-  if (!Array.isArray(brief.evidence_keys) || brief.evidence_keys.length === 0) {
-    warnings.push('Image brief has no evidence keys');
-  }
+  checkEvidence('image_brief', 'Image brief', brief.evidence_keys, [], config, context, errors, warnings);
   
   return {
     passed: errors.length === 0,
@@ -258,17 +358,18 @@ export function validateImageBrief(
 export function validateTaskOutput(
   taskId: string,
   outputs: unknown[],
-  config: PromptsConfig
+  config: PromptsConfig,
+  context: ValidationContext = {}
 ): ValidationResult {
   switch (taskId) {
     case 'ideas.generate':
-      return validateIdeas(outputs, config);
+      return validateIdeas(outputs, config, context);
     
     case 'copy.generate':
-      return validateCopy(outputs, config);
+      return validateCopy(outputs, config, context);
     
     case 'image.brief_generate':
-      return validateImageBrief(outputs, config);
+      return validateImageBrief(outputs, config, context);
     
     case 'scrape.review_summarize':
       return validateReview(outputs, config);
@@ -0,0 +1,64 @@
+/**
+ * Charset Tests
+ *
+ * BOM, header and meta detection and decoding
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { decodeBody, detectCharset, normalizeCharset } from '../charset';
+
+const ascii = (text: string) => Array.from(Buffer.from(text, 'latin1'));
+
+describe('charset detection', () => {
+  it('should prefer a BOM over the header', () => {
+    const body = Uint8Array.from([0xef, 0xbb, 0xbf, ...ascii('caf'), 0xc3, 0xa9]);
+    const decoded = decodeBody(body, 'text/html; charset=iso-8859-1');
+
+    assert.strictEqual(decoded.source, 'bom');
+    assert.strictEqual(decoded.text, 'café');
+  });
+
+  it('should decode Shift_JIS declared in the header', () => {
+    const body = Uint8Array.from([0x93, 0xfa, 0x96, 0x7b]);
+    const decoded = decodeBody(body, 'text/html; charset="Shift_JIS"');
+
+    assert.deepStrictEqual({ encoding: decoded.encoding, source: decoded.source }, {
+      encoding: 'shift_jis',
+      source: 'header',
+    });
+    assert.strictEqual(decoded.text, '日本');
+  });
+
+  it('should read <meta charset> and http-equiv declarations', () => {
+    const meta = Uint8Array.from([...ascii('<html><head><meta charset="windows-1250"></head><body>'), 0xb3, 0xf3, 0x64, 0x9f]);
+    const equiv = Uint8Array.from(
+      ascii('<meta http-equiv="Content-Type" content="text/html; charset=ISO-8859-2">'),
+    );
+
+    assert.strictEqual(decodeBody(meta, 'text/html').text.endsWith('łódź'), true);
+    assert.deepStrictEqual(detectCharset(equiv, null), { encoding: 'iso-8859-2', source: 'meta' });
+  });
+
+  it('should treat a meta UTF-16 declaration as UTF-8', () => {
+    assert.deepStrictEqual(detectCharset(Uint8Array.from(ascii('<meta charset="utf-16">')), null), {
+      encoding: 'utf-8',
+      source: 'meta',
+    });
+  });
+
+  it('should fall back to windows-1252 for undeclared invalid UTF-8', () => {
+    const decoded = decodeBody(Uint8Array.from([...ascii('Gr'), 0xfc, ...ascii('n')]), null);
+
+    assert.strictEqual(decoded.source, 'fallback');
+    assert.strictEqual(decoded.text, 'Grün');
+  });
+
+  it('should ignore unknown labels', () => {
+    assert.strictEqual(normalizeCharset('x-made-up'), null);
+    assert.deepStrictEqual(detectCharset(Uint8Array.from(ascii('hello')), 'text/html; charset=x-made-up'), {
+      encoding: 'utf-8',
+      source: 'default',
+    });
+  });
+});
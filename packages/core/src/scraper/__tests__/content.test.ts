@@ -0,0 +1,77 @@
+/**
+ * Content Extraction Tests
+ *
+ * Boilerplate removal and section-aware blocks
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { extractContent } from '../content';
+
+const PAGE = `<!doctype html>
+<html><head><title>Acme</title><style>p { color: red }</style></head>
+<body>
+  <header><a href="/">Acme</a><nav><a href="/pricing">Pricing</a></nav></header>
+  <div id="cookie-banner">We use cookies. <button>Accept</button></div>
+  <main>
+    <h1>Widgets for busy teams</h1>
+    <p>Acme builds widgets &amp; gadgets.<br>Trusted by 500 companies.
+    <h2>Pricing</h2>
+    <table>
+      <tr><th>Plan</th><th>Price</th></tr>
+      <tr><td>Starter</td><td>$9 per month</td></tr>
+    </table>
+    <h3>What's included</h3>
+    <ul><li>Unlimited widgets<ul><li>Custom colours</li></ul></li><li>Email support</ul>
+    <h2>Customers</h2>
+    <div>Loved by <strong>Globex</strong>.</div>
+    <p hidden>Secret beta</p>
+  </main>
+  <aside>Related posts</aside>
+  <footer>© 2026 Acme · Privacy</footer>
+  <script>window.track = true;</script>
+</body></html>`;
+
+describe('extractContent', () => {
+  it('should drop navigation, banners, asides, footers and scripts', () => {
+    const { text } = extractContent(PAGE);
+
+    assert.strictEqual(text.split('\n')[0], 'Widgets for busy teams');
+    for (const noise of ['cookies', 'Accept', 'Related posts', '© 2026', 'track', 'Secret beta', 'color']) {
+      assert.ok(!text.includes(noise), `unexpected "${noise}"`);
+    }
+  });
+
+  it('should keep headings, paragraphs, lists and tables as blocks with their section', () => {
+    const { blocks, text } = extractContent(PAGE);
+
+    assert.deepStrictEqual(
+      blocks.map((block) => [block.type, block.text.split('\n')[0], block.section.join(' > ')]),
+      [
+        ['heading', 'Widgets for busy teams', ''],
+        ['paragraph', 'Acme builds widgets & gadgets. Trusted by 500 companies.', 'Widgets for busy teams'],
+        ['heading', 'Pricing', 'Widgets for busy teams'],
+        ['table', 'Plan | Price', 'Widgets for busy teams > Pricing'],
+        ['heading', "What's included", 'Widgets for busy teams > Pricing'],
+        ['list', 'Unlimited widgets', "Widgets for busy teams > Pricing > What's included"],
+        ['heading', 'Customers', 'Widgets for busy teams'],
+        ['paragraph', 'Loved by Globex.', 'Widgets for busy teams > Customers'],
+      ],
+    );
+    assert.deepStrictEqual(blocks[5].items, ['Unlimited widgets', 'Custom colours', 'Email support']);
+    assert.deepStrictEqual(blocks[3].rows, [
+      ['Plan', 'Price'],
+      ['Starter', '$9 per month'],
+    ]);
+    assert.strictEqual(text.split('\n').length, 11);
+  });
+
+  it('should fall back to the body when there is no main element', () => {
+    const { blocks } = extractContent('<body><nav>Menu</nav><div><p>Hello there</p></div></body>');
+
+    assert.deepStrictEqual(
+      blocks.map((block) => block.text),
+      ['Hello there'],
+    );
+  });
+});
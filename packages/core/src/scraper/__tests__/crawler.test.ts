@@ -0,0 +1,347 @@
+/**
+ * Crawler Tests
+ *
+ * Conditional re-crawls, robots.txt, limits, priority ordering and the URL
+ * guard against a local HTTP server
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import http from 'node:http';
+import { gzipSync } from 'node:zlib';
+import type { AddressInfo } from 'node:net';
+import { crawlSite, crawlLimitsFromGuard } from '../crawler';
+
+interface SiteState {
+  body: string;
+  etag: string;
+  robots: string | null;
+  sitemap: string | null;
+  /** Extra static responses by path (nested sitemaps) */
+  files: Record<string, string | Buffer>;
+  conditionalRequests: number;
+  /** Most /slow/ requests open at once */
+  slowPeak: number;
+}
+
+const site: SiteState = {
+  body: '<html><body><h1>Acme</h1><p>Version one</p></body></html>',
+  etag: '"v1"',
+  robots: null,
+  sitemap: null,
+  files: {},
+  conditionalRequests: 0,
+  slowPeak: 0,
+};
+
+let slowOpen = 0;
+
+const server = http.createServer((req, res) => {
+  if (req.url === '/robots.txt' && site.robots !== null) {
+    res.writeHead(200, { 'Content-Type': 'text/plain' }).end(site.robots);
+    return;
+  }
+  if (req.url === '/sitemap.xml' && site.sitemap !== null) {
+    res.writeHead(200, { 'Content-Type': 'application/xml' }).end(site.sitemap);
+    return;
+  }
+  if (req.url && site.files[req.url] !== undefined) {
+    res.writeHead(200, { 'Content-Type': 'application/octet-stream' }).end(site.files[req.url]);
+    return;
+  }
+  if (req.url === '/go-metadata') {
+    res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' }).end();
+    return;
+  }
+  if (req.url === '/loop') {
+    res.writeHead(302, { Location: '/loop' }).end();
+    return;
+  }
+  if (req.url?.startsWith('/slow/')) {
+    slowOpen++;
+    site.slowPeak = Math.max(site.slowPeak, slowOpen);
+    setTimeout(() => {
+      slowOpen--;
+      res.writeHead(200, { 'Content-Type': 'text/html' }).end(`<p>${req.url}</p>`);
+    }, 150);
+    return;
+  }
+  if (req.url?.startsWith('/products/')) {
+    res.writeHead(200, { 'Content-Type': 'text/html' }).end(`<p>${req.url}</p>`);
+    return;
+  }
+  if (req.url !== '/') {
+    res.writeHead(404).end();
+    return;
+  }
+  if (req.headers['if-none-match']) {
+    site.conditionalRequests++;
+  }
+  if (req.headers['if-none-match'] === site.etag) {
+    res.writeHead(304, { ETag: site.etag }).end();
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', ETag: site.etag });
+  res.end(site.body);
+});
+
+let baseUrl = '';
+
+// The test server is on loopback, which the URL guard refuses by default
+const LOCAL = { allowedHosts: ['127.0.0.1'] };
+
+describe('crawlSite', () => {
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should reuse content on 304 and report unchanged pages', async () => {
+    const first = await crawlSite({ url: baseUrl, urlGuard: LOCAL });
+    const second = await crawlSite({ url: baseUrl, urlGuard: LOCAL, previous: first });
+
+    assert.strictEqual(first.pages[0].status, 200);
+    assert.strictEqual(first.pages[0].etag, '"v1"');
+    assert.strictEqual(first.changes, undefined);
+
+    assert.strictEqual(site.conditionalRequests, 1);
+    assert.strictEqual(second.pages[0].status, 304);
+    assert.strictEqual(second.pages[0].notModified, true);
+    assert.strictEqual(second.pages[0].content, first.pages[0].content);
+    assert.deepStrictEqual(second.changes?.unchanged, [baseUrl]);
+    assert.strictEqual(second.contentHash, first.contentHash);
+  });
+
+  it('should report changed pages and a new aggregate hash', async () => {
+    const first = await crawlSite({ url: baseUrl, urlGuard: LOCAL });
+
+    site.body = '<html><body><h1>Acme</h1><p>Version two</p></body></html>';
+    site.etag = '"v2"';
+
+    const second = await crawlSite({ url: baseUrl, urlGuard: LOCAL, previous: first });
+
+    assert.strictEqual(second.pages[0].status, 200);
+    assert.strictEqual(second.pages[0].changed, true);
+    assert.deepStrictEqual(second.changes?.changed, [baseUrl]);
+    assert.notStrictEqual(second.contentHash, first.contentHash);
+  });
+
+  it('should skip and report URLs disallowed by robots.txt', async () => {
+    site.robots = 'User-agent: BrandPackCrawler\nDisallow: /\n';
+    try {
+      const result = await crawlSite({ url: baseUrl, urlGuard: LOCAL });
+
+      assert.strictEqual(result.pages.length, 0);
+      assert.deepStrictEqual(result.skipped, [{ url: baseUrl, reason: 'robots_disallowed' }]);
+
+      const ignored = await crawlSite({ url: baseUrl, urlGuard: LOCAL, respectRobotsTxt: false });
+      assert.strictEqual(ignored.pages.length, 1);
+    } finally {
+      site.robots = null;
+    }
+  });
+
+  it('should apply limits converted from the config crawl guard', async () => {
+    const limits = crawlLimitsFromGuard({
+      max_pages: 2,
+      max_total_kb: 50,
+      max_concurrency: 1,
+      per_request_timeout_ms: 2000,
+      total_timeout_ms: 5000,
+    });
+    site.sitemap = ['a', 'b', 'c', 'd']
+      .map((slug) => `<url><loc>${baseUrl}products/${slug}</loc></url>`)
+      .join('');
+    try {
+      const result = await crawlSite({ url: baseUrl, urlGuard: LOCAL, limits });
+
+      assert.strictEqual(limits.maxTotalBytes, 50 * 1024);
+      assert.strictEqual(result.sitemapUsed, true);
+      assert.strictEqual(result.pages.length, 2);
+    } finally {
+      site.sitemap = null;
+    }
+  });
+
+  it('should count and truncate extracted text against maxTotalBytes', async () => {
+    const original = site.body;
+    const limits = { maxPages: 1, maxTotalBytes: 1024, maxConcurrency: 1, requestTimeoutMs: 2000, totalTimeoutMs: 5000 };
+    try {
+      site.body = `<html><body>${'<div class="wrapper"></div>'.repeat(200)}<h1>Acme</h1><p>Short copy</p></body></html>`;
+      const markup = await crawlSite({ url: baseUrl, urlGuard: LOCAL, limits });
+
+      assert.strictEqual(markup.limitReached, false);
+      assert.strictEqual(markup.pages[0].bytes, Buffer.byteLength(markup.pages[0].content));
+      assert.strictEqual(markup.totalBytes, markup.pages[0].bytes);
+
+      const paragraphs = Array.from({ length: 60 }, (_, i) => `<p>Acme ships widget model ${i} to customers.</p>`);
+      site.body = `<html><body>${paragraphs.join('')}</body></html>`;
+      const text = await crawlSite({ url: baseUrl, urlGuard: LOCAL, limits });
+
+      assert.strictEqual(text.limitReached, true);
+      assert.ok(text.pages[0].bytes <= 1024);
+      assert.strictEqual(text.pages[0].bytes, Buffer.byteLength(text.pages[0].content));
+      assert.strictEqual(text.totalBytes, text.pages[0].bytes);
+    } finally {
+      site.body = original;
+    }
+  });
+
+  it('should crawl priority pages before blog links and classify them', async () => {
+    const original = { body: site.body, etag: site.etag };
+    site.body =
+      '<html><body><a href="/blog/one">Read our blog</a><a href="/blog/two">More</a>' +
+      '<a href="/products/widget">Our products</a></body></html>';
+    site.etag = '"links"';
+    try {
+      const result = await crawlSite({ url: baseUrl, urlGuard: LOCAL, limits: { maxPages: 2 } });
+
+      assert.deepStrictEqual(
+        result.pages.map((page) => page.url),
+        [baseUrl, `${baseUrl}products/widget`],
+      );
+      assert.deepStrictEqual(
+        result.pages.map((page) => page.contentType),
+        ['homepage', 'products'],
+      );
+      assert.deepStrictEqual(result.pages[0].links?.[0], {
+        url: `${baseUrl}blog/one`,
+        text: 'Read our blog',
+      });
+    } finally {
+      Object.assign(site, original);
+    }
+  });
+
+  it('should fetch discovered links in parallel up to maxConcurrency', async () => {
+    const original = { body: site.body, etag: site.etag };
+    site.body = ['a', 'b', 'c'].map((slug) => `<a href="/slow/${slug}">Page ${slug}</a>`).join('');
+    site.etag = '"slow"';
+    site.slowPeak = 0;
+    try {
+      const result = await crawlSite({ url: baseUrl, urlGuard: LOCAL, limits: { maxPages: 4, maxConcurrency: 3 } });
+
+      assert.strictEqual(result.sitemapUsed, false);
+      assert.strictEqual(result.pages.length, 4);
+      assert.strictEqual(site.slowPeak, 3);
+    } finally {
+      Object.assign(site, original);
+    }
+  });
+
+  it('should drop sitemap URLs disallowed by robots.txt before applying maxPages', async () => {
+    site.robots = 'User-agent: *\nDisallow: /private/\n';
+    site.sitemap =
+      ['private/a', 'private/b', 'products/a'].map((slug) => `<url><loc>${baseUrl}${slug}</loc><priority>0.9</priority></url>`).join('');
+    try {
+      const result = await crawlSite({ url: baseUrl, urlGuard: LOCAL, limits: { maxPages: 2 } });
+
+      assert.deepStrictEqual(
+        result.pages.map((page) => page.url),
+        [baseUrl, `${baseUrl}products/a`],
+      );
+      assert.deepStrictEqual(
+        result.skipped.map((skip) => skip.url),
+        [`${baseUrl}private/a`, `${baseUrl}private/b`],
+      );
+    } finally {
+      site.robots = null;
+      site.sitemap = null;
+    }
+  });
+
+  it('should refuse loopback targets unless the host is allowed', async () => {
+    const result = await crawlSite({ url: baseUrl });
+
+    assert.strictEqual(result.pages.length, 0);
+    assert.strictEqual(result.blocked.length, 1);
+    assert.strictEqual(result.blocked[0].reason, 'private_address');
+    assert.strictEqual(result.blocked[0].address, '127.0.0.1');
+  });
+
+  it('should block redirects into the metadata range', async () => {
+    const result = await crawlSite({ url: `${baseUrl}go-metadata`, urlGuard: LOCAL });
+
+    assert.strictEqual(result.pages.length, 0);
+    assert.deepStrictEqual(
+      result.blocked.map(({ url, reason, address }) => ({ url, reason, address })),
+      [{ url: `${baseUrl}go-metadata`, reason: 'private_address', address: '169.254.169.254' }],
+    );
+  });
+
+  it('should enforce max_redirects and follow_redirects', async () => {
+    const looped = await crawlSite({
+      url: `${baseUrl}loop`,
+      urlGuard: LOCAL,
+      redirects: { follow: true, max: 2 },
+    });
+    assert.strictEqual(looped.blocked[0]?.reason, 'too_many_redirects');
+
+    const unfollowed = await crawlSite({
+      url: `${baseUrl}loop`,
+      urlGuard: LOCAL,
+      redirects: { follow: false, max: 2 },
+    });
+    assert.strictEqual(unfollowed.blocked.length, 0);
+    assert.strictEqual(unfollowed.pages[0].status, 302);
+  });
+
+  it('should follow robots.txt Sitemap lines into gzipped nested indexes', async () => {
+    site.robots = `User-agent: *\nAllow: /\nSitemap: ${baseUrl}maps/index.xml.gz\n`;
+    site.files = {
+      '/maps/index.xml.gz': gzipSync(
+        `<sitemapindex><sitemap><loc>${baseUrl}maps/pages.xml</loc></sitemap></sitemapindex>`,
+      ),
+      '/maps/pages.xml':
+        `<urlset><url><loc>${baseUrl}products/old</loc><priority>0.1</priority></url>` +
+        `<url><loc>${baseUrl}products/new</loc><priority>0.9</priority></url></urlset>`,
+    };
+    try {
+      const result = await crawlSite({ url: baseUrl, urlGuard: LOCAL, limits: { maxPages: 2 } });
+
+      assert.strictEqual(result.sitemapUsed, true);
+      assert.deepStrictEqual(result.sitemaps, [`${baseUrl}maps/index.xml.gz`, `${baseUrl}maps/pages.xml`]);
+      assert.deepStrictEqual(
+        result.pages.map((page) => page.url),
+        [baseUrl, `${baseUrl}products/new`],
+      );
+    } finally {
+      site.robots = null;
+      site.files = {};
+    }
+  });
+
+  it('should read logo candidates and brand tokens from linked stylesheets', async () => {
+    const body = site.body;
+    site.body =
+      '<html><head><link rel="stylesheet" href="/assets/site.css"><link rel="apple-touch-icon" href="/touch.png"></head>' +
+      '<body><header><img src="/img/acme-logo.svg" alt="Acme"></header><h1>Acme</h1></body></html>';
+    site.etag = '"visual"';
+    site.files = {
+      '/assets/site.css': ':root{--brand-primary:#FF5A1F;--font-body:"Inter",sans-serif}a{color:var(--brand-primary)}',
+    };
+    try {
+      const result = await crawlSite({ url: baseUrl, urlGuard: LOCAL });
+      const visual = result.pages[0].visual;
+
+      assert.deepStrictEqual(
+        visual?.logos.map((logo) => [logo.url, logo.source]),
+        [
+          [`${baseUrl}img/acme-logo.svg`, 'logo_img'],
+          [`${baseUrl}touch.png`, 'apple_touch_icon'],
+          [`${baseUrl}favicon.ico`, 'icon'],
+        ],
+      );
+      assert.strictEqual(visual?.colors[0].hex, '#ff5a1f');
+      assert.strictEqual(visual?.colors[0].name, 'brand-primary');
+      assert.strictEqual(visual?.fonts[0].family, 'Inter');
+    } finally {
+      site.body = body;
+      site.files = {};
+    }
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Page Metadata Tests
+ *
+ * Head tags, headings and JSON-LD normalisation
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { extractPageMetadata, extractStructuredData } from '../metadata';
+
+describe('page metadata', () => {
+  it('should read title, description, OpenGraph and the first h1', () => {
+    const metadata = extractPageMetadata(`
+<html><head>
+  <title>Acme &amp; Co — Widgets</title>
+  <meta content="Widgets for busy teams" name="description">
+  <meta property="og:title" content="Acme Widgets">
+  <meta property='og:image' content='https://acme.example.com/og.png' />
+</head><body><h1>Better <em>widgets</em></h1><h1>Second</h1></body></html>`);
+
+    assert.strictEqual(metadata.title, 'Acme & Co — Widgets');
+    assert.strictEqual(metadata.metaDescription, 'Widgets for busy teams');
+    assert.strictEqual(metadata.h1, 'Better widgets');
+    assert.deepStrictEqual(metadata.openGraph, {
+      title: 'Acme Widgets',
+      image: 'https://acme.example.com/og.png',
+    });
+    assert.strictEqual(metadata.structuredData, undefined);
+  });
+
+  it('should normalise products, offers, ratings and reviews from JSON-LD', () => {
+    const data = extractStructuredData(`
+<script type="application/ld+json">
+{
+  "@context": "https://schema.org",
+  "@graph": [
+    { "@type": "Organization", "name": "Acme", "slogan": "Widgets that last", "sameAs": ["https://x.com/acme"] },
+    {
+      "@type": "Product",
+      "name": "Widget Pro",
+      "brand": { "@type": "Brand", "name": "Acme" },
+      "offers": { "@type": "AggregateOffer", "lowPrice": "19", "highPrice": "49", "priceCurrency": "USD" },
+      "aggregateRating": { "@type": "AggregateRating", "ratingValue": "4.8", "reviewCount": "1240" },
+      "review": [{ "@type": "Review", "reviewBody": "Saved our team hours.", "author": { "@type": "Person", "name": "Dana" } }]
+    }
+  ]
+}
+</script>
+<script type="application/ld+json">{ not json </script>`);
+
+    assert.ok(data);
+    assert.deepStrictEqual(data.types.sort(), [
+      'AggregateOffer',
+      'AggregateRating',
+      'Brand',
+      'Organization',
+      'Person',
+      'Product',
+      'Review',
+    ]);
+    assert.deepStrictEqual(data.products, [
+      {
+        name: 'Widget Pro',
+        brand: 'Acme',
+        offers: [{ price: '19', high_price: '49', currency: 'USD' }],
+      },
+    ]);
+    assert.strictEqual(data.organization?.slogan, 'Widgets that last');
+    assert.deepStrictEqual(data.ratings, [{ item: 'Widget Pro', value: 4.8, count: 1240 }]);
+    assert.deepStrictEqual(data.reviews, [
+      { item: 'Widget Pro', author: 'Dana', body: 'Saved our team hours.' },
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Prioritize Tests
+ *
+ * URL scoring and page classification
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { classifyUrl, classifyPage, scoreUrl } from '../prioritize';
+
+const BASE = 'https://acme.example.com';
+
+describe('prioritize', () => {
+  it('should classify URLs from their path', () => {
+    assert.strictEqual(classifyUrl(`${BASE}/`), 'homepage');
+    assert.strictEqual(classifyUrl(`${BASE}/pricing`), 'pricing');
+    assert.strictEqual(classifyUrl(`${BASE}/about-us`), 'about');
+    assert.strictEqual(classifyUrl(`${BASE}/products/widget`), 'products');
+    assert.strictEqual(classifyUrl(`${BASE}/case-studies/globex`), 'other');
+    assert.strictEqual(classifyUrl(`${BASE}/blog/launch-week`), 'other');
+  });
+
+  it('should fall back to anchor text when the path is unclear', () => {
+    assert.strictEqual(classifyUrl(`${BASE}/p/42`, 'See plans'), 'pricing');
+    assert.strictEqual(classifyUrl(`${BASE}/p/44`, 'Read more'), 'other');
+  });
+
+  it('should classify pricing pages from their content', () => {
+    const content = 'Starter $19 per month. Team $49 per month. Enterprise $199 per month.';
+
+    assert.strictEqual(classifyPage(`${BASE}/compare`, content), 'pricing');
+    assert.strictEqual(classifyPage(`${BASE}/compare`, 'Nothing to see'), 'other');
+  });
+
+  it('should rank brand pages above blog, legal and asset URLs', () => {
+    const urls = [
+      `${BASE}/blog/2024/launch`,
+      `${BASE}/privacy`,
+      `${BASE}/products`,
+      `${BASE}/deck.pdf`,
+      `${BASE}/pricing`,
+      `${BASE}/`,
+      `${BASE}/about`,
+    ];
+    const ranked = [...urls].sort((a, b) => scoreUrl(b) - scoreUrl(a));
+
+    assert.deepStrictEqual(ranked.slice(0, 4), [
+      `${BASE}/`,
+      `${BASE}/pricing`,
+      `${BASE}/products`,
+      `${BASE}/about`,
+    ]);
+    assert.ok(scoreUrl(`${BASE}/blog/2024/launch`) < scoreUrl(`${BASE}/about`));
+  });
+
+  it('should rank customer stories between about pages and other pages', () => {
+    const story = scoreUrl(`${BASE}/case-studies`);
+
+    assert.ok(story < scoreUrl(`${BASE}/about`));
+    assert.ok(story > scoreUrl(`${BASE}/integrations`));
+    assert.ok(scoreUrl(`${BASE}/p/43`, { anchorText: 'Customer success stories' }) > scoreUrl(`${BASE}/p/43`));
+  });
+
+  it('should boost configured priority pages', () => {
+    const url = `${BASE}/integrations`;
+
+    assert.ok(
+      scoreUrl(url, { priorityPages: ['/integrations'] }) > scoreUrl(url, { priorityPages: [] }),
+    );
+  });
+});
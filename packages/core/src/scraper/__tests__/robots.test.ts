@@ -0,0 +1,94 @@
+/**
+ * robots.txt Tests
+ *
+ * Group selection, rule precedence and wildcards
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseRobotsTxt, selectRobotsPolicy, isPathAllowed } from '../robots';
+
+const USER_AGENT = 'BrandPackCrawler/1.0 (+https://brandpack.example.com/crawler)';
+
+describe('robots.txt', () => {
+  it('should prefer the group naming our crawler over the wildcard group', () => {
+    const robots = parseRobotsTxt(`
+User-agent: *
+Disallow: /
+
+User-agent: Googlebot
+User-agent: BrandPackCrawler
+Disallow: /private
+Crawl-delay: 2
+
+Sitemap: https://example.com/sitemap.xml
+`);
+    const policy = selectRobotsPolicy(robots, USER_AGENT);
+
+    assert.strictEqual(isPathAllowed(policy, '/about'), true);
+    assert.strictEqual(isPathAllowed(policy, '/private/team'), false);
+    assert.strictEqual(policy.crawlDelaySeconds, 2);
+    assert.deepStrictEqual(robots.sitemaps, ['https://example.com/sitemap.xml']);
+  });
+
+  it('should fall back to the wildcard group', () => {
+    const policy = selectRobotsPolicy(
+      parseRobotsTxt('User-agent: OtherBot\nDisallow: /\n\nUser-agent: *\nDisallow: /admin'),
+      USER_AGENT
+    );
+
+    assert.strictEqual(isPathAllowed(policy, '/'), true);
+    assert.strictEqual(isPathAllowed(policy, '/admin/login'), false);
+  });
+
+  it('should match the whole product token case-insensitively, not a part of it', () => {
+    for (const agent of ['bot', 'BrandPack', 'Crawler', 'BrandPackCrawlerPro', 'NotBrandPackCrawler']) {
+      const policy = selectRobotsPolicy(
+        parseRobotsTxt(`User-agent: ${agent}\nDisallow: /\n\nUser-agent: *\nDisallow: /admin`),
+        USER_AGENT
+      );
+      assert.strictEqual(isPathAllowed(policy, '/'), true, agent);
+    }
+
+    const policy = selectRobotsPolicy(
+      parseRobotsTxt('User-agent: brandpackcrawler/2.0\nDisallow: /\n\nUser-agent: *\nDisallow: /admin'),
+      USER_AGENT
+    );
+    assert.strictEqual(isPathAllowed(policy, '/'), false);
+  });
+
+  it('should apply the longest match and let Allow win ties', () => {
+    const policy = selectRobotsPolicy(
+      parseRobotsTxt(`
+User-agent: *
+Disallow: /shop
+Allow: /shop/pricing
+Disallow: /page
+Allow: /page
+`),
+      USER_AGENT
+    );
+
+    assert.strictEqual(isPathAllowed(policy, '/shop/cart'), false);
+    assert.strictEqual(isPathAllowed(policy, '/shop/pricing'), true);
+    assert.strictEqual(isPathAllowed(policy, '/page'), true);
+  });
+
+  it('should support * and $ wildcards', () => {
+    const policy = selectRobotsPolicy(
+      parseRobotsTxt('User-agent: *\nDisallow: /*.pdf$\nDisallow: /*?session='),
+      USER_AGENT
+    );
+
+    assert.strictEqual(isPathAllowed(policy, '/files/deck.pdf'), false);
+    assert.strictEqual(isPathAllowed(policy, '/files/deck.pdf?v=2'), true);
+    assert.strictEqual(isPathAllowed(policy, '/products?session=abc'), false);
+    assert.strictEqual(isPathAllowed(policy, '/products'), true);
+  });
+
+  it('should treat an empty Disallow as allowing everything', () => {
+    const policy = selectRobotsPolicy(parseRobotsTxt('User-agent: *\nDisallow:'), USER_AGENT);
+
+    assert.strictEqual(isPathAllowed(policy, '/anything'), true);
+  });
+});
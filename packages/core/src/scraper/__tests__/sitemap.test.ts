@@ -0,0 +1,114 @@
+/**
+ * Sitemap Tests
+ *
+ * Parsing, gzip decoding, index resolution and ranking
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { gzipSync } from 'node:zlib';
+import {
+  parseSitemap,
+  decodeSitemapBody,
+  resolveSitemaps,
+  sitemapEntryScore,
+} from '../sitemap';
+
+const ORIGIN = 'https://shop.example.com';
+
+describe('sitemaps', () => {
+  it('should parse urlset entries with lastmod, priority and entities', () => {
+    const parsed = parseSitemap(`<?xml version="1.0"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>${ORIGIN}/products?a=1&amp;b=2</loc><lastmod>2026-09-01</lastmod><priority>0.8</priority></url>
+  <url><loc><![CDATA[${ORIGIN}/about]]></loc></url>
+</urlset>`);
+
+    assert.strictEqual(parsed.type, 'urlset');
+    assert.deepStrictEqual(parsed.entries, [
+      { url: `${ORIGIN}/products?a=1&b=2`, lastmod: '2026-09-01', priority: 0.8 },
+      { url: `${ORIGIN}/about` },
+    ]);
+  });
+
+  it('should recognise sitemap indexes', () => {
+    const parsed = parseSitemap(
+      `<sitemapindex><sitemap><loc>${ORIGIN}/sitemap_products_1.xml</loc></sitemap></sitemapindex>`,
+    );
+
+    assert.strictEqual(parsed.type, 'index');
+    assert.deepStrictEqual(parsed.entries, [{ url: `${ORIGIN}/sitemap_products_1.xml` }]);
+  });
+
+  it('should gunzip compressed bodies', () => {
+    const xml = `<urlset><url><loc>${ORIGIN}/</loc></url></urlset>`;
+
+    assert.strictEqual(decodeSitemapBody(gzipSync(xml)), xml);
+    assert.strictEqual(decodeSitemapBody(Buffer.from(xml)), xml);
+  });
+
+  it('should resolve nested indexes, page sitemaps before blog sitemaps', async () => {
+    const files: Record<string, string> = {
+      [`${ORIGIN}/sitemap.xml`]:
+        `<sitemapindex><sitemap><loc>${ORIGIN}/sitemap_blogs_1.xml</loc></sitemap>` +
+        `<sitemap><loc>${ORIGIN}/nested.xml</loc></sitemap></sitemapindex>`,
+      [`${ORIGIN}/nested.xml`]:
+        `<sitemapindex><sitemap><loc>${ORIGIN}/sitemap_pages_1.xml</loc></sitemap></sitemapindex>`,
+      [`${ORIGIN}/sitemap_pages_1.xml`]:
+        `<urlset><url><loc>${ORIGIN}/pricing</loc></url><url><loc>https://cdn.example.net/x</loc></url></urlset>`,
+      [`${ORIGIN}/sitemap_blogs_1.xml`]: `<urlset><url><loc>${ORIGIN}/blog/post</loc></url></urlset>`,
+    };
+    const requested: string[] = [];
+
+    const resolved = await resolveSitemaps([`${ORIGIN}/sitemap.xml`, `${ORIGIN}/missing.xml`], {
+      origin: ORIGIN,
+      maxUrls: 10,
+      fetchBody: async (url) => {
+        requested.push(url);
+        return files[url] ? Buffer.from(files[url]) : null;
+      },
+    });
+
+    assert.deepStrictEqual(
+      resolved.entries.map((entry) => entry.url),
+      [`${ORIGIN}/pricing`, `${ORIGIN}/blog/post`],
+    );
+    assert.ok(
+      requested.indexOf(`${ORIGIN}/sitemap_pages_1.xml`) < requested.indexOf(`${ORIGIN}/sitemap_blogs_1.xml`),
+    );
+  });
+
+  it('should stop at the depth limit', async () => {
+    const resolved = await resolveSitemaps([`${ORIGIN}/loop.xml`], {
+      origin: ORIGIN,
+      maxUrls: 10,
+      maxDepth: 2,
+      fetchBody: async (url) => {
+        const depth = Number(new URL(url).searchParams.get('d') ?? 0);
+        return Buffer.from(
+          `<sitemapindex><sitemap><loc>${ORIGIN}/loop.xml?d=${depth + 1}</loc></sitemap></sitemapindex>`,
+        );
+      },
+    });
+
+    assert.deepStrictEqual(resolved.sitemaps, [
+      `${ORIGIN}/loop.xml`,
+      `${ORIGIN}/loop.xml?d=1`,
+      `${ORIGIN}/loop.xml?d=2`,
+    ]);
+    assert.strictEqual(resolved.entries.length, 0);
+  });
+
+  it('should score high-priority, recently modified entries higher', () => {
+    const now = Date.parse('2026-10-01T00:00:00Z');
+
+    assert.ok(
+      sitemapEntryScore({ url: `${ORIGIN}/a`, priority: 0.9, lastmod: '2026-09-20' }, now) >
+        sitemapEntryScore({ url: `${ORIGIN}/b`, priority: 0.9, lastmod: '2020-01-01' }, now),
+    );
+    assert.ok(
+      sitemapEntryScore({ url: `${ORIGIN}/a`, priority: 0.2 }, now) <
+        sitemapEntryScore({ url: `${ORIGIN}/b` }, now),
+    );
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * URL Guard Tests
+ *
+ * Address classification and pre-request checks
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { gzipSync } from 'node:zlib';
+import { assertUrlAllowed, guardedFetch, isPrivateAddress, CrawlBlockedError, DEFAULT_REDIRECT_POLICY } from '../url-guard';
+
+const publicResolver = async () => ['93.184.216.34'];
+
+describe('url guard', () => {
+  it('should flag private, loopback, link-local and reserved addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fe80::1',
+      'fd00:ec2::254',
+      '::ffff:127.0.0.1',
+      '::ffff:a9fe:a9fe',
+      '::127.0.0.1',
+      '::a9fe:a9fe',
+    ]) {
+      assert.strictEqual(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it('should allow public addresses', () => {
+    for (const address of ['93.184.216.34', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      assert.strictEqual(isPrivateAddress(address), false, address);
+    }
+  });
+
+  it('should reject non-http schemes', async () => {
+    await assert.rejects(
+      assertUrlAllowed('file:///etc/passwd', { resolveHost: publicResolver }),
+      (error: unknown) => error instanceof CrawlBlockedError && error.reason === 'unsupported_scheme',
+    );
+  });
+
+  it('should reject hosts that resolve to any private address', async () => {
+    await assert.rejects(
+      assertUrlAllowed('https://rebind.example.com/', {
+        resolveHost: async () => ['93.184.216.34', '10.0.0.5'],
+      }),
+      (error: unknown) =>
+        error instanceof CrawlBlockedError &&
+        error.reason === 'private_address' &&
+        error.address === '10.0.0.5',
+    );
+  });
+
+  it('should reject metadata hostnames without resolving them', async () => {
+    await assert.rejects(
+      assertUrlAllowed('http://metadata.google.internal/computeMetadata/v1/', {
+        resolveHost: publicResolver,
+      }),
+      (error: unknown) => error instanceof CrawlBlockedError && error.reason === 'private_address',
+    );
+  });
+
+  it('should report DNS failures as blocked', async () => {
+    await assert.rejects(
+      assertUrlAllowed('https://missing.example.com/', {
+        resolveHost: async () => {
+          throw new Error('ENOTFOUND');
+        },
+      }),
+      (error: unknown) => error instanceof CrawlBlockedError && error.reason === 'dns_failure',
+    );
+  });
+
+  it('should accept public hosts and explicitly allowed hosts', async () => {
+    const parsed = await assertUrlAllowed('https://acme.example.com/pricing', {
+      resolveHost: publicResolver,
+    });
+    assert.strictEqual(parsed.pathname, '/pricing');
+
+    await assertUrlAllowed('http://127.0.0.1:3000/', { allowedHosts: ['127.0.0.1'] });
+  });
+});
+
+describe('guardedFetch', () => {
+  async function withServer(run: (origin: string) => Promise<void>) {
+    const server: Server = createServer((request, response) => {
+      if (request.url === '/large') {
+        response.end('x'.repeat(64));
+      } else if (request.url === '/gzip') {
+        response.setHeader('content-encoding', 'gzip');
+        response.end(gzipSync('y'.repeat(64)));
+      } else {
+        response.end(`host ${request.headers.host}`);
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    try {
+      await run(`${(server.address() as AddressInfo).port}`);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  }
+
+  it('should connect to the checked address instead of resolving again', async () => {
+    await withServer(async (port) => {
+      // pinned.invalid does not resolve in DNS; only the checked address can answer
+      const { response } = await guardedFetch(`http://pinned.invalid:${port}/`, {}, {
+        allowedHosts: ['pinned.invalid'],
+        resolveHost: async () => ['127.0.0.1'],
+        redirects: DEFAULT_REDIRECT_POLICY,
+      });
+      assert.strictEqual(await response.text(), `host pinned.invalid:${port}`);
+    });
+  });
+
+  it('should fail bodies over the byte limit, counted after decompression', async () => {
+    await withServer(async (port) => {
+      const options = { allowedHosts: ['127.0.0.1'], maxResponseBytes: 32, redirects: DEFAULT_REDIRECT_POLICY };
+      for (const path of ['/large', '/gzip']) {
+        const { response } = await guardedFetch(`http://127.0.0.1:${port}${path}`, {}, options);
+        await assert.rejects(response.arrayBuffer(), /exceeds 32 bytes/, path);
+      }
+
+      const { response: small } = await guardedFetch(`http://127.0.0.1:${port}/gzip`, {}, { ...options, maxResponseBytes: 64 });
+      assert.strictEqual(await small.text(), 'y'.repeat(64));
+    });
+  });
+});
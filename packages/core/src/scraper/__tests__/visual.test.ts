@@ -0,0 +1,121 @@
+/**
+ * Visual Identity Tests
+ *
+ * Logo candidates, CSS colours and font stacks, and the kernel section
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  buildVisualIdentity,
+  extractCssTokens,
+  extractVisualAssets,
+  parseColor,
+  visualStyleModifiers,
+} from '../visual';
+
+describe('extractVisualAssets', () => {
+  it('should rank logo candidates and read inline CSS and theme-color', () => {
+    const assets = extractVisualAssets(
+      `<html><head>
+        <link rel="icon" href="/favicon-32.png" sizes="32x32">
+        <link rel="icon" href="/icon.svg" type="image/svg+xml">
+        <meta property="og:image" content="https://cdn.example.com/share.jpg">
+        <meta name="theme-color" content="#0B5FFF">
+        <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Playfair+Display:wght@700&family=Inter">
+        <style>:root { --color-accent: rgb(255 90 31); } body { font-family: "Inter", system-ui, sans-serif; }</style>
+      </head><body>
+        <div role="banner"><a href="/"><img src="/brand/wordmark.png" class="site-logo"></a></div>
+        <main><img src="/hero.jpg"><p style="color: #333">Copy</p></main>
+      </body></html>`,
+      'https://acme.example.com/',
+    );
+
+    assert.deepStrictEqual(
+      assets.logos.map((logo) => logo.source),
+      ['logo_img', 'icon', 'icon', 'og_image'],
+    );
+    assert.strictEqual(assets.logos[0].url, 'https://acme.example.com/brand/wordmark.png');
+    assert.strictEqual(assets.logos[1].url, 'https://acme.example.com/icon.svg');
+    assert.deepStrictEqual(assets.stylesheets, [
+      'https://fonts.googleapis.com/css2?family=Playfair+Display:wght@700&family=Inter',
+    ]);
+    assert.deepStrictEqual(
+      assets.colors.map((color) => [color.hex, color.name]),
+      [['#ff5a1f', 'color-accent'], ['#0b5fff', 'theme-color'], ['#333333', undefined]],
+    );
+    assert.deepStrictEqual(assets.fonts.map((font) => font.family), ['Inter', 'Playfair Display']);
+  });
+
+  it('should fall back to /favicon.ico when no icon is linked', () => {
+    const assets = extractVisualAssets('<p>Hello</p>', 'https://acme.example.com/about');
+    assert.deepStrictEqual(assets.logos.map((logo) => logo.url), ['https://acme.example.com/favicon.ico']);
+  });
+});
+
+describe('extractCssTokens', () => {
+  it('should resolve var() references and skip font sizes and Tailwind internals', () => {
+    const tokens = extractCssTokens(
+      ':root{--blue-600:#1d4ed8;--primary:var(--blue-600);--font-size-lg:18px;--tw-ring-color:#ff0000;' +
+        '--font-heading:var(--font-brand);--font-brand:"GT Walsheim",Arial}' +
+        '@font-face{font-family:"GT Walsheim";src:url(/gt.woff2)}',
+    );
+
+    assert.deepStrictEqual(tokens.colors, [{ hex: '#1d4ed8', name: 'primary', weight: 12 }]);
+    assert.deepStrictEqual(tokens.fonts, [{ family: 'GT Walsheim', weight: 7 }]);
+  });
+});
+
+describe('parseColor', () => {
+  it('should normalise hex, rgb and hsl and drop transparent colours', () => {
+    assert.strictEqual(parseColor('#ABC'), '#aabbcc');
+    assert.strictEqual(parseColor('rgba(255, 0, 0, 0.9)'), '#ff0000');
+    assert.strictEqual(parseColor('hsl(120 100% 25%)'), '#008000');
+    assert.strictEqual(parseColor('rgba(0,0,0,.1)'), null);
+    assert.strictEqual(parseColor('#00000000'), null);
+    assert.strictEqual(parseColor('currentColor'), null);
+  });
+});
+
+describe('buildVisualIdentity', () => {
+  it('should merge pages, cap neutrals and derive style modifiers', () => {
+    const identity = buildVisualIdentity([
+      {
+        logos: [{ url: 'https://acme.example.com/logo.svg', source: 'logo_img', score: 90 }],
+        colors: [
+          { hex: '#ffffff', weight: 40 },
+          { hex: '#111111', weight: 30 },
+          { hex: '#eeeeee', weight: 20 },
+          { hex: '#ff5a1f', name: 'brand', weight: 10 },
+        ],
+        fonts: [{ family: 'Inter', weight: 3 }],
+        stylesheets: [],
+      },
+      {
+        logos: [],
+        colors: [{ hex: '#0b5fff', weight: 4 }],
+        fonts: [{ family: 'Inter', weight: 1 }],
+        stylesheets: [],
+      },
+    ]);
+
+    assert.deepStrictEqual(identity, {
+      logos: [{ url: 'https://acme.example.com/logo.svg', source: 'logo_img' }],
+      colors: [{ hex: '#ff5a1f', name: 'brand' }, { hex: '#0b5fff' }, { hex: '#ffffff' }, { hex: '#111111' }],
+      fonts: ['Inter'],
+    });
+    assert.deepStrictEqual(visualStyleModifiers(identity), [
+      'brand colour palette #ff5a1f, #0b5fff',
+      'light neutral backgrounds (#ffffff)',
+      'typography in the style of Inter',
+    ]);
+  });
+
+  it('should return null when only a favicon guess was found', () => {
+    const identity = buildVisualIdentity([
+      extractVisualAssets('<p>Plain</p>', 'https://acme.example.com/'),
+    ]);
+    assert.strictEqual(identity, null);
+    assert.deepStrictEqual(visualStyleModifiers(identity), []);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Charset Detection - Decode response bodies to text
+ *
+ * Follows the WHATWG encoding sniffing order: byte order mark, then the
+ * Content-Type header, then a `<meta charset>` / `http-equiv` declaration
+ * (or XML declaration) in the first bytes of the document. Labels are
+ * resolved by `TextDecoder`, so every WHATWG encoding (Shift_JIS, EUC-KR,
+ * GBK, windows-125x, ISO-8859-x, KOI8-R, ...) is supported. Undeclared
+ * bodies that are not valid UTF-8 fall back to windows-1252.
+ */
+
+import { parseAttributes } from './html';
+
+export type CharsetSource = 'bom' | 'header' | 'meta' | 'default' | 'fallback';
+
+export interface DetectedCharset {
+  /** Canonical WHATWG encoding name, e.g. "shift_jis" */
+  encoding: string;
+  source: CharsetSource;
+}
+
+export interface DecodedBody extends DetectedCharset {
+  text: string;
+}
+
+/** How far into the body to look for a meta declaration */
+const PRESCAN_BYTES = 4096;
+
+const BOMS: Array<[number[], string]> = [
+  [[0xef, 0xbb, 0xbf], 'utf-8'],
+  [[0xfe, 0xff], 'utf-16be'],
+  [[0xff, 0xfe], 'utf-16le'],
+];
+
+/**
+ * Resolve a charset label to its canonical encoding name, or null when
+ * `TextDecoder` does not support it
+ */
+export function normalizeCharset(label: string): string | null {
+  const trimmed = label.trim().replace(/^["']|["']$/g, '');
+  if (!trimmed) return null;
+  try {
+    return new TextDecoder(trimmed).encoding;
+  } catch {
+    return null;
+  }
+}
+
+export function detectCharset(body: Uint8Array, contentType: string | null): DetectedCharset {
+  for (const [bytes, encoding] of BOMS) {
+    if (bytes.every((byte, index) => body[index] === byte)) {
+      return { encoding, source: 'bom' };
+    }
+  }
+
+  const fromHeader = contentType ? charsetFromContentType(contentType) : null;
+  if (fromHeader) {
+    return { encoding: fromHeader, source: 'header' };
+  }
+
+  const fromMeta = charsetFromMarkup(body);
+  if (fromMeta) {
+    return { encoding: fromMeta, source: 'meta' };
+  }
+
+  return { encoding: 'utf-8', source: 'default' };
+}
+
+/**
+ * Detect the charset and decode the body
+ */
+export function decodeBody(body: Uint8Array, contentType: string | null): DecodedBody {
+  const detected = detectCharset(body, contentType);
+
+  if (detected.source === 'default') {
+    try {
+      const text = new TextDecoder('utf-8', { fatal: true }).decode(body);
+      return { ...detected, text };
+    } catch {
+      // Undeclared legacy pages are almost always windows-1252
+      return {
+        encoding: 'windows-1252',
+        source: 'fallback',
+        text: new TextDecoder('windows-1252').decode(body),
+      };
+    }
+  }
+
+  // TextDecoder strips a matching BOM itself
+  return { ...detected, text: new TextDecoder(detected.encoding).decode(body) };
+}
+
+function charsetFromContentType(contentType: string): string | null {
+  const match = contentType.match(/charset\s*=\s*("[^"]*"|'[^']*'|[^;\s]+)/i);
+  return match ? normalizeCharset(match[1]) : null;
+}
+
+function charsetFromMarkup(body: Uint8Array): string | null {
+  // Declarations are ASCII, so a latin1 view of the prefix is enough
+  const head = Buffer.from(body.subarray(0, PRESCAN_BYTES)).toString('latin1');
+
+  const xml = head.match(/^\s*<\?xml[^>]*\bencoding\s*=\s*["']([^"']+)["']/i);
+  const candidates: string[] = xml ? [xml[1]] : [];
+
+  for (const match of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(match[0]);
+    if (attributes.charset) {
+      candidates.push(attributes.charset);
+    } else if ((attributes['http-equiv'] ?? '').toLowerCase() === 'content-type' && attributes.content) {
+      const declared = attributes.content.match(/charset\s*=\s*["']?([^"'\s;]+)/i);
+      if (declared) candidates.push(declared[1]);
+    }
+  }
+
+  for (const candidate of candidates) {
+    const encoding = normalizeCharset(candidate);
+    if (!encoding) continue;
+    // A document that could be read to find this tag is not UTF-16
+    return encoding.startsWith('utf-16') ? 'utf-8' : encoding;
+  }
+  return null;
+}
@@ -0,0 +1,225 @@
+/**
+ * Content Extraction - Section-aware HTML to text
+ *
+ * Parses the page into an element tree, drops boilerplate (nav, asides,
+ * page-level header/footer, cookie and consent banners, hidden elements)
+ * and emits structured blocks: headings, paragraphs, lists and tables.
+ * Each block carries its heading path so the compressor can cite the
+ * section a fact came from.
+ */
+
+import { findElement, parseHtml, type HtmlElement, type HtmlNode } from './html';
+
+export interface ContentBlock {
+  type: 'heading' | 'paragraph' | 'list' | 'table';
+  text: string;
+  /** 1-6 for headings */
+  level?: number;
+  /** List items */
+  items?: string[];
+  /** Table cells by row */
+  rows?: string[][];
+  /** Heading path above the block, outermost first */
+  section: string[];
+}
+
+export interface ExtractedContent {
+  blocks: ContentBlock[];
+  /** One line per heading, paragraph, list item or table row */
+  text: string;
+}
+
+const ALWAYS_REMOVED = new Set([
+  'nav', 'aside', 'form', 'button', 'select', 'option', 'iframe', 'object', 'canvas', 'dialog',
+  'script', 'style', 'noscript', 'template', 'svg', 'head', 'title',
+]);
+
+/** Removed unless inside `main` / `article` (where they hold real content) */
+const PAGE_CHROME = new Set(['header', 'footer']);
+
+const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'search', 'dialog', 'alertdialog']);
+
+const BOILERPLATE_MARKERS =
+  /(?:^|[\s_-])(?:cookie|cookies|consent|gdpr|onetrust|cc-window|newsletter|popup|modal|skip-link|breadcrumbs?|sr-only|visually-hidden|screen-reader-text)(?:$|[\s_-])/i;
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset',
+  'figcaption', 'figure', 'header', 'footer', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section',
+  'summary', 'table', 'ul', 'html', '#root',
+]);
+
+const MAX_BLOCK_CHARS = 1000;
+
+export function extractContent(html: string): ExtractedContent {
+  const document = parseHtml(html);
+  const body = findElement(document, (element) => element.tag === 'body') ?? document;
+  const main =
+    findElement(body, (element) => element.tag === 'main' || element.attributes.role === 'main') ??
+    findElement(body, (element) => element.tag === 'article');
+
+  let blocks = main ? new BlockWriter().write(main) : [];
+  if (!blocks.some((block) => block.type !== 'heading')) {
+    blocks = new BlockWriter().write(body);
+  }
+
+  return { blocks, text: blocksToText(blocks) };
+}
+
+/**
+ * Flatten blocks into lines for line-oriented consumers
+ */
+export function blocksToText(blocks: ContentBlock[]): string {
+  return blocks
+    .flatMap((block) => {
+      if (block.type === 'list') return block.items ?? [];
+      if (block.type === 'table') return (block.rows ?? []).map((row) => row.join(' | '));
+      return [block.text];
+    })
+    .join('\n');
+}
+
+class BlockWriter {
+  private readonly blocks: ContentBlock[] = [];
+  private readonly headings: Array<{ level: number; text: string }> = [];
+  private inline: string[] = [];
+
+  write(root: HtmlElement): ContentBlock[] {
+    this.visit(root, isInsideContent(root));
+    this.flush();
+    return this.blocks;
+  }
+
+  private visit(element: HtmlElement, inContent: boolean): void {
+    for (const child of element.children) {
+      if (child.type === 'text') {
+        this.inline.push(child.text);
+        continue;
+      }
+      if (isBoilerplate(child, inContent)) continue;
+
+      const tag = child.tag;
+      const childInContent = inContent || tag === 'main' || tag === 'article';
+
+      if (/^h[1-6]$/.test(tag)) {
+        this.flush();
+        const text = inlineText(child);
+        if (text) this.heading(Number(tag[1]), text);
+      } else if (tag === 'ul' || tag === 'ol') {
+        this.flush();
+        const items = listItems(child);
+        if (items.length > 0) this.push({ type: 'list', text: items.join('\n'), items });
+      } else if (tag === 'table') {
+        this.flush();
+        const rows = tableRows(child);
+        if (rows.length > 0) {
+          this.push({ type: 'table', text: rows.map((row) => row.join(' | ')).join('\n'), rows });
+        }
+      } else if (tag === 'br') {
+        this.inline.push(' ');
+      } else if (BLOCK_ELEMENTS.has(tag)) {
+        this.flush();
+        this.visit(child, childInContent);
+        this.flush();
+      } else {
+        this.visit(child, childInContent);
+      }
+    }
+  }
+
+  private heading(level: number, text: string): void {
+    while (this.headings.length > 0 && this.headings[this.headings.length - 1].level >= level) {
+      this.headings.pop();
+    }
+    this.push({ type: 'heading', level, text });
+    this.headings.push({ level, text });
+  }
+
+  private flush(): void {
+    const text = collapse(this.inline.join(''));
+    this.inline = [];
+    if (text) this.push({ type: 'paragraph', text });
+  }
+
+  private push(block: Omit<ContentBlock, 'section'>): void {
+    const section = this.headings.map((heading) => heading.text);
+    this.blocks.push({ ...block, text: block.text.slice(0, MAX_BLOCK_CHARS), section });
+  }
+}
+
+function isBoilerplate(element: HtmlElement, inContent: boolean): boolean {
+  if (ALWAYS_REMOVED.has(element.tag)) return true;
+  if (PAGE_CHROME.has(element.tag) && !inContent) return true;
+
+  const { attributes } = element;
+  if ('hidden' in attributes || attributes['aria-hidden'] === 'true') return true;
+  if (/display\s*:\s*none|visibility\s*:\s*hidden/i.test(attributes.style ?? '')) return true;
+  if (BOILERPLATE_ROLES.has((attributes.role ?? '').toLowerCase())) return true;
+
+  const markers = `${attributes.id ?? ''} ${attributes.class ?? ''} ${attributes['aria-label'] ?? ''}`;
+  return BOILERPLATE_MARKERS.test(markers);
+}
+
+function isInsideContent(element: HtmlElement): boolean {
+  for (let node: HtmlElement | null = element; node; node = node.parent) {
+    if (node.tag === 'main' || node.tag === 'article' || node.attributes.role === 'main') return true;
+  }
+  return false;
+}
+
+function listItems(list: HtmlElement): string[] {
+  const items: string[] = [];
+  for (const child of list.children) {
+    if (child.type !== 'element' || isBoilerplate(child, true)) continue;
+    if (child.tag === 'li') {
+      // Nested lists become their own items after the parent text
+      const own = collapse(textOf(child, (element) => element.tag === 'ul' || element.tag === 'ol'));
+      if (own) items.push(own);
+      for (const nested of child.children) {
+        if (nested.type === 'element' && (nested.tag === 'ul' || nested.tag === 'ol')) {
+          items.push(...listItems(nested));
+        }
+      }
+    } else {
+      items.push(...listItems(child));
+    }
+  }
+  return items;
+}
+
+function tableRows(table: HtmlElement): string[][] {
+  const rows: string[][] = [];
+  const walk = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (child.type !== 'element') continue;
+      if (child.tag === 'tr') {
+        const cells = child.children
+          .filter((cell): cell is HtmlElement => cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th'))
+          .map((cell) => inlineText(cell));
+        if (cells.some(Boolean)) rows.push(cells);
+      } else if (child.tag !== 'table') {
+        walk(child);
+      }
+    }
+  };
+  walk(table);
+  return rows;
+}
+
+function inlineText(element: HtmlElement): string {
+  return collapse(textOf(element));
+}
+
+function textOf(element: HtmlElement, skip?: (element: HtmlElement) => boolean): string {
+  return element.children
+    .map((child: HtmlNode) => {
+      if (child.type === 'text') return child.text;
+      if (isBoilerplate(child, true) || skip?.(child)) return '';
+      const text = textOf(child, skip);
+      return child.tag === 'br' || BLOCK_ELEMENTS.has(child.tag) ? ` ${text} ` : text;
+    })
+    .join('');
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
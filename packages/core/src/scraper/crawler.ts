@@ -1,24 +1,168 @@
 import { createHash } from 'node:crypto';
+import type { CrawlGuard } from '../config/validator';
 import { setTimeout as delay } from 'node:timers/promises';
+import {
+  ALLOW_ALL,
+  DISALLOW_ALL,
+  isUrlAllowed,
+  parseRobotsTxt,
+  selectRobotsPolicy,
+  type RobotsPolicy,
+} from './robots';
+import { classifyPage, scoreUrl } from './prioritize';
+import { extractPageMetadata, type PageMetadata } from './metadata';
+import { blocksToText, extractContent, type ContentBlock } from './content';
+import { htmlToInlineText } from './html';
+import { decodeBody } from './charset';
+import { extractCssTokens, extractVisualAssets, type VisualAssets } from './visual';
+import { resolveSitemaps, sitemapEntryScore, type SitemapEntry } from './sitemap';
+import {
+  assertUrlAllowed,
+  guardedFetch,
+  CrawlBlockedError,
+  DEFAULT_REDIRECT_POLICY,
+  type CrawlBlockReason,
+  type RedirectPolicy,
+  type UrlGuardOptions,
+} from './url-guard';
+import type { PageContentType } from '../types/kernel';
+
+/**
+ * Crawl limits, mirroring the `runtime.crawl` guard in prompts.json
+ */
+export interface CrawlLimits {
+  maxPages: number;
+  /** UTF-8 size of the extracted page text, summed across pages */
+  maxTotalBytes: number;
+  maxConcurrency: number;
+  requestTimeoutMs: number;
+  totalTimeoutMs: number;
+}
 
-const MAX_PAGES = 6;
-const MAX_TOTAL_BYTES = 300 * 1024;
-const MAX_CONCURRENCY = 4;
-const REQUEST_TIMEOUT_MS = 5000;
-const TOTAL_TIMEOUT_MS = 15000;
+export const DEFAULT_CRAWL_LIMITS: CrawlLimits = {
+  maxPages: 6,
+  maxTotalBytes: 300 * 1024,
+  maxConcurrency: 4,
+  requestTimeoutMs: 5000,
+  totalTimeoutMs: 15000,
+};
+const MAX_CRAWL_DELAY_MS = 10000;
+/** Sitemap entries and discovered links considered before ranking */
+const MAX_CANDIDATE_URLS = 200;
+const MAX_LINKS_PER_PAGE = 50;
+/** Linked stylesheets read from the start page for colours and fonts */
+const MAX_STYLESHEETS = 3;
+const MAX_STYLESHEET_BYTES = 256 * 1024;
 const USER_AGENT =
   'BrandPackCrawler/1.0 (+https://brandpack.example.com/crawler)';
 
+/**
+ * Same-origin link found in a page's HTML
+ */
+export interface CrawlLink {
+  url: string;
+  text: string;
+}
+
 export interface CrawlPage {
   url: string;
   status: number | null;
   content: string;
+  /**
+   * Page kind from URL, anchor text and content (see `classifyPage`)
+   */
+  contentType?: PageContentType;
+  /**
+   * Same-origin links with anchor text, used to rank further pages
+   */
+  links?: CrawlLink[];
+  /**
+   * Title, meta description, h1, OpenGraph and JSON-LD read before the
+   * HTML is flattened
+   */
+  metadata?: PageMetadata;
+  /**
+   * Headings, paragraphs, lists and tables with their section path;
+   * `content` is these blocks one line each
+   */
+  blocks?: ContentBlock[];
+  /**
+   * Logo candidates, colours and fonts (see `extractVisualAssets`); the
+   * start page also includes tokens from its linked stylesheets
+   */
+  visual?: VisualAssets;
+  /**
+   * Character encoding the body was decoded with (see `decodeBody`)
+   */
+  encoding?: string;
+  /**
+   * UTF-8 size of `content`, the measure `maxTotalBytes` counts
+   */
   bytes: number;
   etag?: string | null;
   lastModified?: string | null;
   contentHash: string;
   fetchedAt: string;
   error?: string;
+  /**
+   * True when the server answered 304 and content was reused from the
+   * previous snapshot.
+   */
+  notModified?: boolean;
+  /**
+   * Whether content differs from the previous snapshot (only set when one
+   * was supplied).
+   */
+  changed?: boolean;
+}
+
+/**
+ * Page-level diff against a previous crawl
+ */
+export interface CrawlChanges {
+  changed: string[];
+  unchanged: string[];
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Convert a `runtime.crawl` guard from config into crawler limits
+ */
+export function crawlLimitsFromGuard(guard: CrawlGuard): CrawlLimits {
+  return {
+    maxPages: guard.max_pages,
+    maxTotalBytes: guard.max_total_kb * 1024,
+    maxConcurrency: guard.max_concurrency,
+    requestTimeoutMs: guard.per_request_timeout_ms,
+    totalTimeoutMs: guard.total_timeout_ms,
+  };
+}
+
+/**
+ * A URL the crawler chose not to fetch
+ */
+export interface CrawlSkip {
+  url: string;
+  reason: 'robots_disallowed' | 'robots_unreachable';
+}
+
+/**
+ * A URL refused by the URL guard (scheme, private address, redirects)
+ */
+export interface CrawlBlock {
+  url: string;
+  reason: CrawlBlockReason;
+  message: string;
+  /** Offending resolved address, for `private_address` */
+  address?: string;
+}
+
+/**
+ * The parts of an earlier crawl needed for conditional re-fetching
+ */
+export interface CrawlSnapshot {
+  pages: CrawlPage[];
 }
 
 export interface CrawlResult {
@@ -27,8 +171,28 @@ export interface CrawlResult {
   totalBytes: number;
   totalDurationMs: number;
   sitemapUsed: boolean;
+  /**
+   * Sitemap documents read (robots.txt Sitemap lines, defaults, index children)
+   */
+  sitemaps: string[];
   earlyStopTriggered: boolean;
   limitReached: boolean;
+  /**
+   * Aggregate hash of every successfully fetched page (URL + content hash)
+   */
+  contentHash: string;
+  /**
+   * Diff against `options.previous`, when supplied
+   */
+  changes?: CrawlChanges;
+  /**
+   * URLs not fetched because robots.txt disallows them (or could not be read)
+   */
+  skipped: CrawlSkip[];
+  /**
+   * URLs refused by the URL guard, including the start URL
+   */
+  blocked: CrawlBlock[];
 }
 
 export interface CrawlOptions {
@@ -38,18 +202,85 @@ export interface CrawlOptions {
    * Return true when enough content has been gathered.
    */
   earlyStop?: (page: CrawlPage) => boolean;
+  /**
+   * Earlier crawl of the same site. Pages are re-requested with
+   * If-None-Match / If-Modified-Since and reused on 304.
+   */
+  previous?: CrawlSnapshot;
+  /**
+   * Honour robots.txt rules and Crawl-delay (default true)
+   */
+  respectRobotsTxt?: boolean;
+  /**
+   * Overrides for DEFAULT_CRAWL_LIMITS (see `crawlLimitsFromGuard`)
+   */
+  limits?: Partial<CrawlLimits>;
+  /**
+   * Paths ranked ahead of others (`ScraperConfig.priority_pages`)
+   */
+  priorityPages?: string[];
+  /**
+   * Redirect handling (`ScraperConfig.follow_redirects` / `max_redirects`)
+   */
+  redirects?: RedirectPolicy;
+  /**
+   * SSRF protection settings; private addresses are always refused unless
+   * their host is listed in `allowedHosts`
+   */
+  urlGuard?: UrlGuardOptions;
+}
+
+type CrawlNetworkOptions = UrlGuardOptions & { redirects: RedirectPolicy };
+
+interface QueuedUrl {
+  url: string;
+  score: number;
+  anchorText: string;
 }
 
 export async function crawlSite(options: CrawlOptions): Promise<CrawlResult> {
   const start = Date.now();
   const startUrl = normalizeUrl(options.url);
+  const limits = resolveCrawlLimits(options.limits);
   const visited = new Set<string>();
-  const queue: string[] = [];
+  const queue: QueuedUrl[] = [];
   const pages: CrawlPage[] = [];
+  const skipped: CrawlSkip[] = [];
+  const blocked: CrawlBlock[] = [];
   let totalBytes = 0;
   let limitReached = false;
   let earlyStopTriggered = false;
   let sitemapUsed = false;
+  let sitemaps: string[] = [];
+  const previousPages = new Map(
+    (options.previous?.pages ?? [])
+      .filter((page) => !page.error && page.status !== null)
+      .map((page) => [page.url, page]),
+  );
+
+  const network: CrawlNetworkOptions = {
+    ...options.urlGuard,
+    redirects: options.redirects ?? DEFAULT_REDIRECT_POLICY,
+  };
+
+  try {
+    await assertUrlAllowed(startUrl.href, network);
+  } catch (error) {
+    if (!(error instanceof CrawlBlockedError)) throw error;
+    return {
+      origin: startUrl.origin,
+      pages,
+      totalBytes,
+      totalDurationMs: Date.now() - start,
+      sitemapUsed,
+      sitemaps,
+      earlyStopTriggered,
+      limitReached,
+      contentHash: computeCrawlHash(pages),
+      skipped,
+      blocked: [toCrawlBlock(error)],
+    };
+  }
 
   const controller = new AbortController();
   if (options.signal) {
@@ -58,106 +289,209 @@ export async function crawlSite(options: CrawlOptions): Promise<CrawlResult> {
     });
   }
 
-  const sitemapUrls = await fetchSitemap(startUrl).catch(() => []);
-  if (sitemapUrls.length > 0) {
+  const { policy: robots, sitemaps: robotsSitemaps } =
+    options.respectRobotsTxt === false
+      ? { policy: ALLOW_ALL, sitemaps: [] }
+      : await fetchRobots(startUrl, limits.requestTimeoutMs, network);
+  const crawlDelayMs = Math.min(
+    MAX_CRAWL_DELAY_MS,
+    Math.round((robots.crawlDelaySeconds ?? 0) * 1000),
+  );
+  let nextRequestAt = 0;
+
+  // Idle workers wait here until a URL is queued or a fetch finishes
+  let inFlight = 0;
+  let waiting: Array<() => void> = [];
+  const wake = () => {
+    const resolvers = waiting;
+    waiting = [];
+    resolvers.forEach((resolve) => resolve());
+  };
+  const nextEvent = () => new Promise<void>((resolve) => waiting.push(resolve));
+
+  // Highest score first; equal scores keep discovery order
+  const enqueue = (url: string, anchorText = '', bonus = 0) => {
+    if (visited.has(url) || queue.some((entry) => entry.url === url)) return;
+    const entry = {
+      url,
+      anchorText,
+      score: scoreUrl(url, { anchorText, priorityPages: options.priorityPages }) + bonus,
+    };
+    const index = queue.findIndex((queued) => queued.score < entry.score);
+    if (index === -1) {
+      queue.push(entry);
+    } else {
+      queue.splice(index, 0, entry);
+    }
+    wake();
+  };
+
+  const sitemap = await fetchSitemap(startUrl, limits, network, robotsSitemaps).catch(() => ({
+    entries: [] as SitemapEntry[],
+    sitemaps: [] as string[],
+  }));
+  sitemaps = sitemap.sitemaps;
+  if (sitemap.entries.length > 0) {
     sitemapUsed = true;
-    queue.push(...sitemapUrls.slice(0, MAX_PAGES));
+    enqueue(startUrl.href);
+    const now = Date.now();
+    for (const entry of sitemap.entries) {
+      enqueue(entry.url, '', sitemapEntryScore(entry, now));
+    }
+    // Drop disallowed URLs before capping so they don't use up the page budget
+    for (let index = queue.length - 1; index >= 0; index--) {
+      const { url } = queue[index];
+      if (isUrlAllowed(robots, url)) continue;
+      queue.splice(index, 1);
+      visited.add(url);
+      skipped.unshift({ url, reason: robots.unreachable ? 'robots_unreachable' : 'robots_disallowed' });
+    }
+    queue.splice(limits.maxPages);
   }
   if (queue.length === 0) {
-    queue.push(startUrl.href);
+    enqueue(startUrl.href);
   }
 
   const worker = async () => {
-    while (queue.length > 0) {
+    for (;;) {
       if (controller.signal.aborted) break;
-      if (Date.now() - start >= TOTAL_TIMEOUT_MS) {
+      if (Date.now() - start >= limits.totalTimeoutMs) {
         limitReached = true;
         controller.abort();
         break;
       }
-      if (pages.length >= MAX_PAGES) break;
-      const next = queue.shift();
-      if (!next || visited.has(next)) continue;
-      visited.add(next);
-
-      if (totalBytes >= MAX_TOTAL_BYTES) {
-        limitReached = true;
-        break;
+      if (pages.length >= limits.maxPages) break;
+      // Nothing to start yet: pages in flight may still discover links or fail
+      if (queue.length === 0 || pages.length + inFlight >= limits.maxPages) {
+        if (inFlight === 0) break;
+        await nextEvent();
+        continue;
       }
+      const entry = queue.shift();
+      if (!entry || visited.has(entry.url)) continue;
+      const next = entry.url;
+      visited.add(next);
 
-      const fetchStart = Date.now();
-      let pageRecord: CrawlPage | null = null;
+      inFlight++;
       try {
-        pageRecord = await fetchPage(next, {
-          signal: controller.signal,
-          timeoutMs: REQUEST_TIMEOUT_MS,
-        });
-      } catch (error) {
-        pageRecord = {
-          url: next,
-          status: null,
-          content: '',
-          bytes: 0,
-          etag: undefined,
-          lastModified: undefined,
-          contentHash: hashString(''),
-          fetchedAt: new Date().toISOString(),
-          error: (error as Error).message,
-        };
-      }
-
-      if (!pageRecord) continue;
+        if (!isUrlAllowed(robots, next)) {
+          skipped.push({
+            url: next,
+            reason: robots.unreachable ? 'robots_unreachable' : 'robots_disallowed',
+          });
+          continue;
+        }
 
-      if (totalBytes + pageRecord.bytes > MAX_TOTAL_BYTES) {
-        const allowed = MAX_TOTAL_BYTES - totalBytes;
-        if (allowed <= 0) {
+        if (totalBytes >= limits.maxTotalBytes) {
           limitReached = true;
           break;
         }
-        pageRecord.content = truncateToBytes(pageRecord.content, allowed);
-        pageRecord.bytes = byteLength(pageRecord.content);
-        pageRecord.contentHash = hashString(pageRecord.content);
-        limitReached = true;
-      }
 
-      pages.push(pageRecord);
-      totalBytes += pageRecord.bytes;
+        // Crawl-delay is shared by all workers for the host
+        if (crawlDelayMs > 0) {
+          const now = Date.now();
+          const wait = Math.max(0, nextRequestAt - now);
+          nextRequestAt = Math.max(now, nextRequestAt) + crawlDelayMs;
+          if (now + wait - start >= limits.totalTimeoutMs) {
+            limitReached = true;
+            break;
+          }
+          if (wait > 0) {
+            await delay(wait);
+          }
+          if (controller.signal.aborted) break;
+        }
 
-      if (options.earlyStop && options.earlyStop(pageRecord)) {
-        earlyStopTriggered = true;
-        controller.abort();
-        break;
-      }
+        const fetchStart = Date.now();
+        let pageRecord: CrawlPage | null = null;
+        try {
+          pageRecord = await fetchPage(next, {
+            signal: controller.signal,
+            timeoutMs: limits.requestTimeoutMs,
+            previous: previousPages.get(next),
+            network,
+          });
+        } catch (error) {
+          if (error instanceof CrawlBlockedError) {
+            blocked.push(toCrawlBlock(error));
+            continue;
+          }
+          pageRecord = {
+            url: next,
+            status: null,
+            content: '',
+            bytes: 0,
+            etag: undefined,
+            lastModified: undefined,
+            contentHash: hashString(''),
+            fetchedAt: new Date().toISOString(),
+            error: (error as Error).message,
+          };
+        }
+
+        if (!pageRecord) continue;
+
+        pageRecord.contentType = classifyPage(next, pageRecord.content, entry.anchorText);
 
-      if (
-        !sitemapUsed &&
-        pages.length < MAX_PAGES &&
-        pageRecord.status &&
-        pageRecord.status >= 200 &&
-        pageRecord.status < 400 &&
-        !limitReached
-      ) {
-        const internalLinks = extractLinks(pageRecord.content, startUrl.origin);
-        for (const link of internalLinks) {
-          if (
-            !visited.has(link) &&
-            !queue.includes(link) &&
-            visited.size + queue.length < MAX_PAGES
-          ) {
-            queue.push(link);
+        if (totalBytes + pageRecord.bytes > limits.maxTotalBytes) {
+          const allowed = limits.maxTotalBytes - totalBytes;
+          if (allowed <= 0) {
+            limitReached = true;
+            break;
           }
+          pageRecord.content = truncateToBytes(pageRecord.content, allowed);
+          pageRecord.blocks = pageRecord.blocks && fitBlocks(pageRecord.blocks, pageRecord.content.length);
+          pageRecord.bytes = byteLength(pageRecord.content);
+          pageRecord.contentHash = hashString(pageRecord.content);
+          limitReached = true;
         }
-      }
 
-      const elapsed = Date.now() - fetchStart;
-      if (elapsed < 50) {
-        await delay(50 - elapsed);
+        pages.push(pageRecord);
+        totalBytes += pageRecord.bytes;
+
+        if (options.earlyStop && options.earlyStop(pageRecord)) {
+          earlyStopTriggered = true;
+          controller.abort();
+          break;
+        }
+
+        if (
+          !sitemapUsed &&
+          pages.length < limits.maxPages &&
+          pageRecord.status &&
+          pageRecord.status >= 200 &&
+          pageRecord.status < 400 &&
+          !limitReached
+        ) {
+          for (const link of pageRecord.links ?? []) {
+            if (isSameOrigin(link.url, startUrl.origin) && visited.size + queue.length < MAX_CANDIDATE_URLS) {
+              enqueue(link.url, link.text);
+            }
+          }
+        }
+
+        const elapsed = Date.now() - fetchStart;
+        if (elapsed < 50) {
+          await delay(50 - elapsed);
+        }
+      } finally {
+        inFlight--;
+        wake();
       }
     }
   };
 
-  const workerCount = Math.min(MAX_CONCURRENCY, queue.length || 1);
-  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  await Promise.all(Array.from({ length: Math.max(1, limits.maxConcurrency) }, () => worker()));
+
+  // Brand colours and fonts mostly live in external CSS
+  const startPage = pages.find((page) => page.url === startUrl.href && page.visual && !page.notModified);
+  if (startPage?.visual && !controller.signal.aborted && Date.now() - start < limits.totalTimeoutMs) {
+    await addStylesheetTokens(startPage.visual, startUrl.origin, robots, limits, network);
+  }
+
+  const changes = options.previous
+    ? diffPages(pages, options.previous.pages)
+    : undefined;
 
   return {
     origin: startUrl.origin,
@@ -165,33 +499,118 @@ export async function crawlSite(options: CrawlOptions): Promise<CrawlResult> {
     totalBytes,
     totalDurationMs: Date.now() - start,
     sitemapUsed,
+    sitemaps,
     earlyStopTriggered,
     limitReached,
+    contentHash: computeCrawlHash(pages),
+    changes,
+    skipped,
+    blocked,
   };
 }
 
+function toCrawlBlock(error: CrawlBlockedError): CrawlBlock {
+  return {
+    url: error.url,
+    reason: error.reason,
+    message: error.message,
+    ...(error.address ? { address: error.address } : {}),
+  };
+}
+
+/**
+ * Hash the successfully fetched pages of a crawl, independent of order
+ */
+export function computeCrawlHash(pages: CrawlPage[]): string {
+  const fingerprint = pages
+    .filter((page) => !page.error && page.status !== null && page.status >= 200 && page.status < 400)
+    .map((page) => `${page.url}\n${page.contentHash}`)
+    .sort()
+    .join('\n');
+  return hashString(fingerprint);
+}
+
+function diffPages(pages: CrawlPage[], previous: CrawlPage[]): CrawlChanges {
+  const before = new Map(previous.map((page) => [page.url, page]));
+  const changes: CrawlChanges = { changed: [], unchanged: [], added: [], removed: [] };
+
+  for (const page of pages) {
+    const prior = before.get(page.url);
+    if (!prior) {
+      changes.added.push(page.url);
+      page.changed = true;
+    } else if (page.notModified || prior.contentHash === page.contentHash) {
+      changes.unchanged.push(page.url);
+      page.changed = false;
+    } else {
+      changes.changed.push(page.url);
+      page.changed = true;
+    }
+  }
+
+  const current = new Set(pages.map((page) => page.url));
+  changes.removed = previous
+    .map((page) => page.url)
+    .filter((url) => !current.has(url));
+
+  return changes;
+}
+
 async function fetchPage(
   url: string,
-  options: { signal: AbortSignal; timeoutMs: number },
+  options: {
+    signal: AbortSignal;
+    timeoutMs: number;
+    previous?: CrawlPage;
+    network: CrawlNetworkOptions;
+  },
 ): Promise<CrawlPage> {
   const controller = new AbortController();
   const timeout = AbortSignal.timeout(options.timeoutMs);
   const signal = AbortSignal.any([options.signal, timeout, controller.signal]);
 
+  const headers: Record<string, string> = {
+    'User-Agent': USER_AGENT,
+    Accept: 'text/html, */*;q=0.8',
+  };
+  const previous = options.previous;
+  if (previous?.etag) {
+    headers['If-None-Match'] = previous.etag;
+  }
+  if (previous?.lastModified) {
+    headers['If-Modified-Since'] = previous.lastModified;
+  }
+
   try {
-    const response = await fetch(url, {
-      headers: { 'User-Agent': USER_AGENT, Accept: 'text/html, */*;q=0.8' },
-      signal,
-    });
+    const { response } = await guardedFetch(url, { headers, signal }, options.network);
+
+    if (response.status === 304 && previous) {
+      return {
+        ...previous,
+        status: 304,
+        etag: response.headers.get('etag') ?? previous.etag,
+        lastModified: response.headers.get('last-modified') ?? previous.lastModified,
+        fetchedAt: new Date().toISOString(),
+        notModified: true,
+        changed: undefined,
+        bytes: byteLength(previous.content),
+      };
+    }
 
     const buffer = Buffer.from(await response.arrayBuffer());
-    const text = decodeBody(buffer, response.headers.get('content-type'));
-    const normalized = normalizeHtml(text);
+    const { text, encoding } = decodeBody(buffer, response.headers.get('content-type'));
+    const extracted = extractContent(text);
+    const normalized = extracted.text;
     const page: CrawlPage = {
       url,
       status: response.status,
       content: normalized,
-      bytes: buffer.byteLength,
+      blocks: extracted.blocks,
+      links: extractLinks(text, url, MAX_LINKS_PER_PAGE),
+      metadata: extractPageMetadata(text),
+      visual: extractVisualAssets(text, url),
+      encoding,
+      bytes: byteLength(normalized),
       etag: response.headers.get('etag'),
       lastModified: response.headers.get('last-modified'),
       contentHash: hashString(normalized),
@@ -204,72 +623,170 @@ async function fetchPage(
   }
 }
 
-async function fetchSitemap(baseUrl: URL): Promise<string[]> {
-  const sitemapCandidates = [
-    new URL('/sitemap.xml', baseUrl).href,
-    new URL('/sitemap_index.xml', baseUrl).href,
-  ];
+/**
+ * Merge colour and font tokens from the page's linked stylesheets; fetch
+ * failures are ignored
+ */
+async function addStylesheetTokens(
+  visual: VisualAssets,
+  origin: string,
+  robots: RobotsPolicy,
+  limits: CrawlLimits,
+  network: CrawlNetworkOptions,
+): Promise<void> {
+  // robots.txt only governs our own origin; CDN-hosted CSS is fetched as is
+  const stylesheets = visual.stylesheets
+    .filter((url) => !isSameOrigin(url, origin) || isUrlAllowed(robots, url))
+    .slice(0, MAX_STYLESHEETS);
+
+  const sheets = await Promise.all(
+    stylesheets.map(async (url) => {
+      try {
+        const { response } = await guardedFetch(
+          url,
+          {
+            headers: { 'User-Agent': USER_AGENT, Accept: 'text/css' },
+            signal: AbortSignal.timeout(limits.requestTimeoutMs),
+          },
+          network,
+        );
+        if (!response.ok) return '';
+        const body = Buffer.from(await response.arrayBuffer()).subarray(0, MAX_STYLESHEET_BYTES);
+        return decodeBody(body, response.headers.get('content-type')).text;
+      } catch {
+        return '';
+      }
+    }),
+  );
+
+  const tokens = extractCssTokens(sheets.join('\n'));
+  for (const color of tokens.colors) {
+    const existing = visual.colors.find((entry) => entry.hex === color.hex);
+    if (existing) {
+      existing.weight += color.weight;
+      existing.name = existing.name ?? color.name;
+    } else {
+      visual.colors.push(color);
+    }
+  }
+  for (const font of tokens.fonts) {
+    const existing = visual.fonts.find((entry) => entry.family.toLowerCase() === font.family.toLowerCase());
+    if (existing) existing.weight += font.weight;
+    else visual.fonts.push(font);
+  }
+  visual.colors.sort((a, b) => b.weight - a.weight);
+  visual.fonts.sort((a, b) => b.weight - a.weight);
+}
 
-  for (const candidate of sitemapCandidates) {
-    try {
-      const response = await fetch(candidate, {
+/**
+ * Fetch and resolve robots.txt for the crawler's user agent
+ *
+ * 4xx means no restrictions; 5xx or a network failure means the site is
+ * treated as fully disallowed (RFC 9309 "unreachable"). Sitemap lines are
+ * returned for sitemap discovery.
+ */
+async function fetchRobots(
+  baseUrl: URL,
+  timeoutMs: number,
+  network: CrawlNetworkOptions,
+): Promise<{ policy: RobotsPolicy; sitemaps: string[] }> {
+  try {
+    const { response } = await guardedFetch(
+      new URL('/robots.txt', baseUrl).href,
+      {
         headers: { 'User-Agent': USER_AGENT },
-        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
-      });
-      if (!response.ok) continue;
-      const text = await response.text();
-      const urls = Array.from(text.matchAll(/<loc>(.*?)<\/loc>/gi))
-        .map((match) => match[1])
-        .filter((loc) => isSameOrigin(loc, baseUrl.origin));
-      if (urls.length > 0) {
-        return urls.slice(0, MAX_PAGES);
-      }
-    } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        continue;
-      }
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      network,
+    );
+    if (response.status >= 500) {
+      return { policy: DISALLOW_ALL, sitemaps: [] };
     }
+    if (!response.ok) {
+      return { policy: ALLOW_ALL, sitemaps: [] };
+    }
+    const robots = parseRobotsTxt(await response.text());
+    return { policy: selectRobotsPolicy(robots, USER_AGENT), sitemaps: robots.sitemaps };
+  } catch {
+    return { policy: DISALLOW_ALL, sitemaps: [] };
   }
-  return [];
 }
 
-function normalizeHtml(html: string): string {
-  return html
-    .replace(/<script[\s\S]*?<\/script>/gi, ' ')
-    .replace(/<style[\s\S]*?<\/style>/gi, ' ')
-    .replace(/<!--[\s\S]*?-->/g, ' ')
-    .replace(/<\/?[a-z][\s\S]*?>/gi, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
+/**
+ * Collect sitemap entries from robots.txt Sitemap lines and the default
+ * locations, following sitemap indexes
+ */
+async function fetchSitemap(
+  baseUrl: URL,
+  limits: CrawlLimits,
+  network: CrawlNetworkOptions,
+  robotsSitemaps: string[],
+): Promise<{ entries: SitemapEntry[]; sitemaps: string[] }> {
+  const candidates = Array.from(
+    new Set([
+      ...robotsSitemaps,
+      new URL('/sitemap.xml', baseUrl).href,
+      new URL('/sitemap_index.xml', baseUrl).href,
+    ]),
+  );
+
+  return resolveSitemaps(candidates, {
+    origin: baseUrl.origin,
+    maxUrls: MAX_CANDIDATE_URLS,
+    fetchBody: async (url) => {
+      try {
+        const { response } = await guardedFetch(
+          url,
+          {
+            headers: { 'User-Agent': USER_AGENT },
+            signal: AbortSignal.timeout(limits.requestTimeoutMs),
+          },
+          network,
+        );
+        if (!response.ok) return null;
+        return Buffer.from(await response.arrayBuffer());
+      } catch {
+        return null;
+      }
+    },
+  });
 }
 
-function extractLinks(html: string, origin: string): string[] {
-  const links = new Set<string>();
-  const pattern = /href=["']([^"'#]+)["']/gi;
+/**
+ * Collect same-origin links with their anchor text from raw HTML
+ */
+function extractLinks(html: string, pageUrl: string, maxLinks: number): CrawlLink[] {
+  const origin = new URL(pageUrl).origin;
+  const links = new Map<string, string>();
+  const pattern = /<a\b[^>]*?href=["']([^"'#]+)(?:#[^"']*)?["'][^>]*>([\s\S]*?)<\/a>/gi;
   let match: RegExpExecArray | null;
   while ((match = pattern.exec(html)) !== null) {
-    const candidate = match[1];
     try {
-      const absolute = new URL(candidate, origin);
-      if (absolute.origin === origin) {
-        links.add(absolute.href);
+      const absolute = new URL(match[1], pageUrl);
+      absolute.hash = '';
+      if (absolute.origin !== origin || !/^https?:$/.test(absolute.protocol)) continue;
+      const text = htmlToInlineText(match[2]);
+      const existing = links.get(absolute.href);
+      if (existing === undefined || (!existing && text)) {
+        links.set(absolute.href, text);
       }
     } catch {
       // ignore invalid URLs
     }
-    if (links.size >= MAX_PAGES) break;
+    if (links.size >= maxLinks) break;
   }
-  return Array.from(links);
+  return Array.from(links, ([url, text]) => ({ url, text }));
 }
 
-function decodeBody(buffer: Buffer, contentType: string | null): string {
-  if (!contentType || /charset=utf-8/i.test(contentType)) {
-    return buffer.toString('utf-8');
-  }
-  if (/charset=iso-8859-1/i.test(contentType)) {
-    return buffer.toString('latin1');
+function resolveCrawlLimits(overrides: Partial<CrawlLimits> = {}): CrawlLimits {
+  const limits = { ...DEFAULT_CRAWL_LIMITS };
+  for (const key of Object.keys(limits) as Array<keyof CrawlLimits>) {
+    const value = overrides[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+      limits[key] = key === 'maxPages' || key === 'maxConcurrency' ? Math.floor(value) : value;
+    }
   }
-  return buffer.toString('utf-8');
+  return limits;
 }
 
 function normalizeUrl(input: string): URL {
@@ -282,6 +799,17 @@ function hashString(value: string): string {
   return createHash('sha256').update(value).digest('hex');
 }
 
+/**
+ * Keep the leading blocks whose text survived truncation
+ */
+function fitBlocks(blocks: ContentBlock[], maxChars: number): ContentBlock[] {
+  let count = 0;
+  while (count < blocks.length && blocksToText(blocks.slice(0, count + 1)).length <= maxChars) {
+    count++;
+  }
+  return blocks.slice(0, count);
+}
+
 function truncateToBytes(text: string, maxBytes: number): string {
   let sliced = text;
   while (byteLength(sliced) > maxBytes) {
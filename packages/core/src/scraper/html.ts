@@ -0,0 +1,210 @@
+/**
+ * HTML helpers - Entities, attributes and a lenient element tree
+ *
+ * Small, dependency-free helpers shared by the metadata and text
+ * extractors. They are tolerant of the malformed markup real sites ship.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  cent: '¢',
+  middot: '·',
+  bull: '•',
+  times: '×',
+};
+
+/**
+ * Decode numeric and common named character references
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff
+        ? String.fromCodePoint(code)
+        : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Parse the attributes of a start tag (`<meta property="og:title" ...>`)
+ *
+ * Names are lower-cased and values entity-decoded; valueless attributes
+ * map to an empty string.
+ */
+export function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const body = tag.replace(/^<\s*[a-z0-9-]+/i, '').replace(/\/?\s*>$/, '');
+  const pattern = /([^\s"'=<>\/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    const name = match[1].toLowerCase();
+    if (name in attributes) continue;
+    attributes[name] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Strip tags from an HTML fragment and collapse whitespace
+ */
+export function htmlToInlineText(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<script[\s\S]*?<\/script>/gi, ' ')
+      .replace(/<style[\s\S]*?<\/style>/gi, ' ')
+      .replace(/<!--[\s\S]*?-->/g, ' ')
+      .replace(/<\/?[a-z][\s\S]*?>/gi, ' '),
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export interface HtmlElement {
+  type: 'element';
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+export interface HtmlText {
+  type: 'text';
+  text: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+/** Elements whose content is not markup */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title', 'noscript', 'template', 'svg']);
+
+/** Start tags that close an open element of the given kind */
+const IMPLIED_END: Record<string, Set<string>> = {
+  p: new Set([
+    'p', 'div', 'section', 'article', 'aside', 'header', 'footer', 'nav', 'main', 'ul', 'ol', 'dl',
+    'table', 'blockquote', 'figure', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre', 'hr',
+  ]),
+  li: new Set(['li']),
+  dt: new Set(['dt', 'dd']),
+  dd: new Set(['dt', 'dd']),
+  tr: new Set(['tr', 'tbody', 'thead', 'tfoot']),
+  td: new Set(['td', 'th', 'tr', 'tbody', 'thead', 'tfoot']),
+  th: new Set(['td', 'th', 'tr', 'tbody', 'thead', 'tfoot']),
+  option: new Set(['option', 'optgroup']),
+};
+
+/**
+ * Build a lenient element tree from HTML
+ *
+ * Not a spec-compliant parser: it handles void elements, raw-text
+ * elements, the common implied end tags and stray closing tags, which is
+ * enough for text extraction.
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { type: 'element', tag: '#root', attributes: {}, children: [], parent: null };
+  let current = root;
+  const pattern = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>|<\/\s*([a-z][a-z0-9-]*)[^>]*>|<([a-z][a-z0-9-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/gi;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const appendText = (text: string) => {
+    if (text) current.children.push({ type: 'text', text: decodeHtmlEntities(text) });
+  };
+
+  while ((match = pattern.exec(html)) !== null) {
+    appendText(html.slice(lastIndex, match.index));
+    lastIndex = pattern.lastIndex;
+
+    const [token, closing, opening] = match;
+    if (closing) {
+      const tag = closing.toLowerCase();
+      // Ignore stray end tags with no open element
+      for (let node: HtmlElement | null = current; node && node !== root; node = node.parent) {
+        if (node.tag === tag) {
+          current = node.parent ?? root;
+          break;
+        }
+      }
+      continue;
+    }
+    if (!opening) continue; // comment, doctype, processing instruction
+
+    const tag = opening.toLowerCase();
+    while (current !== root && IMPLIED_END[current.tag]?.has(tag)) {
+      current = current.parent ?? root;
+    }
+
+    const element: HtmlElement = {
+      type: 'element',
+      tag,
+      attributes: parseAttributes(token),
+      children: [],
+      parent: current,
+    };
+    current.children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(tag) && !token.endsWith('/>')) {
+      const endPattern = new RegExp(`</${tag}`, 'gi');
+      endPattern.lastIndex = lastIndex;
+      const end = endPattern.exec(html)?.index ?? -1;
+      const stop = end === -1 ? html.length : end;
+      if (tag === 'title' || tag === 'textarea') {
+        element.children.push({ type: 'text', text: decodeHtmlEntities(html.slice(lastIndex, stop)) });
+      }
+      const close = end === -1 ? html.length : html.indexOf('>', end) + 1 || html.length;
+      pattern.lastIndex = close;
+      lastIndex = close;
+      continue;
+    }
+
+    if (!VOID_ELEMENTS.has(tag) && !token.endsWith('/>')) {
+      current = element;
+    }
+  }
+
+  appendText(html.slice(lastIndex));
+  return root;
+}
+
+/**
+ * Depth-first search for the first element matching a predicate
+ */
+export function findElement(
+  node: HtmlElement,
+  predicate: (element: HtmlElement) => boolean,
+): HtmlElement | null {
+  for (const child of node.children) {
+    if (child.type !== 'element') continue;
+    if (predicate(child)) return child;
+    const found = findElement(child, predicate);
+    if (found) return found;
+  }
+  return null;
+}
@@ -1,2 +1,101 @@
-export type { CrawlPage, CrawlResult, CrawlOptions } from './crawler';
-export { crawlSite } from './crawler';
+export type {
+  CrawlPage,
+  CrawlResult,
+  CrawlOptions,
+  CrawlChanges,
+  CrawlSnapshot,
+  CrawlSkip,
+  CrawlLimits,
+  CrawlLink,
+  CrawlBlock,
+} from './crawler';
+export {
+  crawlSite,
+  computeCrawlHash,
+  crawlLimitsFromGuard,
+  DEFAULT_CRAWL_LIMITS,
+} from './crawler';
+export {
+  MemoryCrawlSnapshotStore,
+  JsonFileCrawlSnapshotStore,
+  type CrawlSnapshotStore,
+  type CrawlSnapshotRecord,
+  type JsonFileCrawlSnapshotStoreOptions,
+} from './snapshot-store';
+export {
+  parseRobotsTxt,
+  selectRobotsPolicy,
+  isPathAllowed,
+  isUrlAllowed,
+  type RobotsTxt,
+  type RobotsGroup,
+  type RobotsRule,
+  type RobotsPolicy,
+} from './robots';
+export {
+  classifyUrl,
+  classifyPage,
+  scoreUrl,
+  DEFAULT_PRIORITY_PAGES,
+  type ScoreOptions,
+} from './prioritize';
+export {
+  assertUrlAllowed,
+  guardedFetch,
+  isPrivateAddress,
+  CrawlBlockedError,
+  DEFAULT_REDIRECT_POLICY,
+  type CrawlBlockReason,
+  type HostResolver,
+  type RedirectPolicy,
+  type UrlGuardOptions,
+} from './url-guard';
+export {
+  parseSitemap,
+  decodeSitemapBody,
+  resolveSitemaps,
+  sitemapEntryScore,
+  type SitemapEntry,
+  type ParsedSitemap,
+  type SitemapFetcher,
+  type ResolveSitemapOptions,
+  type ResolvedSitemaps,
+} from './sitemap';
+export {
+  extractPageMetadata,
+  extractStructuredData,
+  type PageMetadata,
+  type StructuredData,
+  type StructuredProduct,
+  type StructuredOffer,
+  type StructuredOrganization,
+  type StructuredRating,
+  type StructuredReview,
+} from './metadata';
+export {
+  extractContent,
+  blocksToText,
+  type ContentBlock,
+  type ExtractedContent,
+} from './content';
+export {
+  decodeBody,
+  detectCharset,
+  normalizeCharset,
+  type CharsetSource,
+  type DetectedCharset,
+  type DecodedBody,
+} from './charset';
+export {
+  extractVisualAssets,
+  extractCssTokens,
+  buildVisualIdentity,
+  visualStyleModifiers,
+  parseColor,
+  type VisualAssets,
+  type VisualIdentity,
+  type LogoCandidate,
+  type LogoSource,
+  type ColorToken,
+  type FontToken,
+} from './visual';
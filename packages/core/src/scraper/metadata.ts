@@ -0,0 +1,307 @@
+/**
+ * Page Metadata - Title, meta tags, headings and schema.org data
+ *
+ * Runs on raw HTML before it is flattened to text. JSON-LD blocks are
+ * walked (including `@graph` and nested values) and the schema.org types
+ * the kernel cares about are normalised into `StructuredData`: products
+ * with their offers, the organization, aggregate ratings and reviews.
+ */
+
+import { decodeHtmlEntities, htmlToInlineText, parseAttributes } from './html';
+
+export interface StructuredOffer {
+  name?: string;
+  price?: string;
+  /** Upper bound for `AggregateOffer` ranges */
+  high_price?: string;
+  currency?: string;
+}
+
+export interface StructuredProduct {
+  name: string;
+  description?: string;
+  brand?: string;
+  offers: StructuredOffer[];
+}
+
+export interface StructuredOrganization {
+  name: string;
+  description?: string;
+  slogan?: string;
+  same_as: string[];
+}
+
+export interface StructuredRating {
+  /** What was rated (product or organization name) */
+  item?: string;
+  value: number;
+  best?: number;
+  count?: number;
+}
+
+export interface StructuredReview {
+  item?: string;
+  author?: string;
+  body: string;
+  rating?: number;
+}
+
+/**
+ * schema.org data normalised from JSON-LD
+ */
+export interface StructuredData {
+  types: string[];
+  products: StructuredProduct[];
+  organization?: StructuredOrganization;
+  ratings: StructuredRating[];
+  reviews: StructuredReview[];
+}
+
+export interface PageMetadata {
+  title?: string;
+  metaDescription?: string;
+  h1?: string;
+  /** `og:*` properties without the prefix (`title`, `description`, ...) */
+  openGraph: Record<string, string>;
+  structuredData?: StructuredData;
+}
+
+const ORGANIZATION_TYPES = new Set([
+  'organization',
+  'corporation',
+  'localbusiness',
+  'onlinestore',
+  'store',
+]);
+const MAX_PRODUCTS = 20;
+const MAX_REVIEWS = 10;
+const MAX_JSON_LD_NODES = 500;
+
+type JsonNode = Record<string, unknown>;
+
+export function extractPageMetadata(html: string): PageMetadata {
+  const head = html.slice(0, 200_000);
+  const metadata: PageMetadata = { openGraph: {} };
+
+  const title = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  if (title) {
+    metadata.title = htmlToInlineText(title[1]) || undefined;
+  }
+
+  for (const match of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(match[0]);
+    const content = attributes.content?.trim();
+    if (!content) continue;
+    const name = (attributes.name ?? '').toLowerCase();
+    const property = (attributes.property ?? attributes.name ?? '').toLowerCase();
+    if (name === 'description' && !metadata.metaDescription) {
+      metadata.metaDescription = content;
+    }
+    if (property.startsWith('og:')) {
+      metadata.openGraph[property.slice(3)] ??= content;
+    }
+  }
+
+  const h1 = html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i);
+  if (h1) {
+    metadata.h1 = htmlToInlineText(h1[1]) || undefined;
+  }
+
+  const structured = extractStructuredData(html);
+  if (structured) {
+    metadata.structuredData = structured;
+  }
+
+  return metadata;
+}
+
+/**
+ * Parse every JSON-LD block; returns undefined when there is none
+ */
+export function extractStructuredData(html: string): StructuredData | undefined {
+  const nodes: JsonNode[] = [];
+  const parents = new WeakMap<JsonNode, string>();
+  const pattern = /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+
+  for (const match of html.matchAll(pattern)) {
+    const raw = match[1].trim().replace(/^<!\[CDATA\[|\]\]>$/g, '');
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      try {
+        // Some CMSes entity-encode the block
+        parsed = JSON.parse(decodeHtmlEntities(raw));
+      } catch {
+        continue;
+      }
+    }
+    collectNodes(parsed, nodes, parents);
+  }
+
+  if (nodes.length === 0) return undefined;
+
+  const data: StructuredData = { types: [], products: [], ratings: [], reviews: [] };
+  const types = new Set<string>();
+
+  for (const node of nodes) {
+    const nodeTypes = typesOf(node);
+    nodeTypes.forEach((type) => types.add(type));
+    const lower = nodeTypes.map((type) => type.toLowerCase());
+
+    if (lower.includes('product') && data.products.length < MAX_PRODUCTS) {
+      const product = toProduct(node);
+      if (product) data.products.push(product);
+    }
+    if (!data.organization && lower.some((type) => ORGANIZATION_TYPES.has(type))) {
+      data.organization = toOrganization(node);
+    }
+    const item = itemName(node.itemReviewed) ?? parents.get(node);
+    if (lower.includes('aggregaterating')) {
+      const rating = toRating(node, item);
+      if (rating) data.ratings.push(rating);
+    }
+    if (lower.includes('review') && data.reviews.length < MAX_REVIEWS) {
+      const review = toReview(node, item);
+      if (review) data.reviews.push(review);
+    }
+  }
+
+  data.types = Array.from(types);
+  return data;
+}
+
+/**
+ * Flatten typed nodes, remembering the name of the enclosing node so a
+ * nested rating or review knows what it rates
+ */
+function collectNodes(
+  value: unknown,
+  nodes: JsonNode[],
+  parents: WeakMap<JsonNode, string>,
+  parentName?: string,
+): void {
+  if (nodes.length >= MAX_JSON_LD_NODES) return;
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectNodes(item, nodes, parents, parentName));
+    return;
+  }
+  if (!isNode(value)) return;
+
+  if (value['@type'] !== undefined) {
+    nodes.push(value);
+    if (parentName) parents.set(value, parentName);
+  }
+  const name = text(value.name) ?? parentName;
+  for (const [key, child] of Object.entries(value)) {
+    if (key === '@context') continue;
+    collectNodes(child, nodes, parents, name);
+  }
+}
+
+function toProduct(node: JsonNode): StructuredProduct | null {
+  const name = text(node.name);
+  if (!name) return null;
+
+  const offers = asArray(node.offers)
+    .filter(isNode)
+    .flatMap((offer) => {
+      const nested = asArray(offer.offers).filter(isNode);
+      return nested.length > 0 ? nested : [offer];
+    })
+    .map(toOffer)
+    .filter((offer): offer is StructuredOffer => offer !== null);
+
+  const product: StructuredProduct = { name, offers };
+  const description = text(node.description);
+  const brand = itemName(node.brand);
+  if (description) product.description = truncate(description, 200);
+  if (brand) product.brand = brand;
+  return product;
+}
+
+function toOffer(node: JsonNode): StructuredOffer | null {
+  const specification = asArray(node.priceSpecification).find(isNode);
+  const price = text(node.price) ?? text(node.lowPrice) ?? text(specification?.price);
+  if (!price) return null;
+  const offer: StructuredOffer = { price };
+  const name = text(node.name);
+  const highPrice = text(node.highPrice);
+  const currency = text(node.priceCurrency) ?? text(specification?.priceCurrency);
+  if (name) offer.name = name;
+  if (highPrice && highPrice !== price) offer.high_price = highPrice;
+  if (currency) offer.currency = currency;
+  return offer;
+}
+
+function toOrganization(node: JsonNode): StructuredOrganization | undefined {
+  const name = text(node.name);
+  if (!name) return undefined;
+  const organization: StructuredOrganization = {
+    name,
+    same_as: asArray(node.sameAs).map(text).filter((url): url is string => Boolean(url)),
+  };
+  const description = text(node.description);
+  const slogan = text(node.slogan);
+  if (description) organization.description = truncate(description, 300);
+  if (slogan) organization.slogan = slogan;
+  return organization;
+}
+
+function toRating(node: JsonNode, item?: string): StructuredRating | null {
+  const value = Number.parseFloat(text(node.ratingValue) ?? '');
+  if (!Number.isFinite(value)) return null;
+  const rating: StructuredRating = { value };
+  const best = Number.parseFloat(text(node.bestRating) ?? '');
+  const count = Number.parseInt(text(node.reviewCount) ?? text(node.ratingCount) ?? '', 10);
+  if (item) rating.item = item;
+  if (Number.isFinite(best)) rating.best = best;
+  if (Number.isFinite(count)) rating.count = count;
+  return rating;
+}
+
+function toReview(node: JsonNode, item?: string): StructuredReview | null {
+  const body = text(node.reviewBody) ?? text(node.description);
+  if (!body) return null;
+  const review: StructuredReview = { body: truncate(body, 240) };
+  const author = itemName(node.author);
+  const rating = isNode(node.reviewRating)
+    ? Number.parseFloat(text(node.reviewRating.ratingValue) ?? '')
+    : Number.NaN;
+  if (item) review.item = item;
+  if (author) review.author = author;
+  if (Number.isFinite(rating)) review.rating = rating;
+  return review;
+}
+
+function typesOf(node: JsonNode): string[] {
+  return asArray(node['@type'])
+    .map(text)
+    .filter((type): type is string => Boolean(type))
+    .map((type) => type.replace(/^https?:\/\/schema\.org\//i, ''));
+}
+
+function itemName(value: unknown): string | undefined {
+  if (isNode(value)) return text(value.name);
+  return text(value);
+}
+
+function text(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (typeof value !== 'string') return undefined;
+  const cleaned = htmlToInlineText(value);
+  return cleaned || undefined;
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isNode(value: unknown): value is JsonNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function truncate(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max - 1).trimEnd()}…` : value;
+}
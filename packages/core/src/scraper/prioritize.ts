@@ -0,0 +1,138 @@
+/**
+ * Prioritize - URL scoring and page classification
+ *
+ * The crawler only fetches a handful of pages, so it should spend them on
+ * the pages that describe the brand: homepage, pricing, products, about
+ * and customer stories. URLs are scored from their path plus the anchor
+ * text they were linked with; blog, legal and account pages sink. Customer
+ * stories rank just below about pages but classify as `other`.
+ */
+
+import type { PageContentType } from '../types/kernel';
+
+/**
+ * Paths from `ScraperConfig.priority_pages` used when none are configured
+ */
+export const DEFAULT_PRIORITY_PAGES = ['/', '/pricing', '/about', '/products', '/customers'];
+
+const TYPE_SCORES: Record<PageContentType, number> = {
+  homepage: 100,
+  pricing: 90,
+  products: 80,
+  about: 70,
+  other: 20,
+};
+
+const CUSTOMER_STORY_SCORE = 65;
+
+const CUSTOMER_STORY_PATH = /\b(?:customers?|case-stud(?:y|ies)|success-stor(?:y|ies)|testimonials?|reviews)\b/;
+
+const CUSTOMER_STORY_ANCHOR = /\b(?:customers|case stud(?:y|ies)|success stor(?:y|ies)|testimonials|reviews)\b/i;
+
+const PATH_PATTERNS: Array<[Exclude<PageContentType, 'homepage' | 'other'>, RegExp]> = [
+  ['pricing', /\b(?:pricing|prices?|plans?|packages|subscribe|subscriptions?)\b/],
+  ['products', /\b(?:products?|features?|solutions?|platform|services?|shop|collections?|store)\b/],
+  ['about', /\b(?:about(?:-us)?|company|our-story|story|mission|team|who-we-are)\b/],
+];
+
+const ANCHOR_PATTERNS: Array<[Exclude<PageContentType, 'homepage' | 'other'>, RegExp]> = [
+  ['pricing', /\b(?:pricing|prices|plans|buy now)\b/i],
+  ['products', /\b(?:products?|features|solutions|platform|services|shop|store)\b/i],
+  ['about', /\b(?:about|our story|company|mission|team)\b/i],
+];
+
+const LOW_VALUE_PATH =
+  /\b(?:blog|news|posts?|articles?|tags?|categor(?:y|ies)|author|archive|page\/\d+|privacy|terms|legal|cookies?|login|signin|sign-in|signup|register|account|cart|checkout|careers|jobs|press)\b/;
+
+const LOW_VALUE_EXTENSION = /\.(?:pdf|jpe?g|png|gif|svg|webp|zip|xml|json|css|js)$/;
+
+export interface ScoreOptions {
+  anchorText?: string;
+  priorityPages?: string[];
+}
+
+/**
+ * Classify a URL (and optionally the anchor text linking to it)
+ */
+export function classifyUrl(url: string, anchorText = ''): PageContentType {
+  const parsed = safeUrl(url);
+  if (!parsed) return 'other';
+
+  const path = parsed.pathname.toLowerCase().replace(/\/+$/, '');
+  if (path === '' || /^\/(?:index\.html?|home)$/.test(path)) {
+    return 'homepage';
+  }
+
+  for (const [type, pattern] of PATH_PATTERNS) {
+    if (pattern.test(path)) return type;
+  }
+
+  const anchor = anchorText.trim();
+  if (anchor) {
+    for (const [type, pattern] of ANCHOR_PATTERNS) {
+      if (pattern.test(anchor)) return type;
+    }
+  }
+
+  return 'other';
+}
+
+/**
+ * Classify a fetched page, falling back to its content for unclear URLs
+ */
+export function classifyPage(url: string, content: string, anchorText = ''): PageContentType {
+  const fromUrl = classifyUrl(url, anchorText);
+  if (fromUrl !== 'other') return fromUrl;
+
+  const sample = content.slice(0, 4000);
+  const priceMentions = sample.match(/[$€£]\s?\d+(?:[.,]\d{2})?/g)?.length ?? 0;
+  if (priceMentions >= 3 && /\b(?:per|\/)\s?(?:month|mo|year|yr|user|seat)\b/i.test(sample)) {
+    return 'pricing';
+  }
+  return 'other';
+}
+
+/**
+ * Score a URL for crawl ordering (higher first)
+ */
+export function scoreUrl(url: string, options: ScoreOptions = {}): number {
+  const parsed = safeUrl(url);
+  if (!parsed) return 0;
+
+  const path = parsed.pathname.toLowerCase();
+  const type = classifyUrl(url, options.anchorText);
+  let score =
+    type === 'other' &&
+    (CUSTOMER_STORY_PATH.test(path) || CUSTOMER_STORY_ANCHOR.test(options.anchorText ?? ''))
+      ? CUSTOMER_STORY_SCORE
+      : TYPE_SCORES[type];
+
+  if (LOW_VALUE_PATH.test(path)) score -= 40;
+  if (LOW_VALUE_EXTENSION.test(path)) score -= 60;
+
+  // Deep pages are usually individual posts or SKUs
+  const depth = path.split('/').filter(Boolean).length;
+  score -= Math.max(0, depth - 1) * 5;
+  if (parsed.search) score -= 10;
+
+  const priorityPages = options.priorityPages ?? DEFAULT_PRIORITY_PAGES;
+  const normalizedPath = path.replace(/\/+$/, '') || '/';
+  if (
+    priorityPages.some((page) => {
+      const target = page.toLowerCase().replace(/\/+$/, '') || '/';
+      return target === '/' ? normalizedPath === '/' : normalizedPath.startsWith(target);
+    })
+  ) {
+    score += 25;
+  }
+
+  return score;
+}
+
+function safeUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * robots.txt - Parsing and matching
+ *
+ * Follows RFC 9309: the most specific user-agent group applies (falling
+ * back to `*`), the longest matching rule wins, Allow wins ties, and `*`
+ * / `$` wildcards are supported. Crawl-delay and Sitemap lines are kept
+ * for politeness and sitemap discovery.
+ */
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  path: string;
+}
+
+export interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+/**
+ * Rules that apply to one crawler
+ */
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+  /** Set when robots.txt could not be fetched and everything is disallowed */
+  unreachable?: boolean;
+}
+
+export const ALLOW_ALL: RobotsPolicy = { rules: [] };
+
+export const DISALLOW_ALL: RobotsPolicy = {
+  rules: [{ type: 'disallow', path: '/' }],
+  unreachable: true,
+};
+
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything; an empty Allow means nothing
+      if (value) {
+        current.rules.push({ type: field, path: value });
+      }
+    } else if (field === 'crawl-delay') {
+      const seconds = Number.parseFloat(value);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        current.crawlDelaySeconds = seconds;
+      }
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Pick the rules for a user agent
+ *
+ * Groups are matched on the product token (e.g. "brandpackcrawler" from
+ * "BrandPackCrawler/1.0 (...)"), compared whole and case-insensitively as
+ * RFC 9309 requires, so a group for "bot" or "BrandPack" does not apply.
+ * All groups naming the token are merged; otherwise the `*` groups apply.
+ */
+export function selectRobotsPolicy(robots: RobotsTxt, userAgent: string): RobotsPolicy {
+  const token = productToken(userAgent);
+
+  const specific = robots.groups.filter((group) =>
+    group.agents.some((agent) => agent !== '*' && productToken(agent) === token),
+  );
+  const matched =
+    specific.length > 0
+      ? specific
+      : robots.groups.filter((group) => group.agents.includes('*'));
+
+  const delays = matched
+    .map((group) => group.crawlDelaySeconds)
+    .filter((delay): delay is number => delay !== undefined);
+
+  return {
+    rules: matched.flatMap((group) => group.rules),
+    crawlDelaySeconds: delays.length > 0 ? Math.max(...delays) : undefined,
+  };
+}
+
+/**
+ * Product token of a user agent or group line: "BrandPackCrawler/1.0 (...)"
+ * gives "brandpackcrawler"
+ */
+function productToken(userAgent: string): string {
+  return userAgent.trim().split(/[\s/]/)[0].toLowerCase();
+}
+
+/**
+ * Check whether a URL path (including query) may be fetched
+ */
+export function isPathAllowed(policy: RobotsPolicy, pathWithQuery: string): boolean {
+  let best: RobotsRule | null = null;
+  let bestLength = -1;
+
+  for (const rule of policy.rules) {
+    if (!matchesRule(rule.path, pathWithQuery)) continue;
+    const length = rule.path.length;
+    if (length > bestLength || (length === bestLength && rule.type === 'allow')) {
+      best = rule;
+      bestLength = length;
+    }
+  }
+
+  return !best || best.type === 'allow';
+}
+
+export function isUrlAllowed(policy: RobotsPolicy, url: string): boolean {
+  const parsed = new URL(url);
+  return isPathAllowed(policy, `${parsed.pathname}${parsed.search}`);
+}
+
+function matchesRule(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split('*')
+    .map((part) => escapeRegExp(normalizeEncoding(part)))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(normalizeEncoding(path));
+}
+
+function normalizeEncoding(value: string): string {
+  try {
+    return decodeURI(value);
+  } catch {
+    return value;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,196 @@
+/**
+ * Sitemaps - Parsing, index resolution and ranking
+ *
+ * Handles `<urlset>` and `<sitemapindex>` documents (nested indexes are
+ * walked breadth-first), gzip-compressed `.xml.gz` files, and ranks page
+ * entries by `<priority>` and `<lastmod>` so fresh, important pages are
+ * considered first.
+ */
+
+import { gunzipSync } from 'node:zlib';
+import { decodeBody } from './charset';
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: string;
+  priority?: number;
+}
+
+export interface ParsedSitemap {
+  type: 'urlset' | 'index';
+  entries: SitemapEntry[];
+}
+
+/**
+ * Fetch a sitemap body; resolve null for missing or failed responses
+ */
+export type SitemapFetcher = (url: string) => Promise<Buffer | null>;
+
+export interface ResolveSitemapOptions {
+  /** Only page URLs on this origin are returned */
+  origin: string;
+  fetchBody: SitemapFetcher;
+  /** Stop after this many page entries */
+  maxUrls: number;
+  /** Sitemap documents to read, including indexes (default 10) */
+  maxFiles?: number;
+  /** Index nesting to follow (default 3) */
+  maxDepth?: number;
+}
+
+export interface ResolvedSitemaps {
+  entries: SitemapEntry[];
+  /** Sitemap documents that were read */
+  sitemaps: string[];
+}
+
+const DEFAULT_MAX_FILES = 10;
+const DEFAULT_MAX_DEPTH = 3;
+/** Decompressed size cap; the protocol allows 50MB but we need a sample */
+const MAX_SITEMAP_BYTES = 10 * 1024 * 1024;
+
+const LOW_VALUE_SITEMAP = /(?:post|blog|article|news|tag|author|categor|archive)/i;
+
+export function parseSitemap(xml: string): ParsedSitemap {
+  const isIndex = /<sitemapindex[\s>]/i.test(xml);
+  const blockPattern = isIndex
+    ? /<sitemap[\s>][\s\S]*?<\/sitemap>/gi
+    : /<url[\s>][\s\S]*?<\/url>/gi;
+
+  const entries: SitemapEntry[] = [];
+  for (const match of xml.matchAll(blockPattern)) {
+    const block = match[0];
+    const loc = readTag(block, 'loc');
+    if (!loc) continue;
+
+    const entry: SitemapEntry = { url: loc };
+    const lastmod = readTag(block, 'lastmod');
+    if (lastmod && !Number.isNaN(Date.parse(lastmod))) {
+      entry.lastmod = lastmod;
+    }
+    const priority = Number.parseFloat(readTag(block, 'priority') ?? '');
+    if (Number.isFinite(priority)) {
+      entry.priority = Math.min(1, Math.max(0, priority));
+    }
+    entries.push(entry);
+  }
+
+  return { type: isIndex ? 'index' : 'urlset', entries };
+}
+
+/**
+ * Decode a sitemap body, gunzipping `.xml.gz` payloads
+ */
+export function decodeSitemapBody(body: Buffer): string {
+  // gzip magic number; fetch already undoes Content-Encoding, not .gz files
+  const xml =
+    body.length >= 2 && body[0] === 0x1f && body[1] === 0x8b
+      ? gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES })
+      : body;
+  return decodeBody(xml, null).text;
+}
+
+/**
+ * Ranking bonus from `<priority>` (±20) and `<lastmod>` recency (up to 10)
+ */
+export function sitemapEntryScore(entry: SitemapEntry, now = Date.now()): number {
+  let score = ((entry.priority ?? 0.5) - 0.5) * 40;
+  if (entry.lastmod) {
+    const ageDays = (now - Date.parse(entry.lastmod)) / 86_400_000;
+    if (ageDays <= 30) score += 10;
+    else if (ageDays <= 365) score += 5;
+  }
+  return score;
+}
+
+/**
+ * Read sitemaps from the candidate list, following indexes
+ *
+ * Indexes are walked breadth-first, newest children first, except that
+ * blog / archive child sitemaps are deferred until every other sitemap
+ * has been read. Reading stops once `maxUrls` page entries are collected
+ * or the file / depth limits are hit.
+ */
+export async function resolveSitemaps(
+  candidates: string[],
+  options: ResolveSitemapOptions,
+): Promise<ResolvedSitemaps> {
+  const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const queue = candidates.map((url) => ({ url, depth: 0 }));
+  const deferred: typeof queue = [];
+  const seenSitemaps = new Set<string>();
+  const seenPages = new Set<string>();
+  const entries: SitemapEntry[] = [];
+  const sitemaps: string[] = [];
+
+  while (
+    (queue.length > 0 || deferred.length > 0) &&
+    sitemaps.length < maxFiles &&
+    entries.length < options.maxUrls
+  ) {
+    const { url, depth } = queue.shift() ?? deferred.shift()!;
+    if (seenSitemaps.has(url)) continue;
+    seenSitemaps.add(url);
+
+    let parsed: ParsedSitemap;
+    try {
+      const body = await options.fetchBody(url);
+      if (!body) continue;
+      parsed = parseSitemap(decodeSitemapBody(body));
+    } catch {
+      continue;
+    }
+    if (parsed.entries.length === 0) continue;
+    sitemaps.push(url);
+
+    if (parsed.type === 'index') {
+      if (depth >= maxDepth) continue;
+      const children = [...parsed.entries].sort(byLastmodDesc);
+      for (const child of children) {
+        const target = LOW_VALUE_SITEMAP.test(child.url) ? deferred : queue;
+        target.push({ url: child.url, depth: depth + 1 });
+      }
+      continue;
+    }
+
+    for (const entry of parsed.entries) {
+      if (!isSameOrigin(entry.url, options.origin) || seenPages.has(entry.url)) continue;
+      seenPages.add(entry.url);
+      entries.push(entry);
+      if (entries.length >= options.maxUrls) break;
+    }
+  }
+
+  return { entries, sitemaps };
+}
+
+function byLastmodDesc(a: SitemapEntry, b: SitemapEntry): number {
+  return (b.lastmod ? Date.parse(b.lastmod) : 0) - (a.lastmod ? Date.parse(a.lastmod) : 0);
+}
+
+function readTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'i'));
+  if (!match) return undefined;
+  const value = match[1]
+    .replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1')
+    .trim();
+  return decodeXmlEntities(value) || undefined;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function isSameOrigin(url: string, origin: string): boolean {
+  try {
+    return new URL(url).origin === origin;
+  } catch {
+    return false;
+  }
+}
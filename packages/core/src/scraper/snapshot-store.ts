@@ -0,0 +1,96 @@
+/**
+ * Crawl Snapshot Store - Previous crawls per domain
+ *
+ * Keeps the last crawl (pages with ETag / Last-Modified) and the kernel
+ * compressed from it, mirroring the `scrape_cache` table. `crawlSite`
+ * uses the pages for conditional requests; callers reuse the kernel when
+ * the aggregate content hash is unchanged.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { KernelPayload } from '../kernel/compressor';
+import type { CrawlPage } from './crawler';
+
+export interface CrawlSnapshotRecord {
+  domain: string;
+  /** Aggregate hash from `computeCrawlHash` */
+  content_hash: string;
+  pages: CrawlPage[];
+  kernel?: KernelPayload;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CrawlSnapshotStore {
+  get(domain: string): Promise<CrawlSnapshotRecord | null>;
+  put(record: CrawlSnapshotRecord): Promise<void>;
+}
+
+/**
+ * In-memory store (tests, local scripts)
+ */
+export class MemoryCrawlSnapshotStore implements CrawlSnapshotStore {
+  private readonly records = new Map<string, CrawlSnapshotRecord>();
+
+  async get(domain: string): Promise<CrawlSnapshotRecord | null> {
+    const record = this.records.get(domain);
+    return record ? structuredClone(record) : null;
+  }
+
+  async put(record: CrawlSnapshotRecord): Promise<void> {
+    this.records.set(record.domain, structuredClone(record));
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+}
+
+export interface JsonFileCrawlSnapshotStoreOptions {
+  /** Directory that holds one `<domain>.json` file per site */
+  directory: string;
+}
+
+/**
+ * JSON file store, one file per domain
+ */
+export class JsonFileCrawlSnapshotStore implements CrawlSnapshotStore {
+  private readonly directory: string;
+
+  constructor(options: JsonFileCrawlSnapshotStoreOptions) {
+    this.directory = path.resolve(options.directory);
+  }
+
+  async get(domain: string): Promise<CrawlSnapshotRecord | null> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.fileFor(domain), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(contents) as CrawlSnapshotRecord;
+    } catch {
+      // partially written snapshot; treat as missing
+      return null;
+    }
+  }
+
+  async put(record: CrawlSnapshotRecord): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = this.fileFor(record.domain);
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(record), 'utf-8');
+    await fs.rename(temp, file);
+  }
+
+  private fileFor(domain: string): string {
+    const safeDomain = domain.toLowerCase().replace(/[^a-z0-9_.-]/g, '_');
+    return path.join(this.directory, `${safeDomain}.json`);
+  }
+}
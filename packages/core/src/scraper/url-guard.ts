@@ -0,0 +1,404 @@
+/**
+ * URL Guard - SSRF protection for crawler requests
+ *
+ * Every request the crawler makes (start URL, robots.txt, sitemaps, pages
+ * and each redirect hop) is checked before it is sent: only http/https,
+ * and the host must resolve exclusively to public addresses. Loopback,
+ * RFC 1918, link-local (including cloud metadata at 169.254.169.254),
+ * CGNAT, multicast and their IPv6 equivalents are refused.
+ *
+ * `guardedFetch` connects to the address that passed the check rather than
+ * resolving the host again, so a host that rebinds between the check and
+ * the request cannot redirect it to a private address. Response bodies are
+ * capped at `maxResponseBytes` while they stream, after decompression.
+ */
+
+import { lookup } from 'node:dns/promises';
+import http from 'node:http';
+import https from 'node:https';
+import { isIP, type LookupFunction } from 'node:net';
+import { pipeline, Readable, Transform } from 'node:stream';
+import zlib from 'node:zlib';
+
+export type CrawlBlockReason =
+  | 'invalid_url'
+  | 'unsupported_scheme'
+  | 'private_address'
+  | 'dns_failure'
+  | 'too_many_redirects';
+
+export class CrawlBlockedError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly reason: CrawlBlockReason,
+    public readonly address?: string,
+  ) {
+    super(message);
+    this.name = 'CrawlBlockedError';
+  }
+}
+
+/**
+ * Resolve a hostname to every address it points at
+ */
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+export interface UrlGuardOptions {
+  /**
+   * Hostnames exempt from the address check (local development, tests)
+   */
+  allowedHosts?: string[];
+  /**
+   * DNS resolver (defaults to `dns.lookup` with `all: true`)
+   */
+  resolveHost?: HostResolver;
+  /**
+   * Largest response body `guardedFetch` reads, in bytes after
+   * decompression (default DEFAULT_MAX_RESPONSE_BYTES)
+   */
+  maxResponseBytes?: number;
+}
+
+export interface RedirectPolicy {
+  follow: boolean;
+  max: number;
+}
+
+export const DEFAULT_REDIRECT_POLICY: RedirectPolicy = { follow: true, max: 5 };
+
+export const DEFAULT_MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+
+const ALLOWED_PROTOCOLS = new Set(['http:', 'https:']);
+
+const BLOCKED_HOSTNAMES = new Set([
+  'localhost',
+  'metadata',
+  'metadata.google.internal',
+  'metadata.goog',
+  'instance-data',
+]);
+
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+const defaultResolver: HostResolver = async (hostname) => {
+  const results = await lookup(hostname, { all: true, verbatim: true });
+  return results.map((result) => result.address);
+};
+
+/**
+ * Check whether an IP address is private, loopback, link-local or reserved
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+  const family = isIP(ip);
+  if (family === 4) {
+    return isPrivateIPv4(ip);
+  }
+  if (family === 6) {
+    return isPrivateIPv6(ip);
+  }
+  // Not an IP at all; refuse rather than guess
+  return true;
+}
+
+/**
+ * Throw `CrawlBlockedError` unless the URL is safe to request
+ */
+export async function assertUrlAllowed(
+  url: string,
+  options: UrlGuardOptions = {},
+): Promise<URL> {
+  return (await checkUrl(url, options)).url;
+}
+
+/**
+ * Check a URL and return the address requests to it should connect to;
+ * allowed hosts skip the address check but are still resolved once
+ */
+async function checkUrl(
+  url: string,
+  options: UrlGuardOptions,
+): Promise<{ url: URL; address: string }> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new CrawlBlockedError(`Invalid URL: ${url}`, url, 'invalid_url');
+  }
+
+  if (!ALLOWED_PROTOCOLS.has(parsed.protocol)) {
+    throw new CrawlBlockedError(
+      `Scheme "${parsed.protocol.replace(/:$/, '')}" is not allowed`,
+      url,
+      'unsupported_scheme',
+    );
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  const allowed = options.allowedHosts?.some((host) => host.toLowerCase() === hostname) ?? false;
+
+  if (!allowed && (BLOCKED_HOSTNAMES.has(hostname) || hostname.endsWith('.localhost') || hostname.endsWith('.internal'))) {
+    throw new CrawlBlockedError(`Host "${hostname}" is not allowed`, url, 'private_address');
+  }
+
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = await (options.resolveHost ?? defaultResolver)(hostname);
+    } catch (error) {
+      throw new CrawlBlockedError(
+        `Could not resolve "${hostname}": ${(error as Error).message}`,
+        url,
+        'dns_failure',
+      );
+    }
+    if (addresses.length === 0) {
+      throw new CrawlBlockedError(`"${hostname}" did not resolve`, url, 'dns_failure');
+    }
+  }
+
+  const blocked = allowed ? undefined : addresses.find(isPrivateAddress);
+  if (blocked) {
+    throw new CrawlBlockedError(
+      `"${hostname}" resolves to non-public address ${blocked}`,
+      url,
+      'private_address',
+      blocked,
+    );
+  }
+
+  return { url: parsed, address: addresses[0] };
+}
+
+/**
+ * Fetch with the URL guard applied to the request and every redirect hop
+ *
+ * Redirects are followed manually. With `follow: false` the 3xx response
+ * is returned as-is; more than `max` hops throws `too_many_redirects`.
+ * Each hop connects to the address its check resolved, and reading a body
+ * larger than `maxResponseBytes` fails.
+ */
+export async function guardedFetch(
+  url: string,
+  init: RequestInit,
+  options: UrlGuardOptions & { redirects?: RedirectPolicy } = {},
+): Promise<{ response: Response; url: string }> {
+  const redirects = options.redirects ?? DEFAULT_REDIRECT_POLICY;
+  let current = url;
+
+  for (let hop = 0; ; hop++) {
+    let checked: { url: URL; address: string };
+    try {
+      checked = await checkUrl(current, options);
+    } catch (error) {
+      // Report the blocked hop against the URL that was requested
+      if (hop === 0 || !(error instanceof CrawlBlockedError)) throw error;
+      throw new CrawlBlockedError(
+        `Redirect to ${current} blocked: ${error.message}`,
+        url,
+        error.reason,
+        error.address,
+      );
+    }
+    const response = await pinnedRequest(
+      checked.url,
+      checked.address,
+      init,
+      options.maxResponseBytes ?? DEFAULT_MAX_RESPONSE_BYTES,
+    );
+
+    const location = response.headers.get('location');
+    if (!isRedirect(response.status) || !location || !redirects.follow) {
+      return { response, url: current };
+    }
+
+    if (hop >= redirects.max) {
+      await response.body?.cancel();
+      throw new CrawlBlockedError(
+        `Exceeded ${redirects.max} redirects`,
+        url,
+        'too_many_redirects',
+      );
+    }
+
+    await response.body?.cancel();
+    current = new URL(location, current).href;
+  }
+}
+
+/**
+ * One HTTP request to a pre-checked address, as a fetch `Response`
+ */
+function pinnedRequest(url: URL, address: string, init: RequestInit, maxBytes: number): Promise<Response> {
+  const family = isIP(address);
+  // Hand the checked address to the socket instead of resolving the host again
+  const pinned = ((_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [{ address, family }]);
+    } else {
+      callback(null, address, family);
+    }
+  }) as LookupFunction;
+
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(
+      url,
+      {
+        method: init.method ?? 'GET',
+        headers: Object.fromEntries(new Headers(init.headers)),
+        signal: init.signal ?? undefined,
+        lookup: pinned,
+        agent: false,
+      },
+      (incoming) => {
+        const headers = new Headers();
+        for (const [name, value] of Object.entries(incoming.headers)) {
+          if (Array.isArray(value)) value.forEach((entry) => headers.append(name, entry));
+          else if (value !== undefined) headers.set(name, value);
+        }
+
+        const status = incoming.statusCode ?? 0;
+        if (status === 204 || status === 304 || init.method === 'HEAD') {
+          incoming.resume();
+          resolve(new Response(null, { status, statusText: incoming.statusMessage, headers }));
+          return;
+        }
+
+        const decoder = decoderFor(headers.get('content-encoding'));
+        const body = pipeline(
+          [incoming, ...(decoder ? [decoder] : []), byteLimit(maxBytes, url.href)],
+          () => undefined,
+        ) as Transform;
+        resolve(
+          new Response(Readable.toWeb(body) as ReadableStream, {
+            status,
+            statusText: incoming.statusMessage,
+            headers,
+          }),
+        );
+      },
+    );
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+function decoderFor(encoding: string | null): Transform | null {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.createGunzip();
+    case 'deflate':
+      return zlib.createInflate();
+    case 'br':
+      return zlib.createBrotliDecompress();
+    default:
+      return null;
+  }
+}
+
+function byteLimit(maxBytes: number, url: string): Transform {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.byteLength;
+      if (received > maxBytes) {
+        callback(new Error(`Response from ${url} exceeds ${maxBytes} bytes`));
+      } else {
+        callback(null, chunk);
+      }
+    },
+  });
+}
+
+function isRedirect(status: number): boolean {
+  return status === 301 || status === 302 || status === 303 || status === 307 || status === 308;
+}
+
+function isPrivateIPv4(ip: string): boolean {
+  const value = ipv4ToNumber(ip);
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return ((value & mask) >>> 0) === ((ipv4ToNumber(base) & mask) >>> 0);
+  });
+}
+
+function isPrivateIPv6(ip: string): boolean {
+  const groups = expandIPv6(ip);
+  if (!groups) return true;
+
+  // Unspecified (::) and loopback (::1)
+  if (groups.slice(0, 7).every((group) => group === 0) && groups[7] <= 1) {
+    return true;
+  }
+
+  // Deprecated IPv4-compatible (::a.b.c.d); nothing legitimate uses it
+  if (groups.slice(0, 6).every((group) => group === 0)) {
+    return true;
+  }
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+  const mapped = groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff;
+  const nat64 = groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0);
+  if (mapped || nat64) {
+    return isPrivateIPv4(
+      [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.'),
+    );
+  }
+
+  const first = groups[0];
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xff00) === 0xff00 || // multicast ff00::/8
+    (first === 0x2001 && groups[1] === 0x0db8) // documentation 2001:db8::/32
+  );
+}
+
+function ipv4ToNumber(ip: string): number {
+  return ip
+    .split('.')
+    .reduce((value, octet) => ((value << 8) | Number(octet)) >>> 0, 0);
+}
+
+function expandIPv6(ip: string): number[] | null {
+  let text = ip.toLowerCase();
+
+  // Trailing dotted IPv4 becomes the last two groups
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[1]);
+    text = text.slice(0, -dotted[1].length) + `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (text.includes('::') ? missing < 0 : missing !== 0) {
+    return null;
+  }
+
+  const groups = [...headGroups, ...Array(text.includes('::') ? missing : 0).fill('0'), ...tailGroups].map(
+    (group) => Number.parseInt(group, 16),
+  );
+  return groups.length === 8 && groups.every((group) => Number.isFinite(group)) ? groups : null;
+}
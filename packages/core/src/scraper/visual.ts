@@ -0,0 +1,400 @@
+/**
+ * Visual Identity - Logo, colour palette and typography
+ *
+ * Collects logo candidates (header / "logo" images, apple-touch-icon,
+ * favicons, og:image), colours from CSS custom properties, `theme-color`
+ * and colour declarations, and font-family stacks from inline and linked
+ * CSS. The compressor folds the per-page assets into the kernel's
+ * `visual_identity`, which image briefs and `style_modifiers` build on.
+ */
+
+import { parseHtml, type HtmlElement } from './html';
+
+export type LogoSource = 'logo_img' | 'header_img' | 'apple_touch_icon' | 'mask_icon' | 'icon' | 'og_image';
+
+export interface LogoCandidate {
+  url: string;
+  source: LogoSource;
+  score: number;
+}
+
+export interface ColorToken {
+  /** Lowercase #rrggbb */
+  hex: string;
+  /** Custom property name without the leading dashes, e.g. "brand-primary" */
+  name?: string;
+  weight: number;
+}
+
+export interface FontToken {
+  family: string;
+  weight: number;
+}
+
+export interface VisualAssets {
+  logos: LogoCandidate[];
+  colors: ColorToken[];
+  fonts: FontToken[];
+  /** Linked stylesheets, absolute URLs in document order */
+  stylesheets: string[];
+}
+
+/**
+ * Kernel section built from the crawled pages' visual assets
+ */
+export interface VisualIdentity {
+  /** Best candidates first */
+  logos: Array<{ url: string; source: LogoSource }>;
+  /** Brand colours first, at most two neutrals */
+  colors: Array<{ hex: string; name?: string }>;
+  fonts: string[];
+}
+
+const LOGO_SCORES: Record<LogoSource, number> = {
+  logo_img: 90,
+  header_img: 70,
+  apple_touch_icon: 60,
+  mask_icon: 50,
+  icon: 40,
+  og_image: 30,
+};
+
+const MAX_LOGOS = 3;
+const MAX_COLORS = 6;
+const MAX_NEUTRALS = 2;
+const MAX_FONTS = 3;
+
+/** Custom property names that usually hold the brand colours */
+const BRAND_COLOR_NAME = /primary|brand|accent|secondary|highlight|cta|main/i;
+
+/** Custom properties holding a font stack, e.g. `--font-sans`, `--heading-font-family` */
+const FONT_VARIABLE = /font(?!-(?:size|weight|style|feature|variation|stretch|smoothing))/i;
+
+const COLOR_PROPERTY = /(?:^|[;{\s])(?:color|background|background-color|border-color|fill|stroke)\s*:\s*([^;}]+)/gi;
+
+const GENERIC_FONTS = new Set([
+  'serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-serif', 'ui-sans-serif',
+  'ui-monospace', 'ui-rounded', 'emoji', 'math', 'fangsong', '-apple-system', 'blinkmacsystemfont',
+  'segoe ui', 'segoe ui emoji', 'segoe ui symbol', 'apple color emoji', 'noto color emoji',
+  'inherit', 'initial', 'unset', 'revert', 'auto',
+]);
+
+/**
+ * Read logo candidates and inline CSS tokens from a page
+ */
+export function extractVisualAssets(html: string, pageUrl: string): VisualAssets {
+  const logos: LogoCandidate[] = [];
+  const stylesheets: string[] = [];
+  // The element tree drops raw-text content, so read <style> directly
+  const css: string[] = Array.from(html.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style>/gi), (match) => match[1]);
+  let hasIcon = false;
+
+  const addLogo = (href: string | undefined, source: LogoSource, bonus = 0) => {
+    const url = resolveUrl(href, pageUrl);
+    if (!url || url.startsWith('data:') || logos.some((logo) => logo.url === url)) return;
+    logos.push({ url, source, score: LOGO_SCORES[source] + bonus });
+  };
+
+  const visit = (element: HtmlElement, inHeader: boolean) => {
+    for (const child of element.children) {
+      if (child.type === 'text') continue;
+      const { tag, attributes } = child;
+
+      if (tag === 'link') {
+        const rel = (attributes.rel ?? '').toLowerCase().split(/\s+/);
+        if (rel.includes('stylesheet')) {
+          const url = resolveUrl(attributes.href, pageUrl);
+          if (url && !stylesheets.includes(url)) stylesheets.push(url);
+          css.push(...googleFontsCss(attributes.href));
+        } else if (rel.includes('apple-touch-icon') || rel.includes('apple-touch-icon-precomposed')) {
+          addLogo(attributes.href, 'apple_touch_icon');
+        } else if (rel.includes('mask-icon')) {
+          addLogo(attributes.href, 'mask_icon');
+        } else if (rel.includes('icon')) {
+          hasIcon = true;
+          // Prefer SVG and larger raster icons
+          const size = Number(attributes.sizes?.match(/^(\d+)/)?.[1] ?? 0);
+          addLogo(attributes.href, 'icon', /\.svg(?:$|\?)/i.test(attributes.href ?? '') ? 10 : Math.min(10, size / 20));
+        }
+      } else if (tag === 'meta') {
+        const key = (attributes.property ?? attributes.name ?? '').toLowerCase();
+        if (key === 'og:image' || key === 'og:image:url' || key === 'og:image:secure_url') {
+          addLogo(attributes.content, 'og_image');
+        } else if (key === 'theme-color' && attributes.content) {
+          css.push(`:root{--theme-color:${attributes.content}}`);
+        }
+      } else if (tag === 'img') {
+        const markers = `${attributes.src ?? ''} ${attributes.alt ?? ''} ${attributes.class ?? ''} ${attributes.id ?? ''}`;
+        if (/logo/i.test(markers)) {
+          addLogo(attributes.src, 'logo_img', inHeader ? 10 : 0);
+        } else if (inHeader) {
+          addLogo(attributes.src, 'header_img');
+        }
+      }
+
+      if (attributes.style) css.push(`*{${attributes.style}}`);
+      const header = inHeader || tag === 'header' || attributes.role === 'banner';
+      visit(child, header);
+    }
+  };
+  visit(parseHtml(html), false);
+
+  if (!hasIcon) {
+    addLogo('/favicon.ico', 'icon', -20);
+  }
+
+  const tokens = extractCssTokens(css.join('\n'));
+  return {
+    logos: logos.sort((a, b) => b.score - a.score),
+    colors: tokens.colors,
+    fonts: tokens.fonts,
+    stylesheets,
+  };
+}
+
+/**
+ * Colours and font families from a stylesheet
+ *
+ * Custom properties count more than one-off declarations, and names like
+ * `--brand-primary` count most.
+ */
+export function extractCssTokens(css: string): Pick<VisualAssets, 'colors' | 'fonts'> {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  const colors = new Map<string, ColorToken>();
+  const fonts = new Map<string, FontToken>();
+
+  const addColor = (value: string, weight: number, name?: string) => {
+    const hex = parseColor(value);
+    if (!hex) return;
+    const existing = colors.get(hex);
+    if (existing) {
+      existing.weight += weight;
+      if (!existing.name || (name && BRAND_COLOR_NAME.test(name) && !BRAND_COLOR_NAME.test(existing.name))) {
+        existing.name = name ?? existing.name;
+      }
+    } else {
+      colors.set(hex, { hex, name, weight });
+    }
+  };
+  const addFont = (stack: string, weight: number) => {
+    const family = primaryFamily(stack);
+    if (!family) return;
+    const key = family.toLowerCase();
+    const existing = fonts.get(key);
+    if (existing) existing.weight += weight;
+    else fonts.set(key, { family, weight });
+  };
+
+  const declarations = Array.from(source.matchAll(/--([\w-]+)\s*:\s*([^;}]+)/g), (match) => [match[1], match[2].trim()]);
+  // The first (usually :root, light theme) definition wins
+  const variables = new Map<string, string>();
+  for (const [name, value] of declarations) {
+    if (!variables.has(name)) variables.set(name, value);
+  }
+  // `--primary: var(--blue-600)` points at the palette entry it uses
+  const resolve = (value: string, depth = 0): string => {
+    const reference = value.match(/^var\(\s*--([\w-]+)\s*(?:,\s*([^)]+))?\)$/);
+    if (!reference || depth > 3) return value;
+    const target = variables.get(reference[1]) ?? reference[2];
+    return target ? resolve(target.trim(), depth + 1) : value;
+  };
+
+  for (const [name, value] of declarations) {
+    if (name.startsWith('tw-')) continue; // Tailwind internals
+    if (FONT_VARIABLE.test(name)) {
+      addFont(resolve(value), 2);
+    } else if (!/font/i.test(name)) {
+      addColor(resolve(value), BRAND_COLOR_NAME.test(name) || name === 'theme-color' ? 10 : 2, name);
+    }
+  }
+  for (const match of source.matchAll(COLOR_PROPERTY)) {
+    for (const literal of match[1].match(/#[0-9a-f]{3,8}\b|(?:rgb|hsl)a?\([^)]*\)/gi) ?? []) {
+      addColor(literal, 1);
+    }
+  }
+  for (const match of source.matchAll(/font-family\s*:\s*([^;}]+)/gi)) {
+    // @font-face declarations name the brand's own web fonts
+    const inFontFace = /@font-face\s*\{[^}]*$/i.test(source.slice(Math.max(0, match.index! - 300), match.index));
+    addFont(match[1], inFontFace ? 3 : 1);
+  }
+
+  return {
+    colors: Array.from(colors.values()).sort((a, b) => b.weight - a.weight),
+    fonts: Array.from(fonts.values()).sort((a, b) => b.weight - a.weight),
+  };
+}
+
+/**
+ * Fold per-page assets into the kernel section; null when nothing was found
+ */
+export function buildVisualIdentity(assets: VisualAssets[]): VisualIdentity | null {
+  const logos = new Map<string, LogoCandidate>();
+  const colors = new Map<string, ColorToken>();
+  const fonts = new Map<string, FontToken>();
+
+  assets.forEach((page, index) => {
+    // Earlier (higher-priority) pages break ties
+    const pageBonus = Math.max(0, 5 - index);
+    for (const logo of page.logos) {
+      const score = logo.score + pageBonus;
+      if ((logos.get(logo.url)?.score ?? -Infinity) < score) logos.set(logo.url, { ...logo, score });
+    }
+    for (const color of page.colors) {
+      const existing = colors.get(color.hex);
+      if (existing) {
+        existing.weight += color.weight;
+        existing.name = existing.name ?? color.name;
+      } else {
+        colors.set(color.hex, { ...color });
+      }
+    }
+    for (const font of page.fonts) {
+      const key = font.family.toLowerCase();
+      const existing = fonts.get(key);
+      if (existing) existing.weight += font.weight;
+      else fonts.set(key, { ...font });
+    }
+  });
+
+  const ranked = Array.from(colors.values()).sort((a, b) => b.weight - a.weight);
+  const brand = ranked.filter((color) => !isNeutral(color.hex));
+  const neutrals = ranked.filter((color) => isNeutral(color.hex)).slice(0, MAX_NEUTRALS);
+  const palette = [...brand.slice(0, MAX_COLORS - neutrals.length), ...neutrals].slice(0, MAX_COLORS);
+
+  const identity: VisualIdentity = {
+    logos: Array.from(logos.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_LOGOS)
+      .map(({ url, source }) => ({ url, source })),
+    colors: palette.map(({ hex, name }) => (name ? { hex, name } : { hex })),
+    fonts: Array.from(fonts.values())
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, MAX_FONTS)
+      .map((font) => font.family),
+  };
+
+  // A default /favicon.ico guess alone is not a visual identity
+  const onlyGuess = identity.logos.every((logo) => logo.source === 'icon') && identity.logos.length <= 1;
+  if (identity.colors.length === 0 && identity.fonts.length === 0 && onlyGuess) {
+    return null;
+  }
+  return identity;
+}
+
+/**
+ * Style modifiers for image adapters (`ImageConfig.style_modifiers`)
+ */
+export function visualStyleModifiers(identity: VisualIdentity | null | undefined): string[] {
+  if (!identity) return [];
+  const modifiers: string[] = [];
+  const brand = identity.colors.filter((color) => !isNeutral(color.hex));
+  if (brand.length > 0) {
+    modifiers.push(`brand colour palette ${brand.slice(0, 3).map((color) => color.hex).join(', ')}`);
+  }
+  const neutral = identity.colors.find((color) => isNeutral(color.hex));
+  if (neutral) {
+    modifiers.push(`${isDark(neutral.hex) ? 'dark' : 'light'} neutral backgrounds (${neutral.hex})`);
+  }
+  if (identity.fonts.length > 0) {
+    modifiers.push(`typography in the style of ${identity.fonts[0]}`);
+  }
+  return modifiers;
+}
+
+// ---------------------------------------------------------------------------
+
+/**
+ * Normalise a CSS colour literal to #rrggbb; null for keywords, variables
+ * and (nearly) transparent colours
+ */
+export function parseColor(value: string): string | null {
+  const literal = value.trim().replace(/\s*!important$/i, '').toLowerCase();
+
+  const hex = literal.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) digits = digits.split('').map((digit) => digit + digit).join('');
+    if (digits.length === 8 && parseInt(digits.slice(6), 16) < 128) return null;
+    return `#${digits.slice(0, 6)}`;
+  }
+
+  const functional = literal.match(/^(rgb|hsl)a?\(\s*([^)]*)\)$/);
+  if (!functional) return null;
+  const parts = functional[2].split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3) return null;
+  const alpha = parts[3] === undefined ? 1 : parseFloat(parts[3]) / (parts[3].endsWith('%') ? 100 : 1);
+  if (!(alpha >= 0.5)) return null;
+
+  let rgb: number[];
+  if (functional[1] === 'rgb') {
+    rgb = parts.slice(0, 3).map((part) =>
+      part.endsWith('%') ? (parseFloat(part) * 255) / 100 : parseFloat(part),
+    );
+  } else {
+    rgb = hslToRgb(parseFloat(parts[0]), parseFloat(parts[1]) / 100, parseFloat(parts[2]) / 100);
+  }
+  if (rgb.some((channel) => !Number.isFinite(channel))) return null;
+  return `#${rgb.map((channel) => Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): number[] {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const sector = (((hue % 360) + 360) % 360) / 60;
+  const second = chroma * (1 - Math.abs((sector % 2) - 1));
+  const [r, g, b] =
+    sector < 1 ? [chroma, second, 0]
+      : sector < 2 ? [second, chroma, 0]
+        : sector < 3 ? [0, chroma, second]
+          : sector < 4 ? [0, second, chroma]
+            : sector < 5 ? [second, 0, chroma]
+              : [chroma, 0, second];
+  const offset = lightness - chroma / 2;
+  return [r, g, b].map((channel) => (channel + offset) * 255);
+}
+
+function channels(hex: string): number[] {
+  return [1, 3, 5].map((index) => parseInt(hex.slice(index, index + 2), 16));
+}
+
+/** Greys, near-white and near-black */
+function isNeutral(hex: string): boolean {
+  const rgb = channels(hex);
+  return Math.max(...rgb) - Math.min(...rgb) < 24;
+}
+
+function isDark(hex: string): boolean {
+  const [r, g, b] = channels(hex);
+  return 0.299 * r + 0.587 * g + 0.114 * b < 128;
+}
+
+function primaryFamily(stack: string): string | null {
+  for (const raw of stack.replace(/\s*!important$/i, '').split(',')) {
+    const family = raw.trim().replace(/^["']|["']$/g, '').trim();
+    if (!family || /^(?:var\(|\d)/i.test(family) || GENERIC_FONTS.has(family.toLowerCase())) continue;
+    return family;
+  }
+  return null;
+}
+
+/**
+ * Google Fonts links name their families in the URL
+ */
+function googleFontsCss(href: string | undefined): string[] {
+  if (!href || !/fonts\.googleapis\.com\/css/i.test(href)) return [];
+  const query = href.split('?')[1] ?? '';
+  return query
+    .split('&')
+    .filter((param) => param.startsWith('family='))
+    .flatMap((param) => decodeURIComponent(param.slice(7).replace(/\+/g, ' ')).split('|'))
+    .map((family) => `@font-face{font-family:"${family.split(':')[0].trim()}"}`);
+}
+
+function resolveUrl(href: string | undefined, base: string): string | null {
+  if (!href || !href.trim()) return null;
+  try {
+    const url = new URL(href.trim(), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' || url.protocol === 'data:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
@@ -69,10 +69,30 @@ export interface AdapterResponse {
      */
     finish_reason?: string;
     
+    /**
+     * Provider that served the request when routed through a fallback chain
+     */
+    served_by?: string;
+    
+    /**
+     * Providers tried before served_by, in order, and why they were skipped
+     */
+    skipped_providers?: ProviderSkip[];
+    
     [key: string]: unknown;
   };
 }
 
+/**
+ * A provider passed over while routing through a fallback chain
+ */
+export interface ProviderSkip {
+  provider: string;
+  reason: 'not_registered' | 'retryable_error';
+  error_code: string;
+  message: string;
+}
+
 /**
  * Base interface for all LLM adapters
  */
@@ -83,9 +103,10 @@ export interface LLMAdapter {
   readonly provider: string;
   
   /**
-   * Execute an LLM spec and return standardized response
+   * Execute an LLM spec and return standardized response; an aborted
+   * `signal` cancels the request
    */
-  execute(spec: LLMSpec): Promise<AdapterResponse>;
+  execute(spec: LLMSpec, signal?: AbortSignal): Promise<AdapterResponse>;
   
   /**
    * Estimate cost before execution (useful for budget checks)
@@ -235,9 +256,26 @@ export enum AdapterErrorCode {
   CONTENT_FILTER = 'CONTENT_FILTER',
   INSUFFICIENT_QUOTA = 'INSUFFICIENT_QUOTA',
   NETWORK_ERROR = 'NETWORK_ERROR',
+  BUDGET_EXCEEDED = 'BUDGET_EXCEEDED',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR'
 }
 
+/**
+ * Transient error codes that are safe to retry
+ */
+export const RETRYABLE_ERROR_CODES: ReadonlySet<string> = new Set<string>([
+  AdapterErrorCode.RATE_LIMITED,
+  AdapterErrorCode.TIMEOUT,
+  AdapterErrorCode.NETWORK_ERROR,
+]);
+
+/**
+ * Check whether an error is a transient adapter failure worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof AdapterError && RETRYABLE_ERROR_CODES.has(error.code);
+}
+
 /**
  * Pricing information for a provider
  */
@@ -8,6 +8,7 @@
  * 4. This-run overrides
  */
 
+import type { LengthUnit } from '../config/validator';
 import type { ResponseFormat } from './spec';
 
 /**
@@ -250,6 +251,8 @@ export interface PromptsConfig {
     [callId: string]: {
       model: {
         provider: string;
+        /** Providers tried in order when the primary is unavailable */
+        fallback_providers?: string[];
         name: string;
         temperature: number;
         top_p?: number;
@@ -260,6 +263,8 @@ export interface PromptsConfig {
         user_template: string;
         variables: string[];
         outputs_expected: number;
+        /** JSON Schema (draft 2020-12 subset) for the whole response */
+        schema?: Record<string, unknown>;
       };
       runtime: {
         timeout_ms: number;
@@ -277,6 +282,39 @@ export interface PromptsConfig {
   };
   validation?: {
     banned_phrases?: string[];
+    length?: {
+      min_chars: number;
+      max_chars: number;
+      /** Counting unit for every limit: chars (default), words or graphemes */
+      unit?: LengthUnit;
+      per_slot?: {
+        [slot: string]: { min: number; max: number; unit?: LengthUnit };
+      };
+    };
+    evidence_policy?: {
+      /** Output kinds whose evidence problems fail validation */
+      required_for: string[];
+      allow_empty: boolean;
+    };
+    continuity?: {
+      enabled: boolean;
+      /** Highest tone_shift and fact_drift allowed between any two copy blocks */
+      thresholds: {
+        tone_shift: number;
+        fact_drift: number;
+      };
+    };
+  };
+  budgets?: {
+    max_cost_per_run: number;
+    max_tokens_per_run: number;
+    alert_threshold_usd: number;
+    per_stage?: {
+      [callId: string]: {
+        max_cost: number;
+        max_tokens: number;
+      };
+    };
   };
 }
 
@@ -12,6 +12,7 @@ export { SpecBuilder, validateSpec } from './spec';
 export type {
   LLMAdapter,
   AdapterResponse,
+  ProviderSkip,
   TokenUsage,
   ImageAdapter,
   ImageBrief,
@@ -20,7 +21,13 @@ export type {
   ImageResult as AdapterImageResult,
   ProviderPricing
 } from './adapter';
-export { AdapterError, AdapterErrorCode, calculateCost } from './adapter';
+export {
+  AdapterError,
+  AdapterErrorCode,
+  RETRYABLE_ERROR_CODES,
+  isRetryableError,
+  calculateCost
+} from './adapter';
 
 // Config types
 export type {
@@ -54,6 +61,7 @@ export type {
   AudienceAnalysis,
   ProofPoints,
   PricingCues,
+  PageContentType,
   ScrapedPage,
   ScrapeResult,
   ScrapeCache,
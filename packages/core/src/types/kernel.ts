@@ -161,6 +161,16 @@ export interface AudienceAnalysis {
   segments: AudienceSegment[];
 }
 
+/**
+ * Kind of page, assigned by the crawler from URL, anchor text and content
+ */
+export type PageContentType =
+  | 'homepage'
+  | 'about'
+  | 'products'
+  | 'pricing'
+  | 'other';
+
 /**
  * Scraped page data (before compression)
  */
@@ -169,7 +179,7 @@ export interface ScrapedPage {
   title: string;
   meta_description?: string;
   h1?: string;
-  content_type: 'homepage' | 'about' | 'products' | 'pricing' | 'other';
+  content_type: PageContentType;
   text_content: string;
   images: string[];
   links: string[];
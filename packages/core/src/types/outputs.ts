@@ -156,6 +156,7 @@ export interface ImageResult {
 export type ArtifactType =
   | 'kernel'
   | 'snapshot'
+  | 'review'
   | 'audience'
   | 'idea'
   | 'copy'
@@ -225,6 +226,9 @@ export interface AuditLogEntry {
   cache_hit: boolean;
   error_message?: string;
   request_hash: string;
+  validation_passed?: boolean;
+  validation_flags?: string[];
+  artifact_count?: number;
   created_at: string;
 }
 
@@ -0,0 +1,13 @@
+-- Brand Pack - Audit log validation columns
+-- Migration: 20250115000000_audit_log_validation
+
+-- Per-call validation outcome and artifact counts for GET /api/audit/:run_id
+ALTER TABLE public.audit_log
+  ADD COLUMN IF NOT EXISTS validation_passed BOOLEAN,
+  ADD COLUMN IF NOT EXISTS validation_flags TEXT[] DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS artifact_count INTEGER DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_audit_run_created ON public.audit_log(run_id, created_at);
+
+COMMENT ON COLUMN public.audit_log.validation_flags IS 'Validation status followed by error and warning messages';
+COMMENT ON COLUMN public.audit_log.artifact_count IS 'Number of parsed outputs returned by the call';
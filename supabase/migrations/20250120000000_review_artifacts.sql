@@ -0,0 +1,18 @@
+-- Brand Pack - Review artifacts
+-- Migration: 20250120000000_review_artifacts
+
+-- The pipeline review stage stores its summary as its own artifact type
+ALTER TABLE public.artifacts DROP CONSTRAINT IF EXISTS artifacts_type_check;
+
+ALTER TABLE public.artifacts
+  ADD CONSTRAINT artifacts_type_check CHECK (type IN (
+    'kernel',
+    'snapshot',
+    'review',
+    'audience',
+    'idea',
+    'copy',
+    'image_brief',
+    'image',
+    'export'
+  ));